@@ -1,6 +1,6 @@
-import { pgTable, integer, varchar, jsonb, timestamp, pgEnum, uuid, boolean, numeric, text } from "drizzle-orm/pg-core";
+import { pgTable, integer, varchar, jsonb, timestamp, pgEnum, uuid, boolean, numeric, text, uniqueIndex } from "drizzle-orm/pg-core";
 import { createSelectSchema, createInsertSchema } from 'drizzle-zod';
-import { relations } from 'drizzle-orm';
+import { relations, sql } from 'drizzle-orm';
 
 // Role enum (use lowercase for consistency)
 export const RoleEnum = pgEnum("role_enum", [
@@ -46,7 +46,9 @@ export const NotificationTypeEnum = pgEnum("notification_type_enum", [
     "payment_received", 
     "subscription_expiry",
     "system_update",
-    "promotional"
+    "promotional",
+    "recurring_invoice_failed",
+    "stock_expiry"
 ]);
 export const SyncStatusEnum = pgEnum("sync_status_enum", [
     "pending",
@@ -54,6 +56,58 @@ export const SyncStatusEnum = pgEnum("sync_status_enum", [
     "failed",
     "conflict"
 ]);
+export const VoucherTypeEnum = pgEnum("voucher_type_enum", [
+    "invoice",
+    "credit_note",
+    "debit_note",
+    "estimate",
+    "purchase_bill",
+    "delivery_challan",
+    "stock_transfer"
+]);
+export const RecurringFrequencyEnum = pgEnum("recurring_frequency_enum", [
+    "weekly",
+    "monthly",
+    "quarterly",
+    "half_yearly",
+    "yearly"
+]);
+export const NoteTypeEnum = pgEnum("note_type_enum", [
+    "credit",
+    "debit"
+]);
+export const DeliveryChannelEnum = pgEnum("delivery_channel_enum", [
+    "email",
+    "sms",
+    "whatsapp"
+]);
+export const StockReservationSourceEnum = pgEnum("stock_reservation_source_enum", [
+    "bill",
+    "sales_order"
+]);
+// Why goods move under a delivery challan (CGST rule 55)
+export const ChallanReasonEnum = pgEnum("challan_reason_enum", [
+    "supply",               // delivered now, invoiced later
+    "supply_on_approval",
+    "job_work",
+    "liquid_gas",           // quantity not known at removal
+    "exhibition",
+    "other"
+]);
+// Export invoices: IGST paid (WPAY) or zero-rated under LUT or bond (WOPAY)
+export const ExportTypeEnum = pgEnum("export_type_enum", [
+    "with_payment",
+    "without_payment"
+]);
+export const InventoryTransactionTypeEnum = pgEnum("inventory_transaction_type_enum", [
+    "opening",
+    "purchase",
+    "sale",
+    "return",
+    "adjustment",
+    "transfer",
+    "damage"
+]);
 
 // Enum types
 export type SubscriptionPlanType = typeof SubscriptionPlanEnum.enumValues[number];
@@ -64,6 +118,14 @@ export type SubscriptionStatusType  = typeof SubscriptionStatusEnum.enumValues[n
 export type RoleType = typeof RoleEnum.enumValues[number];
 export type SalesType = typeof SalesTypeEnum.enumValues[number];
 export type AiInsightType = typeof aiInsightTypeEnums.enumValues[number];
+export type VoucherType = typeof VoucherTypeEnum.enumValues[number];
+export type NoteType = typeof NoteTypeEnum.enumValues[number];
+export type RecurringFrequency = typeof RecurringFrequencyEnum.enumValues[number];
+export type DeliveryChannel = typeof DeliveryChannelEnum.enumValues[number];
+export type StockReservationSource = typeof StockReservationSourceEnum.enumValues[number];
+export type ExportType = typeof ExportTypeEnum.enumValues[number];
+export type ChallanReason = typeof ChallanReasonEnum.enumValues[number];
+export type InventoryTransactionType = typeof InventoryTransactionTypeEnum.enumValues[number];
 
 export const companies = pgTable("companies", {
     id: uuid("id").primaryKey().defaultRandom(),
@@ -71,6 +133,11 @@ export const companies = pgTable("companies", {
     name: varchar("name", { length: 128 }).notNull(),
     gstin: varchar("gstin", { length: 20 }).notNull(),
     address: text("address"),
+    upiVpa: varchar("upi_vpa", { length: 64 }), // UPI ID printed on invoices as a pay-to QR, e.g. shop@okaxis
+    upiPayeeName: varchar("upi_payee_name", { length: 64 }), // defaults to the company name
+    dunningSchedule: jsonb("dunning_schedule").$type<number[]>(), // reminder days relative to the due date (-3 = 3 days before); null uses the default, [] turns reminders off
+    allowNegativeStock: boolean("allow_negative_stock").notNull().default(true), // false blocks sales that would take available stock below zero
+    lutNumber: varchar("lut_number", { length: 32 }), // ARN of the letter of undertaking printed on zero-rated export invoices
     createdBy: integer("created_by").references(() => users.id, { onDelete: "cascade", onUpdate: "cascade" }),
     updatedBy: integer("updated_by").references(() => users.id, { onDelete: "cascade", onUpdate: "cascade" }),
     createdAt: timestamp("created_at").defaultNow(),
@@ -188,11 +255,149 @@ export const products = pgTable("products", {
     taxRate: numeric("tax_rate").default("0"),
     hsnCode: varchar("hsn_code", { length: 20 }),
     images: jsonb("images").$type<string[]>().default([]),
+    trackBatches: boolean("track_batches").notNull().default(false), // sales pick a batch, earliest expiry first
+    trackSerials: boolean("track_serials").notNull().default(false), // every unit carries a serial or IMEI number
+    warrantyMonths: integer("warranty_months"),                       // warranty from the sale date of a serial
     isActive: boolean("is_active").default(true),
     createdBy: integer("created_by").references(() => users.id),
     updatedBy: integer("updated_by").references(() => users.id),
     createdAt: timestamp("created_at").defaultNow(),
     updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+    uniqueIndex("products_company_sku_idx").on(table.companyId, table.sku),
+    uniqueIndex("products_company_barcode_idx").on(table.companyId, table.barcode)
+]);
+
+// Places a company keeps stock: the shop and its godowns. Every company with warehouses has
+// exactly one default, which takes stock movements that name no warehouse.
+export const warehouses = pgTable("warehouses", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    companyId: uuid("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 100 }).notNull(),
+    code: varchar("code", { length: 20 }),
+    address: text("address"),
+    isDefault: boolean("is_default").notNull().default(false),
+    isActive: boolean("is_active").notNull().default(true),
+    createdBy: integer("created_by").references(() => users.id),
+    updatedBy: integer("updated_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+    uniqueIndex("warehouses_company_name_idx").on(table.companyId, table.name),
+    uniqueIndex("warehouses_company_default_idx").on(table.companyId).where(sql`${table.isDefault}`)
+]);
+
+// Stock of a product in a warehouse; across a company's warehouses it adds up to products.stock
+export const warehouseStock = pgTable("warehouse_stock", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    companyId: uuid("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+    warehouseId: uuid("warehouse_id").notNull().references(() => warehouses.id, { onDelete: "cascade" }),
+    productId: uuid("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+    quantity: integer("quantity").notNull().default(0),
+    updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+    uniqueIndex("warehouse_stock_warehouse_product_idx").on(table.warehouseId, table.productId)
+]);
+
+// A batch (lot) of a product with its dates and batch-wise MRP. quantity is the batch's stock
+// across the company's warehouses and moves with the ledger rows that name the batch.
+export const productBatches = pgTable("product_batches", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    companyId: uuid("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+    productId: uuid("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+    batchNumber: varchar("batch_number", { length: 64 }).notNull(),
+    manufacturingDate: timestamp("manufacturing_date"),
+    expiryDate: timestamp("expiry_date"),
+    mrp: numeric("mrp"),
+    costPrice: numeric("cost_price"),
+    quantity: integer("quantity").notNull().default(0),
+    expiryAlertedAt: timestamp("expiry_alerted_at"),           // when the near-expiry notification went out
+    createdBy: integer("created_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+    uniqueIndex("product_batches_product_batch_number_idx").on(table.productId, table.batchNumber)
+]);
+
+// Units are in stock, with a customer, or gone: returned to the supplier, their purchase
+// cancelled or taken back without restocking
+export const SERIAL_STATUSES = ["in_stock", "sold", "removed"] as const;
+export type SerialStatus = typeof SERIAL_STATUSES[number];
+
+// A unit of a serial-tracked product by its serial or IMEI number, unique within the company.
+// Its history is in product_serial_events.
+export const productSerials = pgTable("product_serials", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    companyId: uuid("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+    productId: uuid("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+    serialNumber: varchar("serial_number", { length: 64 }).notNull(),
+    status: varchar("status", { length: 16 }).$type<SerialStatus>().notNull().default("in_stock"),
+    purchaseBillId: uuid("purchase_bill_id").references(() => bills.id),   // the purchase it last came in on
+    saleBillId: uuid("sale_bill_id").references(() => bills.id),           // the sale it left on, while sold
+    warrantyEndsAt: timestamp("warranty_ends_at"),
+    createdBy: integer("created_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+    uniqueIndex("product_serials_company_serial_number_idx").on(table.companyId, table.serialNumber)
+]);
+
+export const SERIAL_EVENT_TYPES = ["opening", "purchase", "sale", "return", "cancellation"] as const;
+export type SerialEventType = typeof SERIAL_EVENT_TYPES[number];
+
+// What happened to a serial and on which document. A sale stays open until the unit comes back
+// through a return or the bill's cancellation; a serial can have only one open sale.
+export const productSerialEvents = pgTable("product_serial_events", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    companyId: uuid("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+    serialId: uuid("serial_id").notNull().references(() => productSerials.id, { onDelete: "cascade" }),
+    type: varchar("type", { length: 16 }).$type<SerialEventType>().notNull(),
+    date: timestamp("date").notNull(),
+    billId: uuid("bill_id").references(() => bills.id),
+    creditNoteId: uuid("credit_note_id").references(() => creditNotes.id),
+    warrantyEndsAt: timestamp("warranty_ends_at"),          // on sales of products with a warranty
+    reversedAt: timestamp("reversed_at"),                   // when a sale's unit came back
+    createdBy: integer("created_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+    uniqueIndex("product_serial_events_open_sale_idx").on(table.serialId).where(sql`${table.type} = 'sale' AND ${table.reversedAt} IS NULL`)
+]);
+
+// Stock held for a draft bill or a sales order; counts against available stock without changing products.stock
+export const stockReservations = pgTable("stock_reservations", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    companyId: uuid("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+    productId: uuid("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+    quantity: integer("quantity").notNull(),
+    sourceType: StockReservationSourceEnum("source_type").notNull(),
+    billId: uuid("bill_id").references(() => bills.id, { onDelete: "cascade" }), // set for bill reservations
+    reference: varchar("reference", { length: 64 }), // sales order number for sales order reservations
+    expiresAt: timestamp("expires_at"), // no longer counted after this time
+    createdBy: integer("created_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Documents that move stock
+export const INVENTORY_SOURCE_TYPES = ["bill", "credit_note", "delivery_challan", "stock_transfer", "product", "reconciliation"] as const;
+export type InventorySourceType = typeof INVENTORY_SOURCE_TYPES[number];
+
+// Stock ledger: one row per movement of a product, positive into stock and negative out of it.
+// products.stock is the running total and changes in the same statement as the ledger.
+export const inventoryTransactions = pgTable("inventory_transactions", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    companyId: uuid("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+    productId: uuid("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+    warehouseId: uuid("warehouse_id").references(() => warehouses.id),  // NULL while the company has no warehouses
+    batchId: uuid("batch_id").references(() => productBatches.id),      // NULL for stock not tracked by batch
+    type: InventoryTransactionTypeEnum("type").notNull(),
+    quantity: integer("quantity").notNull(),
+    unitCost: numeric("unit_cost"),
+    sourceType: varchar("source_type", { length: 32 }).$type<InventorySourceType>().notNull(),
+    sourceId: uuid("source_id"),                              // bill, credit note or challan; NULL for manual entries
+    reference: varchar("reference", { length: 64 }),          // document number
+    reason: text("reason"),
+    createdBy: integer("created_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
 });
 
 // Offline sync table
@@ -271,6 +476,36 @@ export const billTemplates = pgTable("bill_templates", {
     updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Document numbering series per company and voucher type.
+// prefix/suffix may contain {FY}, replaced with the financial year (e.g. 24-25).
+export const numberSeries = pgTable("number_series", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    companyId: uuid("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+    voucherType: VoucherTypeEnum("voucher_type").notNull(),
+    prefix: varchar("prefix", { length: 32 }).notNull().default("INV/{FY}/"),
+    suffix: varchar("suffix", { length: 32 }).notNull().default(""),
+    padding: integer("padding").notNull().default(4),
+    startNumber: integer("start_number").notNull().default(1),
+    resetYearly: boolean("reset_yearly").notNull().default(true), // reset at the start of each financial year (April)
+    createdBy: integer("created_by").references(() => users.id),
+    updatedBy: integer("updated_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+    uniqueIndex("number_series_company_voucher_idx").on(table.companyId, table.voucherType)
+]);
+
+// Last allocated number of a series within a financial year ('ALL' when the series never resets)
+export const numberSeriesCounters = pgTable("number_series_counters", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    seriesId: uuid("series_id").notNull().references(() => numberSeries.id, { onDelete: "cascade" }),
+    financialYear: varchar("financial_year", { length: 8 }).notNull(),
+    lastNumber: integer("last_number").notNull().default(0),
+    updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+    uniqueIndex("number_series_counters_series_year_idx").on(table.seriesId, table.financialYear)
+]);
+
 // Customers table with relation to company and user
 export const customers = pgTable("customers", {
     id: uuid("id").primaryKey().defaultRandom(),
@@ -296,9 +531,186 @@ export const customers = pgTable("customers", {
     updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Line item stored in bills.items and estimates.items
+export interface BillItem {
+    name: string;
+    description?: string;
+    quantity: number;
+    rate: number;
+    unit?: string;
+    discount?: number;      // line discount, applied before tax
+    discountType?: 'percentage' | 'amount';
+    taxRate: number;
+    taxAmount: number;      // GST on the taxable amount
+    cessRate?: number;
+    cessAmount?: number;
+    cgst?: number;
+    sgst?: number;
+    igst?: number;
+    billDiscount?: number;  // share of the bill-level discount, also applied before tax
+    amount: number;         // taxable value: quantity x rate less line and bill discounts
+    hsnCode?: string;
+    total: number;          // amount + taxAmount + cessAmount
+    productId?: string;
+    challanId?: string;     // delivery challan the goods left with; stock moved with the challan, not the bill
+    challanLine?: number;   // index of the line in the challan's items
+    batchId?: string;       // batch the goods leave from on a sale or arrive in on a purchase
+    batchNumber?: string;
+    expiryDate?: string;    // ISO date of the batch's expiry, printed on the invoice
+    mrp?: number;           // batch-wise MRP
+    serialNumbers?: string[];   // one per unit of serial-tracked products
+}
+
+// Taxable bill-level charge such as freight, packing or insurance
+export interface BillCharge {
+    name: string;
+    hsnCode?: string;       // SAC of the service, e.g. 9965 for freight
+    amount: number;         // taxable value
+    taxRate: number;
+    taxAmount: number;
+    cgst?: number;
+    sgst?: number;
+    igst?: number;
+    total: number;          // amount + taxAmount
+}
+
+// Quotations/estimates; an accepted estimate can be converted into a draft bill (bills.estimateId)
+export const estimates = pgTable("estimates", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    estimateNumber: varchar("estimate_number").notNull(),
+    customerId: uuid("customer_id").notNull().references(() => customers.id, { onDelete: "cascade", onUpdate: "cascade" }),
+    customerName: varchar("customer_name").notNull(),
+    customerGstin: varchar("customer_gstin", { length: 20 }),
+    customerAddress: text("customer_address"),
+    customerPhone: varchar("customer_phone", { length: 32 }),
+    customerEmail: varchar("customer_email", { length: 128 }),
+    amount: numeric("amount").notNull(),
+    taxAmount: numeric("tax_amount").default("0"),
+    totalAmount: numeric("total_amount").notNull(),
+    date: timestamp("date").notNull(),
+    validUntil: timestamp("valid_until").notNull(),
+    cgst: numeric("cgst").default("0"),
+    sgst: numeric("sgst").default("0"),
+    igst: numeric("igst").default("0"),
+    cess: numeric("cess").default("0"),
+    roundOff: numeric("round_off").default("0"),
+    roundOffManual: boolean("round_off_manual").notNull().default(false), // roundOff was set by hand instead of to the nearest rupee
+    placeOfSupply: varchar("place_of_supply", { length: 2 }), // state code
+    items: jsonb("items").$type<BillItem[]>().notNull(),
+    charges: jsonb("charges").$type<BillCharge[]>().notNull().default([]),
+    status: varchar("status", { length: 16 }).notNull().default("draft"), // 'draft', 'sent', 'accepted', 'rejected', 'converted'
+    statusReason: text("status_reason"),
+    respondedAt: timestamp("responded_at"),
+    notes: text("notes"),
+    terms: text("terms"),
+    companyId: uuid("company_id").notNull().references(() => companies.id, { onDelete: "cascade", onUpdate: "cascade" }),
+    discount: numeric("discount").default("0"),
+    discountType: varchar("discount_type", { length: 16 }).default("amount"),
+    createdBy: integer("created_by").references(() => users.id), // FK to users
+    updatedBy: integer("updated_by").references(() => users.id), // FK to users
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+    uniqueIndex("estimates_company_estimate_number_idx").on(table.companyId, table.estimateNumber)
+]);
+
+// Goods sent on a delivery challan; value is for the transport documents, no GST is charged
+export interface ChallanItem {
+    name: string;
+    description?: string;
+    quantity: number;
+    unit?: string;
+    rate: number;
+    taxRate: number;        // carried to the invoice
+    cessRate?: number;
+    amount: number;         // quantity x rate
+    hsnCode?: string;
+    productId?: string;
+    batchId?: string;       // batch the goods leave from, carried to the invoice
+    batchNumber?: string;
+    expiryDate?: string;
+    mrp?: number;
+}
+
+// Delivery challan lifecycle: issuing moves the stock out; partially_invoiced and invoiced
+// are derived from the bills raised against its lines, cancelled is terminal
+export const CHALLAN_STATUSES = ["draft", "issued", "partially_invoiced", "invoiced", "cancelled"] as const;
+export type ChallanStatus = typeof CHALLAN_STATUSES[number];
+
+export const deliveryChallans = pgTable("delivery_challans", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    challanNumber: varchar("challan_number").notNull(),
+    companyId: uuid("company_id").notNull().references(() => companies.id, { onDelete: "cascade", onUpdate: "cascade" }),
+    customerId: uuid("customer_id").notNull().references(() => customers.id, { onDelete: "cascade", onUpdate: "cascade" }),
+    customerName: varchar("customer_name").notNull(),
+    customerGstin: varchar("customer_gstin", { length: 20 }),
+    customerAddress: text("customer_address"), // delivery address
+    date: timestamp("date").notNull(),
+    reason: ChallanReasonEnum("reason").notNull(),
+    items: jsonb("items").$type<ChallanItem[]>().notNull(),
+    totalValue: numeric("total_value").notNull(),
+    placeOfSupply: varchar("place_of_supply", { length: 2 }), // state code
+    transporterName: varchar("transporter_name", { length: 128 }),
+    transporterId: varchar("transporter_id", { length: 15 }), // GSTIN or TRANSIN of the transporter
+    transportMode: varchar("transport_mode", { length: 8 }), // 'road', 'rail', 'air', 'ship'
+    vehicleNumber: varchar("vehicle_number", { length: 16 }),
+    transportDocNumber: varchar("transport_doc_number", { length: 32 }), // LR, RR or airway bill number
+    transportDocDate: timestamp("transport_doc_date"),
+    status: varchar("status", { length: 20 }).notNull().default("draft").$type<ChallanStatus>(),
+    notes: text("notes"),
+    issuedAt: timestamp("issued_at"), // stock was moved out
+    cancelledAt: timestamp("cancelled_at"),
+    cancelledBy: integer("cancelled_by").references(() => users.id),
+    statusReason: text("status_reason"), // required when cancelling
+    createdBy: integer("created_by").references(() => users.id), // FK to users
+    updatedBy: integer("updated_by").references(() => users.id), // FK to users
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+    uniqueIndex("delivery_challans_company_challan_number_idx").on(table.companyId, table.challanNumber)
+]);
+
+export interface StockTransferItem {
+    productId: string;
+    name: string;
+    quantity: number;
+}
+
+export const STOCK_TRANSFER_STATUSES = ["completed", "cancelled"] as const;
+export type StockTransferStatus = typeof STOCK_TRANSFER_STATUSES[number];
+
+// Goods moved between two of a company's warehouses. The stock moves when the transfer is
+// created; cancelling moves it back.
+export const stockTransfers = pgTable("stock_transfers", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    transferNumber: varchar("transfer_number").notNull(),
+    companyId: uuid("company_id").notNull().references(() => companies.id, { onDelete: "cascade", onUpdate: "cascade" }),
+    fromWarehouseId: uuid("from_warehouse_id").notNull().references(() => warehouses.id),
+    toWarehouseId: uuid("to_warehouse_id").notNull().references(() => warehouses.id),
+    date: timestamp("date").notNull(),
+    items: jsonb("items").$type<StockTransferItem[]>().notNull(),
+    status: varchar("status", { length: 16 }).$type<StockTransferStatus>().notNull().default("completed"),
+    notes: text("notes"),
+    cancelledAt: timestamp("cancelled_at"),
+    cancelledBy: integer("cancelled_by").references(() => users.id),
+    statusReason: text("status_reason"), // required when cancelling
+    createdBy: integer("created_by").references(() => users.id),
+    updatedBy: integer("updated_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+    uniqueIndex("stock_transfers_company_transfer_number_idx").on(table.companyId, table.transferNumber)
+]);
+
+// Bill lifecycle; allowed transitions live in billLifecycleService. partially_paid and paid
+// are derived from recorded payments, cancelled and void are terminal.
+export const BILL_STATUSES = ["draft", "finalized", "sent", "partially_paid", "paid", "overdue", "cancelled", "void"] as const;
+export type BillStatus = typeof BILL_STATUSES[number];
+
 export const bills = pgTable("bills", {
     id: uuid("id").primaryKey().defaultRandom(),
     billNumber: varchar("bill_number").notNull(),
+    type: SalesTypeEnum("type").notNull().default("sale"), // purchase bills record supplier invoices; the customer is the supplier
     customerId: uuid("customer_id").notNull().references(() => customers.id, { onDelete: "cascade", onUpdate: "cascade" }),
     customerName: varchar("customer_name").notNull(),
     customerGstin: varchar("customer_gstin", { length: 20 }),
@@ -310,24 +722,151 @@ export const bills = pgTable("bills", {
     totalAmount: numeric("total_amount").notNull(),
     date: timestamp("date").notNull(),
     dueDate: timestamp("due_date").notNull(),
-    items: jsonb("items").notNull(),
-    status: varchar("status", { length: 16 }).notNull().default("draft"),
-    paymentStatus: varchar("payment_status", { length: 16 }).notNull().default("pending"),
+    items: jsonb("items").$type<BillItem[]>().notNull(),
+    charges: jsonb("charges").$type<BillCharge[]>().notNull().default([]),
+    status: varchar("status", { length: 16 }).notNull().default("draft").$type<BillStatus>(),
+    paymentStatus: varchar("payment_status", { length: 16 }).notNull().default("pending"), // 'pending', 'partial', 'paid'
     paymentMethod: varchar("payment_method", { length: 32 }),
+    amountPaid: numeric("amount_paid").notNull().default("0"),
+    balanceDue: numeric("balance_due").notNull().default("0"),
     notes: text("notes"),
     terms: text("terms"),
     companyId: uuid("company_id").notNull().references(() => companies.id, { onDelete: "cascade", onUpdate: "cascade" }),
     cgst: numeric("cgst").default("0"),
     sgst: numeric("sgst").default("0"),
     igst: numeric("igst").default("0"),
+    cess: numeric("cess").default("0"),
+    roundOff: numeric("round_off").default("0"),
+    roundOffManual: boolean("round_off_manual").notNull().default(false), // roundOff was set by hand instead of to the nearest rupee
+    placeOfSupply: varchar("place_of_supply", { length: 2 }), // state code; 96 (other countries) on exports
+    discount: numeric("discount").default("0"), // bill-level discount, apportioned across the lines before tax
+    // Amounts above are in the bill's currency; the base_ columns hold their INR value at the bill's exchange rate
+    currency: varchar("currency", { length: 3 }).notNull().default("INR"),
+    exchangeRate: numeric("exchange_rate").notNull().default("1"), // INR per unit of currency, fixed when the bill is issued
+    baseTotalAmount: numeric("base_total_amount").generatedAlwaysAs(sql`ROUND(total_amount * exchange_rate, 2)`),
+    baseAmountPaid: numeric("base_amount_paid").generatedAlwaysAs(sql`ROUND(amount_paid * exchange_rate, 2)`),
+    baseBalanceDue: numeric("base_balance_due").generatedAlwaysAs(sql`ROUND(balance_due * exchange_rate, 2)`),
+    exportType: ExportTypeEnum("export_type"), // set on export invoices
+    portCode: varchar("port_code", { length: 6 }), // Indian port of shipment
+    shippingBillNumber: varchar("shipping_bill_number", { length: 20 }),
+    shippingBillDate: timestamp("shipping_bill_date"),
+    discountType: varchar("discount_type", { length: 16 }).default("amount"),
+    estimateId: uuid("estimate_id").references(() => estimates.id), // estimate this bill was converted from
+    warehouseId: uuid("warehouse_id").references(() => warehouses.id), // stock leaves it on a sale and arrives in it on a purchase; NULL for the default
+    finalizedAt: timestamp("finalized_at"), // left draft; items are locked and stock was moved (out for sales, in for purchases)
+    sentAt: timestamp("sent_at"),
+    cancelledAt: timestamp("cancelled_at"),
+    cancelledBy: integer("cancelled_by").references(() => users.id),
+    statusReason: text("status_reason"), // required when cancelling or voiding
+    createdBy: integer("created_by").references(() => users.id), // FK to users
+    updatedBy: integer("updated_by").references(() => users.id), // FK to users
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+    uniqueIndex("bills_company_bill_number_idx").on(table.companyId, table.billNumber),
+    uniqueIndex("bills_estimate_id_idx").on(table.estimateId) // an estimate converts into at most one bill
+]);
+
+// Recurring invoice profile; the scheduler generates a bill for every occurrence up to endDate
+export const recurringProfiles = pgTable("recurring_profiles", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    companyId: uuid("company_id").notNull().references(() => companies.id, { onDelete: "cascade", onUpdate: "cascade" }),
+    customerId: uuid("customer_id").notNull().references(() => customers.id, { onDelete: "cascade", onUpdate: "cascade" }),
+    name: varchar("name", { length: 128 }).notNull(),
+    frequency: RecurringFrequencyEnum("frequency").notNull(),
+    startDate: timestamp("start_date").notNull(),
+    endDate: timestamp("end_date"),
+    dayOfMonth: integer("day_of_month"), // 1-31, clamped to the last day of shorter months; ignored for weekly
+    nextRunDate: timestamp("next_run_date").notNull(),
+    items: jsonb("items").$type<BillItem[]>().notNull(),
+    charges: jsonb("charges").$type<BillCharge[]>().notNull().default([]),
+    notes: text("notes"),
+    terms: text("terms"),
     discount: numeric("discount").default("0"),
     discountType: varchar("discount_type", { length: 16 }).default("amount"),
+    paymentTermsDays: integer("payment_terms_days"), // falls back to the customer's payment terms
+    autoSend: boolean("auto_send").notNull().default(false),
+    isActive: boolean("is_active").notNull().default(true),
+    lastRunAt: timestamp("last_run_at"),
     createdBy: integer("created_by").references(() => users.id), // FK to users
     updatedBy: integer("updated_by").references(() => users.id), // FK to users
     createdAt: timestamp("created_at").defaultNow(),
     updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// One row per generation attempt; a period has at most one successful run
+export const recurringRuns = pgTable("recurring_runs", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    profileId: uuid("profile_id").notNull().references(() => recurringProfiles.id, { onDelete: "cascade" }),
+    period: varchar("period", { length: 10 }).notNull(), // occurrence date, YYYY-MM-DD
+    status: varchar("status", { length: 16 }).notNull(), // 'success', 'failed'
+    billId: uuid("bill_id").references(() => bills.id, { onDelete: "set null" }),
+    error: text("error"),           // of the latest attempt
+    attempts: integer("attempts").notNull().default(1),    // a failed period is retried every tick and keeps one row
+    runAt: timestamp("run_at").defaultNow(),
+}, (table) => [
+    uniqueIndex("recurring_runs_profile_period_idx").on(table.profileId, table.period).where(sql`${table.status} = 'success'`),
+    uniqueIndex("recurring_runs_profile_failed_period_idx").on(table.profileId, table.period).where(sql`${table.status} = 'failed'`)
+]);
+
+// One row per attempt to deliver a bill to the customer; resends point at the attempt they repeat
+export const billDeliveries = pgTable("bill_deliveries", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    billId: uuid("bill_id").notNull().references(() => bills.id, { onDelete: "cascade" }),
+    companyId: uuid("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+    channel: DeliveryChannelEnum("channel").notNull(),
+    recipient: varchar("recipient", { length: 128 }).notNull(),
+    subject: varchar("subject", { length: 255 }),
+    message: text("message").notNull(), // rendered template
+    pdfUrl: text("pdf_url"),
+    transport: varchar("transport", { length: 16 }).notNull(), // 'smtp', 'twilio', 'file', 'console'
+    status: varchar("status", { length: 16 }).notNull(), // 'sent', 'failed'
+    providerMessageId: varchar("provider_message_id", { length: 255 }),
+    error: text("error"),
+    resendOf: uuid("resend_of"),
+    sentBy: integer("sent_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Public, expiring link to a read-only view of a bill; the URL token is signed (see utils/shareToken)
+export const billShareLinks = pgTable("bill_share_links", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    billId: uuid("bill_id").notNull().references(() => bills.id, { onDelete: "cascade" }),
+    companyId: uuid("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+    expiresAt: timestamp("expires_at").notNull(),
+    paymentInstructions: text("payment_instructions"), // shown on the public page when set
+    viewCount: integer("view_count").notNull().default(0),
+    downloadCount: integer("download_count").notNull().default(0),
+    firstViewedAt: timestamp("first_viewed_at"),
+    lastViewedAt: timestamp("last_viewed_at"),
+    revokedAt: timestamp("revoked_at"),
+    revokedBy: integer("revoked_by").references(() => users.id),
+    createdBy: integer("created_by").references(() => users.id), // FK to users
+    createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Every open or PDF download of a share link
+export const billShareViews = pgTable("bill_share_views", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    linkId: uuid("link_id").notNull().references(() => billShareLinks.id, { onDelete: "cascade" }),
+    kind: varchar("kind", { length: 16 }).notNull(), // 'view', 'download'
+    ipAddress: varchar("ip_address", { length: 64 }),
+    userAgent: text("user_agent"),
+    viewedAt: timestamp("viewed_at").defaultNow(),
+});
+
+// Dunning reminders already sent; a bill gets each step of its company's schedule at most once
+export const billReminders = pgTable("bill_reminders", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    billId: uuid("bill_id").notNull().references(() => bills.id, { onDelete: "cascade" }),
+    companyId: uuid("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+    offsetDays: integer("offset_days").notNull(), // schedule step, days relative to the due date
+    dueDate: timestamp("due_date").notNull(), // due date the reminder was computed from; a new one restarts the schedule
+    sentAt: timestamp("sent_at").defaultNow(),
+}, (table) => [
+    uniqueIndex("bill_reminders_bill_due_offset_idx").on(table.billId, table.dueDate, table.offsetDays)
+]);
+
 export const payments = pgTable("payments", {
     id: uuid("id").primaryKey().defaultRandom(),
     billId: uuid("bill_id").notNull().references(() => bills.id),
@@ -346,6 +885,40 @@ export const payments = pgTable("payments", {
     updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Line item stored in creditNotes.items; lineIndex points at the returned line of the original bill
+export interface CreditNoteItem extends BillItem {
+    lineIndex?: number;
+}
+
+// Credit and debit notes issued against an original bill
+export const creditNotes = pgTable("credit_notes", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    noteNumber: varchar("note_number").notNull(),
+    noteType: NoteTypeEnum("note_type").notNull(),
+    billId: uuid("bill_id").notNull().references(() => bills.id),
+    customerId: uuid("customer_id").notNull().references(() => customers.id, { onDelete: "cascade", onUpdate: "cascade" }),
+    companyId: uuid("company_id").notNull().references(() => companies.id, { onDelete: "cascade", onUpdate: "cascade" }),
+    date: timestamp("date").notNull(),
+    reason: varchar("reason", { length: 255 }).notNull(),
+    items: jsonb("items").$type<CreditNoteItem[]>().notNull(),
+    amount: numeric("amount").notNull(),
+    taxAmount: numeric("tax_amount").notNull().default("0"),
+    totalAmount: numeric("total_amount").notNull(),
+    cgst: numeric("cgst").default("0"),
+    sgst: numeric("sgst").default("0"),
+    igst: numeric("igst").default("0"),
+    cess: numeric("cess").default("0"),
+    restocked: boolean("restocked").notNull().default(false),
+    status: varchar("status", { length: 16 }).notNull().default("issued"),
+    notes: text("notes"),
+    createdBy: integer("created_by").references(() => users.id), // FK to users
+    updatedBy: integer("updated_by").references(() => users.id), // FK to users
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+    uniqueIndex("credit_notes_company_note_number_idx").on(table.companyId, table.noteNumber)
+]);
+
 export const accounts = pgTable("accounts", {
     id: uuid("id").primaryKey().defaultRandom(),
     companyId: uuid("company_id").notNull().references(() => companies.id, { onDelete: "cascade", onUpdate: "cascade" }),
@@ -365,6 +938,8 @@ export const gstTransactions = pgTable('gst_transactions', {
     id: uuid('id').primaryKey().defaultRandom(),
     companyId: uuid('company_id').notNull().references(() => companies.id),
     billId: uuid('bill_id').references(() => bills.id),
+    creditNoteId: uuid('credit_note_id').references(() => creditNotes.id),
+    documentType: varchar('document_type', { length: 16 }).notNull().default('invoice'), // 'invoice', 'credit_note', 'debit_note'
     type:SalesTypeEnum('type').notNull(),
     date: timestamp('date').notNull(),
     partyName: varchar('party_name', { length: 128 }),
@@ -374,13 +949,17 @@ export const gstTransactions = pgTable('gst_transactions', {
     cgst: numeric('cgst').default('0'),
     sgst: numeric('sgst').default('0'),
     igst: numeric('igst').default('0'),
+    cess: numeric('cess').default('0'),
     total: numeric('total').notNull(),
     items: jsonb('items'),
     placeOfSupply: varchar('place_of_supply', { length: 64 }),
     reverseCharge: boolean('reverse_charge').default(false),
     createdAt: timestamp('created_at').defaultNow(),
     updatedAt: timestamp('updated_at').defaultNow(),
-});
+}, (table) => [
+    // A bill has one invoice entry, posted when it is finalized (gstPostingService)
+    uniqueIndex('gst_transactions_bill_invoice_idx').on(table.billId).where(sql`${table.documentType} = 'invoice'`)
+]);
 
 export const aiInsights = pgTable('ai_insights', {
     id: uuid('id').primaryKey().defaultRandom(),
@@ -391,6 +970,57 @@ export const aiInsights = pgTable('ai_insights', {
     updatedAt: timestamp('updated_at').defaultNow(),
 });
 
+// Filters of a bulk bill export, as accepted by GET /api/bills
+export interface BillExportFilters {
+    companyId: string;
+    type?: SalesType;
+    status?: BillStatus;
+    customerId?: string;
+    startDate?: string;
+    endDate?: string;
+    search?: string;
+}
+
+// queued -> running -> completed or failed; running exports report processedBills of totalBills
+export const BILL_EXPORT_STATUSES = ["queued", "running", "completed", "failed"] as const;
+export type BillExportStatus = typeof BILL_EXPORT_STATUSES[number];
+
+// Background job packaging the PDFs of matching bills into a ZIP with an index CSV
+export const billExports = pgTable("bill_exports", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    companyId: uuid("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+    userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    filters: jsonb("filters").$type<BillExportFilters>().notNull(),
+    status: varchar("status", { length: 16 }).notNull().default("queued").$type<BillExportStatus>(),
+    totalBills: integer("total_bills").notNull().default(0),
+    processedBills: integer("processed_bills").notNull().default(0),
+    fileName: varchar("file_name", { length: 255 }), // download name of the ZIP
+    filePath: text("file_path"),
+    fileSize: integer("file_size"),
+    error: text("error"),
+    startedAt: timestamp("started_at"),
+    completedAt: timestamp("completed_at"),
+    expiresAt: timestamp("expires_at").notNull(), // the ZIP is deleted after this time
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(), // also the heartbeat of a running export
+});
+
+// Responses to create requests sent with an Idempotency-Key header, replayed on retries
+export const idempotencyKeys = pgTable("idempotency_keys", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    key: varchar("key", { length: 255 }).notNull(),
+    method: varchar("method", { length: 8 }).notNull(),
+    path: varchar("path", { length: 255 }).notNull(),
+    fingerprint: varchar("fingerprint", { length: 64 }).notNull(), // sha256 of method, path and body
+    statusCode: integer("status_code"), // null while the first request is in flight
+    responseBody: text("response_body"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    expiresAt: timestamp("expires_at").notNull(),
+}, (table) => [
+    uniqueIndex("idempotency_keys_user_key_idx").on(table.userId, table.key)
+]);
+
 // Zod schemas for all tables
 export const insertUserSchema = createInsertSchema(users);
 export const selectUserSchema = createSelectSchema(users);
@@ -440,6 +1070,57 @@ export const selectLedgerAccountSchema = createSelectSchema(ledgerAccounts);
 export const insertBillTemplateSchema = createInsertSchema(billTemplates);
 export const selectBillTemplateSchema = createSelectSchema(billTemplates);
 
+export const insertNumberSeriesSchema = createInsertSchema(numberSeries);
+export const selectNumberSeriesSchema = createSelectSchema(numberSeries);
+
+export const insertDeliveryChallanSchema = createInsertSchema(deliveryChallans);
+export const selectDeliveryChallanSchema = createSelectSchema(deliveryChallans);
+
+export const insertEstimateSchema = createInsertSchema(estimates);
+export const selectEstimateSchema = createSelectSchema(estimates);
+
+export const insertRecurringProfileSchema = createInsertSchema(recurringProfiles);
+export const selectRecurringProfileSchema = createSelectSchema(recurringProfiles);
+
+export const insertCreditNoteSchema = createInsertSchema(creditNotes);
+export const selectCreditNoteSchema = createSelectSchema(creditNotes);
+
+export const insertBillDeliverySchema = createInsertSchema(billDeliveries);
+export const selectBillDeliverySchema = createSelectSchema(billDeliveries);
+
+export const insertBillShareLinkSchema = createInsertSchema(billShareLinks);
+export const selectBillShareLinkSchema = createSelectSchema(billShareLinks);
+
+export const insertStockReservationSchema = createInsertSchema(stockReservations);
+export const selectStockReservationSchema = createSelectSchema(stockReservations);
+
+export const insertBillExportSchema = createInsertSchema(billExports);
+export const selectBillExportSchema = createSelectSchema(billExports);
+
+export const insertIdempotencyKeySchema = createInsertSchema(idempotencyKeys);
+export const selectIdempotencyKeySchema = createSelectSchema(idempotencyKeys);
+
+export const insertInventoryTransactionSchema = createInsertSchema(inventoryTransactions);
+export const selectInventoryTransactionSchema = createSelectSchema(inventoryTransactions);
+
+export const insertWarehouseSchema = createInsertSchema(warehouses);
+export const selectWarehouseSchema = createSelectSchema(warehouses);
+
+export const insertWarehouseStockSchema = createInsertSchema(warehouseStock);
+export const selectWarehouseStockSchema = createSelectSchema(warehouseStock);
+
+export const insertProductBatchSchema = createInsertSchema(productBatches);
+export const selectProductBatchSchema = createSelectSchema(productBatches);
+
+export const insertProductSerialSchema = createInsertSchema(productSerials);
+export const selectProductSerialSchema = createSelectSchema(productSerials);
+
+export const insertProductSerialEventSchema = createInsertSchema(productSerialEvents);
+export const selectProductSerialEventSchema = createSelectSchema(productSerialEvents);
+
+export const insertStockTransferSchema = createInsertSchema(stockTransfers);
+export const selectStockTransferSchema = createSelectSchema(stockTransfers);
+
 // Export types for all tables
 export type InsertUsers = typeof users.$inferInsert;
 export type SelectUsers = typeof users.$inferSelect;
@@ -473,6 +1154,48 @@ export type InsertLedgerAccount = typeof ledgerAccounts.$inferInsert;
 export type SelectLedgerAccount = typeof ledgerAccounts.$inferSelect;
 export type InsertBillTemplate = typeof billTemplates.$inferInsert;
 export type SelectBillTemplate = typeof billTemplates.$inferSelect;
+export type InsertNumberSeries = typeof numberSeries.$inferInsert;
+export type SelectNumberSeries = typeof numberSeries.$inferSelect;
+export type InsertNumberSeriesCounter = typeof numberSeriesCounters.$inferInsert;
+export type SelectNumberSeriesCounter = typeof numberSeriesCounters.$inferSelect;
+export type InsertDeliveryChallan = typeof deliveryChallans.$inferInsert;
+export type SelectDeliveryChallan = typeof deliveryChallans.$inferSelect;
+export type InsertEstimate = typeof estimates.$inferInsert;
+export type SelectEstimate = typeof estimates.$inferSelect;
+export type InsertRecurringProfile = typeof recurringProfiles.$inferInsert;
+export type SelectRecurringProfile = typeof recurringProfiles.$inferSelect;
+export type InsertRecurringRun = typeof recurringRuns.$inferInsert;
+export type SelectRecurringRun = typeof recurringRuns.$inferSelect;
+export type InsertCreditNote = typeof creditNotes.$inferInsert;
+export type SelectCreditNote = typeof creditNotes.$inferSelect;
+export type InsertBillDelivery = typeof billDeliveries.$inferInsert;
+export type SelectBillDelivery = typeof billDeliveries.$inferSelect;
+export type InsertBillShareLink = typeof billShareLinks.$inferInsert;
+export type SelectBillShareLink = typeof billShareLinks.$inferSelect;
+export type InsertBillShareView = typeof billShareViews.$inferInsert;
+export type SelectBillShareView = typeof billShareViews.$inferSelect;
+export type InsertBillReminder = typeof billReminders.$inferInsert;
+export type SelectBillReminder = typeof billReminders.$inferSelect;
+export type InsertStockReservation = typeof stockReservations.$inferInsert;
+export type SelectStockReservation = typeof stockReservations.$inferSelect;
+export type InsertBillExport = typeof billExports.$inferInsert;
+export type SelectBillExport = typeof billExports.$inferSelect;
+export type InsertIdempotencyKey = typeof idempotencyKeys.$inferInsert;
+export type SelectIdempotencyKey = typeof idempotencyKeys.$inferSelect;
+export type InsertInventoryTransaction = typeof inventoryTransactions.$inferInsert;
+export type SelectInventoryTransaction = typeof inventoryTransactions.$inferSelect;
+export type InsertWarehouse = typeof warehouses.$inferInsert;
+export type SelectWarehouse = typeof warehouses.$inferSelect;
+export type InsertWarehouseStock = typeof warehouseStock.$inferInsert;
+export type SelectWarehouseStock = typeof warehouseStock.$inferSelect;
+export type InsertProductBatch = typeof productBatches.$inferInsert;
+export type SelectProductBatch = typeof productBatches.$inferSelect;
+export type InsertProductSerial = typeof productSerials.$inferInsert;
+export type SelectProductSerial = typeof productSerials.$inferSelect;
+export type InsertProductSerialEvent = typeof productSerialEvents.$inferInsert;
+export type SelectProductSerialEvent = typeof productSerialEvents.$inferSelect;
+export type InsertStockTransfer = typeof stockTransfers.$inferInsert;
+export type SelectStockTransfer = typeof stockTransfers.$inferSelect;
 
 
 // Convenience types
@@ -518,7 +1241,14 @@ export const companiesRelations = relations(companies, ({ one, many }) => ({
     notifications: many(notifications),
     fileUploads: many(fileUploads),
     ledgerAccounts: many(ledgerAccounts),
-    billTemplates: many(billTemplates)
+    billTemplates: many(billTemplates),
+    numberSeries: many(numberSeries),
+    creditNotes: many(creditNotes),
+    estimates: many(estimates),
+    recurringProfiles: many(recurringProfiles),
+    deliveryChallans: many(deliveryChallans),
+    warehouses: many(warehouses),
+    stockTransfers: many(stockTransfers)
 }));
 
 export const companyMembersRelations = relations(companyMembers, ({ one }) => ({
@@ -536,7 +1266,7 @@ export const companyMembersRelations = relations(companyMembers, ({ one }) => ({
     })
 }));
 
-export const productsRelations = relations(products, ({ one }) => ({
+export const productsRelations = relations(products, ({ one, many }) => ({
     company: one(companies, {
         fields: [products.companyId],
         references: [companies.id]
@@ -548,7 +1278,12 @@ export const productsRelations = relations(products, ({ one }) => ({
     updater: one(users, {
         fields: [products.updatedBy],
         references: [users.id]
-    })
+    }),
+    reservations: many(stockReservations),
+    inventoryTransactions: many(inventoryTransactions),
+    warehouseStock: many(warehouseStock),
+    batches: many(productBatches),
+    serials: many(productSerials)
 }));
 
 export const customersRelations = relations(customers, ({ one, many }) => ({
@@ -588,8 +1323,21 @@ export const billsRelations = relations(bills, ({ one, many }) => ({
         fields: [bills.updatedBy],
         references: [users.id]
     }),
+    estimate: one(estimates, {
+        fields: [bills.estimateId],
+        references: [estimates.id]
+    }),
+    warehouse: one(warehouses, {
+        fields: [bills.warehouseId],
+        references: [warehouses.id]
+    }),
     payments: many(payments),
-    gstTransactions: many(gstTransactions)
+    gstTransactions: many(gstTransactions),
+    creditNotes: many(creditNotes),
+    deliveries: many(billDeliveries),
+    shareLinks: many(billShareLinks),
+    reminders: many(billReminders),
+    stockReservations: many(stockReservations)
 }));
 
 export const paymentsRelations = relations(payments, ({ one }) => ({
@@ -671,3 +1419,277 @@ export const billTemplatesRelations = relations(billTemplates, ({ one }) => ({
     })
 }));
 
+export const numberSeriesRelations = relations(numberSeries, ({ one, many }) => ({
+    company: one(companies, {
+        fields: [numberSeries.companyId],
+        references: [companies.id]
+    }),
+    counters: many(numberSeriesCounters)
+}));
+
+export const numberSeriesCountersRelations = relations(numberSeriesCounters, ({ one }) => ({
+    series: one(numberSeries, {
+        fields: [numberSeriesCounters.seriesId],
+        references: [numberSeries.id]
+    })
+}));
+
+export const creditNotesRelations = relations(creditNotes, ({ one, many }) => ({
+    bill: one(bills, {
+        fields: [creditNotes.billId],
+        references: [bills.id]
+    }),
+    customer: one(customers, {
+        fields: [creditNotes.customerId],
+        references: [customers.id]
+    }),
+    company: one(companies, {
+        fields: [creditNotes.companyId],
+        references: [companies.id]
+    }),
+    creator: one(users, {
+        fields: [creditNotes.createdBy],
+        references: [users.id]
+    }),
+    gstTransactions: many(gstTransactions)
+}));
+
+export const estimatesRelations = relations(estimates, ({ one, many }) => ({
+    customer: one(customers, {
+        fields: [estimates.customerId],
+        references: [customers.id]
+    }),
+    company: one(companies, {
+        fields: [estimates.companyId],
+        references: [companies.id]
+    }),
+    creator: one(users, {
+        fields: [estimates.createdBy],
+        references: [users.id]
+    }),
+    bills: many(bills)
+}));
+
+export const deliveryChallansRelations = relations(deliveryChallans, ({ one }) => ({
+    customer: one(customers, {
+        fields: [deliveryChallans.customerId],
+        references: [customers.id]
+    }),
+    company: one(companies, {
+        fields: [deliveryChallans.companyId],
+        references: [companies.id]
+    }),
+    creator: one(users, {
+        fields: [deliveryChallans.createdBy],
+        references: [users.id]
+    })
+}));
+
+export const recurringProfilesRelations = relations(recurringProfiles, ({ one, many }) => ({
+    company: one(companies, {
+        fields: [recurringProfiles.companyId],
+        references: [companies.id]
+    }),
+    customer: one(customers, {
+        fields: [recurringProfiles.customerId],
+        references: [customers.id]
+    }),
+    creator: one(users, {
+        fields: [recurringProfiles.createdBy],
+        references: [users.id]
+    }),
+    runs: many(recurringRuns)
+}));
+
+export const recurringRunsRelations = relations(recurringRuns, ({ one }) => ({
+    profile: one(recurringProfiles, {
+        fields: [recurringRuns.profileId],
+        references: [recurringProfiles.id]
+    }),
+    bill: one(bills, {
+        fields: [recurringRuns.billId],
+        references: [bills.id]
+    })
+}));
+
+export const billDeliveriesRelations = relations(billDeliveries, ({ one }) => ({
+    bill: one(bills, {
+        fields: [billDeliveries.billId],
+        references: [bills.id]
+    }),
+    company: one(companies, {
+        fields: [billDeliveries.companyId],
+        references: [companies.id]
+    }),
+    sender: one(users, {
+        fields: [billDeliveries.sentBy],
+        references: [users.id]
+    })
+}));
+
+export const billShareLinksRelations = relations(billShareLinks, ({ one, many }) => ({
+    bill: one(bills, {
+        fields: [billShareLinks.billId],
+        references: [bills.id]
+    }),
+    company: one(companies, {
+        fields: [billShareLinks.companyId],
+        references: [companies.id]
+    }),
+    creator: one(users, {
+        fields: [billShareLinks.createdBy],
+        references: [users.id]
+    }),
+    views: many(billShareViews)
+}));
+
+export const billShareViewsRelations = relations(billShareViews, ({ one }) => ({
+    link: one(billShareLinks, {
+        fields: [billShareViews.linkId],
+        references: [billShareLinks.id]
+    })
+}));
+
+export const billRemindersRelations = relations(billReminders, ({ one }) => ({
+    bill: one(bills, {
+        fields: [billReminders.billId],
+        references: [bills.id]
+    }),
+    company: one(companies, {
+        fields: [billReminders.companyId],
+        references: [companies.id]
+    })
+}));
+
+export const stockReservationsRelations = relations(stockReservations, ({ one }) => ({
+    company: one(companies, {
+        fields: [stockReservations.companyId],
+        references: [companies.id]
+    }),
+    product: one(products, {
+        fields: [stockReservations.productId],
+        references: [products.id]
+    }),
+    bill: one(bills, {
+        fields: [stockReservations.billId],
+        references: [bills.id]
+    })
+}));
+
+export const idempotencyKeysRelations = relations(idempotencyKeys, ({ one }) => ({
+    user: one(users, {
+        fields: [idempotencyKeys.userId],
+        references: [users.id]
+    })
+}));
+
+export const billExportsRelations = relations(billExports, ({ one }) => ({
+    company: one(companies, {
+        fields: [billExports.companyId],
+        references: [companies.id]
+    }),
+    user: one(users, {
+        fields: [billExports.userId],
+        references: [users.id]
+    })
+}));
+
+export const inventoryTransactionsRelations = relations(inventoryTransactions, ({ one }) => ({
+    company: one(companies, {
+        fields: [inventoryTransactions.companyId],
+        references: [companies.id]
+    }),
+    product: one(products, {
+        fields: [inventoryTransactions.productId],
+        references: [products.id]
+    }),
+    warehouse: one(warehouses, {
+        fields: [inventoryTransactions.warehouseId],
+        references: [warehouses.id]
+    }),
+    batch: one(productBatches, {
+        fields: [inventoryTransactions.batchId],
+        references: [productBatches.id]
+    }),
+    creator: one(users, {
+        fields: [inventoryTransactions.createdBy],
+        references: [users.id]
+    })
+}));
+
+export const warehousesRelations = relations(warehouses, ({ one, many }) => ({
+    company: one(companies, {
+        fields: [warehouses.companyId],
+        references: [companies.id]
+    }),
+    stock: many(warehouseStock)
+}));
+
+export const warehouseStockRelations = relations(warehouseStock, ({ one }) => ({
+    warehouse: one(warehouses, {
+        fields: [warehouseStock.warehouseId],
+        references: [warehouses.id]
+    }),
+    product: one(products, {
+        fields: [warehouseStock.productId],
+        references: [products.id]
+    })
+}));
+
+export const stockTransfersRelations = relations(stockTransfers, ({ one }) => ({
+    company: one(companies, {
+        fields: [stockTransfers.companyId],
+        references: [companies.id]
+    }),
+    fromWarehouse: one(warehouses, {
+        fields: [stockTransfers.fromWarehouseId],
+        references: [warehouses.id]
+    }),
+    toWarehouse: one(warehouses, {
+        fields: [stockTransfers.toWarehouseId],
+        references: [warehouses.id]
+    }),
+    creator: one(users, {
+        fields: [stockTransfers.createdBy],
+        references: [users.id]
+    })
+}));
+
+export const productBatchesRelations = relations(productBatches, ({ one, many }) => ({
+    company: one(companies, {
+        fields: [productBatches.companyId],
+        references: [companies.id]
+    }),
+    product: one(products, {
+        fields: [productBatches.productId],
+        references: [products.id]
+    }),
+    inventoryTransactions: many(inventoryTransactions)
+}));
+
+export const productSerialsRelations = relations(productSerials, ({ one, many }) => ({
+    company: one(companies, {
+        fields: [productSerials.companyId],
+        references: [companies.id]
+    }),
+    product: one(products, {
+        fields: [productSerials.productId],
+        references: [products.id]
+    }),
+    events: many(productSerialEvents)
+}));
+
+export const productSerialEventsRelations = relations(productSerialEvents, ({ one }) => ({
+    serial: one(productSerials, {
+        fields: [productSerialEvents.serialId],
+        references: [productSerials.id]
+    }),
+    bill: one(bills, {
+        fields: [productSerialEvents.billId],
+        references: [bills.id]
+    }),
+    creditNote: one(creditNotes, {
+        fields: [productSerialEvents.creditNoteId],
+        references: [creditNotes.id]
+    })
+}));
\ No newline at end of file
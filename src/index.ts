@@ -17,9 +17,26 @@ import uploadsRoutes from "./routes/uploads";
 import syncRoutes from "./routes/sync";
 import aiRoutes from "./routes/ai";
 import notificationsRoutes from "./routes/notifications";
+import creditNotesRoutes from "./routes/creditNotes";
+import estimatesRoutes from "./routes/estimates";
+import recurringInvoicesRoutes from "./routes/recurringInvoices";
+import publicRoutes from "./routes/public";
+import stockRoutes from "./routes/stock";
+import deliveryChallansRoutes from "./routes/deliveryChallans";
+import warehousesRoutes from "./routes/warehouses";
+import stockTransfersRoutes from "./routes/stockTransfers";
+import { scheduler } from "./utils/scheduler";
+import { recurringInvoiceService } from "./services/recurringInvoiceService";
+import { billLifecycleService } from "./services/billLifecycleService";
+import { dunningService } from "./services/dunningService";
+import { idempotencyService } from "./services/idempotencyService";
+import { billExportService } from "./services/billExportService";
+import { inventoryService } from "./services/inventoryService";
+import { batchService } from "./services/batchService";
 import fastifyCors from "@fastify/cors";
 import dotenv from "dotenv";
 import roleGuard from "./plugins/roleGuard";
+import idempotencyPlugin from "./plugins/idempotency";
 import path from "path";
 dotenv.config();
 const fastify = Fastify({ logger: true });
@@ -33,6 +50,7 @@ fastify.register(fastifyStatic, {
 });
 fastify.register(authPlugin);
 fastify.register(roleGuard);
+fastify.register(idempotencyPlugin);
 fastify.register(authRoutes, { prefix: "/api/auth" });
 fastify.register(userRoutes, { prefix: "/api/user" });
 fastify.register(companyRoutes, { prefix: "/api/company" });
@@ -46,6 +64,14 @@ fastify.register(uploadsRoutes, { prefix: "/api/uploads" });
 fastify.register(syncRoutes, { prefix: "/api/sync" });
 fastify.register(aiRoutes, { prefix: "/api/ai" });
 fastify.register(notificationsRoutes, { prefix: "/api/notifications" });
+fastify.register(creditNotesRoutes, { prefix: "/api/credit-notes" });
+fastify.register(estimatesRoutes, { prefix: "/api/estimates" });
+fastify.register(recurringInvoicesRoutes, { prefix: "/api/recurring-invoices" });
+fastify.register(publicRoutes, { prefix: "/api/public" });
+fastify.register(stockRoutes, { prefix: "/api/stock" });
+fastify.register(deliveryChallansRoutes, { prefix: "/api/delivery-challans" });
+fastify.register(warehousesRoutes, { prefix: "/api/warehouses" });
+fastify.register(stockTransfersRoutes, { prefix: "/api/stock-transfers" });
 fastify.register(defaultRoute, { prefix: "/api" });
 fastify.setErrorHandler((error, request, reply) => {
     request.log.error(error);
@@ -64,7 +90,18 @@ fastify.setNotFoundHandler((request, reply) => {
     });
 });
 
+// Background jobs
+scheduler.register({ name: "recurring-invoices", intervalMs: 60 * 60 * 1000, run: () => recurringInvoiceService.runDueProfiles() });
+scheduler.register({ name: "overdue-bills", intervalMs: 60 * 60 * 1000, run: async () => { await billLifecycleService.markOverdue(); } });
+scheduler.register({ name: "dunning-reminders", intervalMs: 60 * 60 * 1000, run: async () => { await dunningService.sendDueReminders(); } });
+scheduler.register({ name: "idempotency-keys", intervalMs: 60 * 60 * 1000, run: async () => { await idempotencyService.purgeExpired(); } });
+scheduler.register({ name: "bill-exports", intervalMs: 60 * 1000, run: async () => { await billExportService.processPending(); } });
+scheduler.register({ name: "stock-ledger", intervalMs: 24 * 60 * 60 * 1000, run: async () => { await inventoryService.reconcile(); } });
+scheduler.register({ name: "stock-expiry", intervalMs: 24 * 60 * 60 * 1000, run: async () => { await batchService.notifyExpiring(); } });
+fastify.addHook("onClose", async () => scheduler.stop());
+
 fastify.listen({ port: 4000, host: "0.0.0.0" }, (err, address) => {
     if (err) throw err;
     fastify.log.info(`Server running at ${address}`);
+    scheduler.start();
 });
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { FastifyPluginAsync, FastifyRequest, FastifyReply } from "fastify";
+import fp from "fastify-plugin";
+import { idempotencyService, IDEMPOTENCY_KEY_MAX_LENGTH } from "../services/idempotencyService";
+
+// Honors the Idempotency-Key header on create endpoints. Add fastify.idempotent after
+// fastify.authenticate in a route's preHandler; keys are scoped to the signed-in user.
+const idempotencyPlugin: FastifyPluginAsync = async (fastify) => {
+    fastify.decorate("idempotent", async (request: FastifyRequest, reply: FastifyReply) => {
+        const header = request.headers["idempotency-key"];
+        if (header === undefined) return;
+
+        const key = Array.isArray(header) ? header[0] : header;
+        if (!key || key.length > IDEMPOTENCY_KEY_MAX_LENGTH) {
+            return reply.code(400).send({
+                status: 'error',
+                message: `Idempotency-Key must be 1 to ${IDEMPOTENCY_KEY_MAX_LENGTH} characters`
+            });
+        }
+
+        const user = request.user as any;
+        if (!user) return;
+
+        const claim = await idempotencyService.claim({
+            userId: user.id,
+            key,
+            method: request.method,
+            path: request.url,
+            body: request.body,
+        });
+
+        switch (claim.state) {
+            case 'claimed':
+                request.idempotencyRecordId = claim.record.id;
+                return;
+            case 'replay':
+                return reply.code(claim.record.statusCode!)
+                    .header("idempotency-replayed", "true")
+                    .type("application/json; charset=utf-8")
+                    .send(claim.record.responseBody);
+            case 'in_flight':
+                return reply.code(409).send({
+                    status: 'error',
+                    message: 'A request with this Idempotency-Key is still being processed'
+                });
+            case 'mismatch':
+                return reply.code(422).send({
+                    status: 'error',
+                    message: 'Idempotency-Key was already used for a different request'
+                });
+        }
+    });
+
+    // Stores the response of a claimed request. Server errors and non-JSON responses are not
+    // kept, so a retry with the same key runs the request again.
+    fastify.addHook("onSend", async (request, reply, payload) => {
+        const recordId = request.idempotencyRecordId;
+        if (!recordId) return payload;
+
+        try {
+            if (reply.statusCode >= 500 || typeof payload !== "string") {
+                await idempotencyService.release(recordId);
+            } else {
+                await idempotencyService.complete(recordId, reply.statusCode, payload);
+            }
+        } catch (error) {
+            request.log.error(error, "Failed to store idempotent response");
+        }
+        return payload;
+    });
+};
+
+export default fp(idempotencyPlugin);
@@ -87,10 +87,14 @@ export function requireSubscription(requiredPlans: string[] = ['free', 'basic',
     };
 }
 
+// Handlers read companyId from the params, the query or the body, so every one of them that is
+// present must name the same company; the guard then checks that one
 export function requireCompanyAccess() {
     return async (request: FastifyRequest, reply: FastifyReply) => {
         const user = request.user as any;
-        const companyId = (request.params as any)?.companyId || (request.body as any)?.companyId;
+        const companyIds = [(request.params as any)?.companyId, (request.query as any)?.companyId, (request.body as any)?.companyId]
+            .filter(value => value !== undefined && value !== null && value !== '');
+        const companyId = companyIds[0];
         
         if (!user) {
             return reply.code(401).send({ 
@@ -99,7 +103,14 @@ export function requireCompanyAccess() {
             });
         }
 
-        if (!companyId) {
+        if (companyIds.some(value => value !== companyId)) {
+            return reply.code(400).send({ 
+                status: 'error',
+                message: 'Company ID differs between the URL and the request body' 
+            });
+        }
+
+        if (!companyId || typeof companyId !== 'string') {
             return reply.code(400).send({ 
                 status: 'error',
                 message: 'Company ID is required' 
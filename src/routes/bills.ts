@@ -1,38 +1,111 @@
 import { FastifyInstance } from "fastify";
 import { db } from "../db/drizzle";
-import { bills, insertBillSchema, selectBillSchema, customers, payments } from '../db/schema';
-import { eq, and, gte, lte, like, desc, asc, count, sum, sql } from "drizzle-orm";
+import { bills, SelectBill, insertBillSchema, selectBillSchema, customers, payments, BILL_STATUSES, DeliveryChannelEnum, ExportTypeEnum, SalesTypeEnum } from '../db/schema';
+import { eq, and, gte, lte, desc, asc, count, sum, sql, notInArray } from "drizzle-orm";
 import { z } from "zod";
+import { invoicePdfService } from "../services/invoicePdfService";
+import { numberingService } from "../services/numberingService";
+import { billBalanceService } from "../services/billBalanceService";
+import { billService } from "../services/billService";
+import { billLifecycleService, VOIDED_BILL_STATUSES } from "../services/billLifecycleService";
+import { billDeliveryService } from "../services/billDeliveryService";
+import { billShareService } from "../services/billShareService";
+import { upiPaymentService } from "../services/upiPaymentService";
+import { dunningService } from "../services/dunningService";
+import { gstPostingService } from "../services/gstPostingService";
+import { stockService } from "../services/stockService";
+import { inventoryService } from "../services/inventoryService";
+import { warehouseService } from "../services/warehouseService";
+import { deliveryChallanService } from "../services/deliveryChallanService";
+import { billExportService } from "../services/billExportService";
+import { requireCompanyAccess } from "../plugins/roleGuard";
+import { createReadStream } from "fs";
+import { CURRENCY_CODES } from "../utils/currency";
+import { PORT_CODE_PATTERN } from "../utils/gst";
+import { pageQuery, paginationQuery, SortField } from "../utils/pagination";
+import { toLineInputs } from "../utils/billCalculator";
 
-export default async function (fastify: FastifyInstance) {
-    // Helper function to generate bill number
-    const generateBillNumber = async (companyId: string): Promise<string> => {
-        const year = new Date().getFullYear();
-        const month = String(new Date().getMonth() + 1).padStart(2, '0');
-        const prefix = `INV-${year}${month}`;
-        
-        const lastBill = await db.select({ billNumber: bills.billNumber })
-            .from(bills)
-            .where(like(bills.billNumber, `${prefix}%`))
-            .orderBy(desc(bills.billNumber))
-            .limit(1);
-        
-        let sequence = 1;
-        if (lastBill.length > 0) {
-            const lastNumber = lastBill[0].billNumber.split('-').pop();
-            sequence = parseInt(lastNumber || '0') + 1;
-        }
-        
-        return `${prefix}-${String(sequence).padStart(4, '0')}`;
-    };
+// Sort keys of the bill list; amount is the INR total so foreign-currency bills sort by value
+const BILL_SORT_FIELDS: Record<'date' | 'amount' | 'billNumber' | 'createdAt', SortField<SelectBill>> = {
+    date: { column: bills.date, value: bill => bill.date },
+    amount: { column: bills.baseTotalAmount, value: bill => bill.baseTotalAmount },
+    billNumber: { column: bills.billNumber, value: bill => bill.billNumber },
+    createdAt: { column: bills.createdAt, value: bill => bill.createdAt },
+};
+
+const billItemSchema = z.object({
+    name: z.string(),
+    description: z.string().optional(),
+    quantity: z.number().positive(),
+    rate: z.number().min(0),
+    unit: z.string().optional(),
+    discount: z.number().min(0).optional(),
+    discountType: z.enum(['percentage', 'amount']).optional(),
+    taxRate: z.number().min(0),
+    cessRate: z.number().min(0).optional(),
+    hsnCode: z.string().optional(),
+    productId: z.string().optional(),
+    // Picked earliest expiry first for batch-tracked products when absent on a sale
+    batchId: z.string().optional(),
+    // Purchases name the batch the goods arrive in; a new number creates it
+    batchNumber: z.string().max(64).optional(),
+    manufacturingDate: z.string().optional(),
+    expiryDate: z.string().optional(),
+    mrp: z.number().min(0).optional(),
+    // One per unit of serial-tracked products: the units sold, or bought in
+    serialNumbers: z.array(z.string().trim().min(1).max(64)).optional(),
+    // Optional client-computed values; rejected if they disagree with the server
+    amount: z.number().optional(),
+    taxAmount: z.number().optional(),
+    total: z.number().optional()
+});
+
+// Taxable freight, packing, insurance and similar charges
+const billChargeSchema = z.object({
+    name: z.string().min(1).max(64),
+    hsnCode: z.string().optional(),
+    amount: z.number().min(0),
+    taxRate: z.number().min(0)
+});
 
-    // Get all bills with filters and pagination
+// Fields a bill update may carry. Totals, balances, lifecycle timestamps, the bill type and the
+// company are always set on the server, so anything else is dropped.
+const updateBillSchema = z.object({
+    customerId: z.string(),
+    customerName: z.string(),
+    customerGstin: z.string().nullable(),
+    customerAddress: z.string().nullable(),
+    customerPhone: z.string().nullable(),
+    customerEmail: z.string().nullable(),
+    date: z.string(),
+    dueDate: z.string(),
+    items: z.array(billItemSchema),
+    placeOfSupply: z.string().regex(/^\d{2}$/, 'placeOfSupply must be a 2-digit state code').nullable(),
+    notes: z.string().nullable(),
+    terms: z.string().nullable(),
+    discount: z.number(),
+    discountType: z.enum(['percentage', 'amount']),
+    charges: z.array(billChargeSchema).max(10),
+    roundOff: z.number().min(-1).max(1).nullable(),
+    currency: z.enum(CURRENCY_CODES),
+    exchangeRate: z.number().positive(),
+    exportType: z.enum(ExportTypeEnum.enumValues).nullable(),
+    portCode: z.string().regex(PORT_CODE_PATTERN, 'portCode must be a 6-character port code').nullable(),
+    shippingBillNumber: z.string().max(20).nullable(),
+    shippingBillDate: z.string().nullable(),
+    warehouseId: z.string().nullable(),
+    status: z.enum(BILL_STATUSES),
+    reason: z.string()
+}).partial();
+
+export default async function (fastify: FastifyInstance) {
+    // Get all bills with filters, sorting and cursor pagination
     fastify.get("/", { preHandler: [fastify.authenticate] }, async (req, reply) => {
         try {
             const querySchema = z.object({
-                page: z.string().optional().transform(val => val ? parseInt(val) : 1),
-                limit: z.string().optional().transform(val => val ? parseInt(val) : 10),
-                status: z.string().optional(),
+                ...paginationQuery(BILL_SORT_FIELDS, 'createdAt', 'desc'),
+                status: z.enum(BILL_STATUSES).optional(),
+                type: z.enum(SalesTypeEnum.enumValues).optional(),
                 customerId: z.string().optional(),
                 startDate: z.string().optional(),
                 endDate: z.string().optional(),
@@ -41,55 +114,123 @@ export default async function (fastify: FastifyInstance) {
             });
             
             const params = querySchema.parse(req.query);
-            const offset = (params.page - 1) * params.limit;
-            
-            let whereConditions = [];
-            if (params.companyId) whereConditions.push(eq(bills.companyId, params.companyId));
-            if (params.status) whereConditions.push(eq(bills.status, params.status));
-            if (params.customerId) whereConditions.push(eq(bills.customerId, params.customerId));
-            if (params.startDate) whereConditions.push(gte(bills.date, new Date(params.startDate)));
-            if (params.endDate) whereConditions.push(lte(bills.date, new Date(params.endDate)));
-            if (params.search) {
-                whereConditions.push(
-                    sql`(${bills.billNumber} ILIKE ${`%${params.search}%`} OR ${bills.customerName} ILIKE ${`%${params.search}%`})`
-                );
-            }
-            
-            const whereClause = whereConditions.length > 0 ? and(...whereConditions) : undefined;
+            const whereClause = billService.listFilter(params);
+            const page = pageQuery(BILL_SORT_FIELDS, bills.id, params);
             
-            const [billsResult, totalResult] = await Promise.all([
+            const [billsResult, total] = await Promise.all([
                 db.select().from(bills)
-                    .where(whereClause)
-                    .orderBy(desc(bills.createdAt))
-                    .limit(params.limit)
-                    .offset(offset),
-                db.select({ count: count() }).from(bills).where(whereClause)
+                    .where(and(whereClause, page.where))
+                    .orderBy(...page.orderBy)
+                    .limit(page.limit)
+                    .offset(page.offset),
+                params.includeTotal || params.page
+                    ? db.select({ count: count() }).from(bills).where(whereClause).then(r => r[0].count)
+                    : undefined
             ]);
-            
-            const total = totalResult[0].count;
-            const totalPages = Math.ceil(total / params.limit);
+            const { items, nextCursor, hasMore } = page.page(billsResult);
             
             return reply.send({
                 status: 'success',
                 data: {
-                    bills: billsResult,
-                    total,
-                    page: params.page,
-                    totalPages
+                    bills: items,
+                    nextCursor,
+                    hasMore,
+                    ...(total !== undefined && { total }),
+                    ...(params.page && { page: params.page, totalPages: Math.ceil(total! / page.size) })
                 }
             });
         } catch (error: any) {
-            return reply.code(500).send({ 
+            return reply.code(error.message === 'Invalid cursor' ? 400 : 500).send({ 
                 status: 'error', 
                 message: error.message || "Failed to fetch bills" 
             });
         }
     });
 
+    // Start a background export of the PDFs of every bill matching the list filters
+    fastify.post("/export", { preHandler: [fastify.authenticate, requireCompanyAccess(), fastify.idempotent] }, async (req, reply) => {
+        try {
+            const exportSchema = z.object({
+                companyId: z.string(),
+                type: z.enum(SalesTypeEnum.enumValues).optional(),
+                status: z.enum(BILL_STATUSES).optional(),
+                customerId: z.string().optional(),
+                startDate: z.string().optional(),
+                endDate: z.string().optional(),
+                search: z.string().optional()
+            });
+
+            const filters = exportSchema.parse(req.body);
+            const created = await billExportService.createExport(filters, (req.user as any).id);
+            return reply.code(202).send({
+                status: 'success',
+                data: created,
+                message: `Exporting ${created.totalBills} bills`
+            });
+        } catch (error: any) {
+            return reply.code(400).send({
+                status: 'error',
+                message: error.message || "Failed to start export"
+            });
+        }
+    });
+
+    // Bill exports started by the user, newest first
+    fastify.get("/exports", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { companyId } = z.object({ companyId: z.string().optional() }).parse(req.query);
+            const exports = await billExportService.listExports((req.user as any).id, companyId);
+            return reply.send({
+                status: 'success',
+                data: exports
+            });
+        } catch (error: any) {
+            return reply.code(400).send({
+                status: 'error',
+                message: error.message || "Failed to fetch exports"
+            });
+        }
+    });
+
+    // Export status and progress (processedBills of totalBills)
+    fastify.get("/exports/:exportId", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { exportId } = req.params as { exportId: string };
+            const found = await billExportService.getExport(exportId, (req.user as any).id);
+            return reply.send({
+                status: 'success',
+                data: found
+            });
+        } catch (error: any) {
+            return reply.code(error.message === 'Export not found' ? 404 : 400).send({
+                status: 'error',
+                message: error.message || "Failed to fetch export"
+            });
+        }
+    });
+
+    // Download a finished export
+    fastify.get("/exports/:exportId/download", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { exportId } = req.params as { exportId: string };
+            const { filePath, fileName } = await billExportService.downloadPath(exportId, (req.user as any).id);
+            return reply
+                .type('application/zip')
+                .header('Content-Disposition', `attachment; filename="${fileName}"`)
+                .send(createReadStream(filePath));
+        } catch (error: any) {
+            return reply.code(error.message === 'Export not found' ? 404 : 400).send({
+                status: 'error',
+                message: error.message || "Failed to download export"
+            });
+        }
+    });
+
     // Create bill
-    fastify.post("/", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+    fastify.post("/", { preHandler: [fastify.authenticate, fastify.idempotent] }, async (req, reply) => {
         try {
             const createBillSchema = z.object({
+                type: z.enum(SalesTypeEnum.enumValues).optional(),
                 customerId: z.string(),
                 customerName: z.string(),
                 customerGstin: z.string().optional(),
@@ -98,67 +239,43 @@ export default async function (fastify: FastifyInstance) {
                 customerEmail: z.string().optional(),
                 date: z.string(),
                 dueDate: z.string(),
-                items: z.array(z.object({
-                    name: z.string(),
-                    description: z.string().optional(),
-                    quantity: z.number(),
-                    rate: z.number(),
-                    unit: z.string().optional(),
-                    taxRate: z.number(),
-                    taxAmount: z.number(),
-                    amount: z.number(),
-                    hsnCode: z.string().optional(),
-                    total: z.number()
-                })),
+                items: z.array(billItemSchema),
+                placeOfSupply: z.string().regex(/^\d{2}$/, 'placeOfSupply must be a 2-digit state code').optional(),
                 notes: z.string().optional(),
                 terms: z.string().optional(),
                 discount: z.number().optional(),
                 discountType: z.enum(['percentage', 'amount']).optional(),
-                companyId: z.string()
-            });
+                // Taxable freight, packing, insurance and similar charges
+                charges: z.array(billChargeSchema).max(10).optional(),
+                // Set by hand instead of rounding to the nearest rupee
+                roundOff: z.number().min(-1).max(1).nullable().optional(),
+                currency: z.enum(CURRENCY_CODES).optional(),
+                exchangeRate: z.number().positive().optional(),
+                exportType: z.enum(ExportTypeEnum.enumValues).optional(),
+                portCode: z.string().regex(PORT_CODE_PATTERN, 'portCode must be a 6-character port code').optional(),
+                shippingBillNumber: z.string().max(20).optional(),
+                shippingBillDate: z.string().optional(),
+                companyId: z.string(),
+                // Where the goods leave from or arrive; the company's default warehouse when absent
+                warehouseId: z.string().optional(),
+                reserveStock: z.boolean().optional()
+            }).refine(data => !(data.reserveStock && data.type === 'purchase'), { message: "Only sales bills reserve stock" });
             
-            const data = createBillSchema.parse(req.body);
-            const billNumber = await generateBillNumber(data.companyId);
-            
-            // Calculate amounts
-            const amount = data.items.reduce((sum, item) => sum + item.amount, 0);
-            const taxAmount = data.items.reduce((sum, item) => sum + item.taxAmount, 0);
-            let totalAmount = amount + taxAmount;
-            
-            if (data.discount) {
-                if (data.discountType === 'percentage') {
-                    totalAmount -= (totalAmount * data.discount / 100);
-                } else {
-                    totalAmount -= data.discount;
-                }
+            const { reserveStock, ...data } = createBillSchema.parse(req.body);
+            // Check before creating so an unavailable reservation does not leave a bill behind
+            if (reserveStock) {
+                await stockService.assertAvailable(data.companyId, stockService.linesFor(data.items), undefined, data.warehouseId);
             }
             
-            const billData = {
-                billNumber,
-                customerId: data.customerId,
-                customerName: data.customerName,
-                customerGstin: data.customerGstin,
-                customerAddress: data.customerAddress,
-                customerPhone: data.customerPhone,
-                customerEmail: data.customerEmail,
-                amount: amount.toString(),
-                taxAmount: taxAmount.toString(),
-                totalAmount: totalAmount.toString(),
+            const inserted = await billService.createBill({
+                ...data,
                 date: new Date(data.date),
                 dueDate: new Date(data.dueDate),
-                items: data.items,
-                status: 'draft' as const,
-                paymentStatus: 'pending' as const,
-                notes: data.notes,
-                terms: data.terms,
-                companyId: data.companyId,
-                discount: data.discount?.toString(),
-                discountType: data.discountType,
-                createdBy: (req.user as any).id,
-                updatedBy: (req.user as any).id
-            };
-            
-            const inserted = await db.insert(bills).values(billData).returning().then(r => r[0]);
+                shippingBillDate: data.shippingBillDate ? new Date(data.shippingBillDate) : undefined
+            }, (req.user as any).id);
+            if (reserveStock) {
+                await stockService.reserveForBill(inserted.id, (req.user as any).id);
+            }
             return reply.code(201).send({ 
                 status: 'success', 
                 data: inserted,
@@ -199,17 +316,60 @@ export default async function (fastify: FastifyInstance) {
     fastify.put("/:id", { preHandler: [fastify.authenticate] }, async (req, reply) => {
         try {
             const { id } = req.params as { id: string };
-            const updateData = { ...(req.body as any), updatedBy: (req.user as any).id, updatedAt: new Date() };
-            const updated = await db.update(bills).set(updateData).where(eq(bills.id, id)).returning().then(r => r[0]);
-            if (!updated) {
+            const existing = await db.select().from(bills).where(eq(bills.id, id)).then(r => r[0]);
+            if (!existing) {
                 return reply.code(404).send({ 
                     status: 'error', 
                     message: "Bill not found" 
                 });
             }
+            
+            const { status, reason, ...fields } = updateBillSchema.parse(req.body);
+            const body: Record<string, any> = { ...fields };
+            for (const field of ['date', 'dueDate', 'shippingBillDate'] as const) {
+                if (fields[field]) body[field] = new Date(fields[field]!);
+            }
+            const target = status !== undefined && status !== existing.status ? status : undefined;
+            
+            // Validate both parts up front so a rejected status change leaves the fields untouched
+            billLifecycleService.assertEditable(existing, body);
+            if (target) billLifecycleService.assertTransition(existing, target, reason);
+            
+            if (body.warehouseId) {
+                await warehouseService.assertWarehouse(existing.companyId, body.warehouseId);
+            }
+            
+            const updateData = Object.keys(body).length > 0 ? {
+                ...body,
+                ...await billService.pricingUpdate(existing, body, (req.user as any).id),
+                updatedBy: (req.user as any).id,
+                updatedAt: new Date()
+            } : undefined;
+            // Leaving draft also needs the stock, batches and serials of the edited bill
+            if (target && existing.status === 'draft' && target !== 'cancelled') {
+                await stockService.assertCanFinalize({ ...existing, ...updateData } as SelectBill);
+            }
+            
+            if (updateData) {
+                // Issued bills re-post their GST invoice entry so returns follow the edit
+                await db.batch([
+                    db.update(bills).set(updateData).where(eq(bills.id, id)),
+                    gstPostingService.invoiceQuery(id)
+                ]);
+                
+                // Total may have changed, so recompute balance due and customer outstanding
+                await billBalanceService.recalculateBill(id);
+                if (existing.status === 'draft' && body.items !== undefined) {
+                    await stockService.refreshBillReservation(id, (req.user as any).id);
+                }
+            }
+            if (target) {
+                await billLifecycleService.transition(id, target, { reason, userId: (req.user as any).id });
+            }
+            const refreshed = await db.select().from(bills).where(eq(bills.id, id)).then(r => r[0]);
             return reply.send({ 
                 status: 'success', 
-                data: updated,
+                data: refreshed,
                 message: 'Bill updated successfully'
             });
         } catch (error: any) {
@@ -220,11 +380,23 @@ export default async function (fastify: FastifyInstance) {
         }
     });
 
-    // Delete bill
+    // Delete a draft bill; finalized bills are cancelled or voided instead so the number stays accounted for
     fastify.delete("/:id", { preHandler: [fastify.authenticate] }, async (req, reply) => {
         try {
             const { id } = req.params as { id: string };
-            await db.delete(bills).where(eq(bills.id, id));
+            const existing = await db.select().from(bills).where(eq(bills.id, id)).then(r => r[0]);
+            if (existing && existing.status !== 'draft') {
+                return reply.code(400).send({ 
+                    status: 'error', 
+                    message: `Only draft bills can be deleted; bill ${existing.billNumber} is ${existing.status}. Cancel or void it instead` 
+                });
+            }
+            
+            const [deleted] = await db.delete(bills).where(eq(bills.id, id)).returning();
+            if (deleted) {
+                await billBalanceService.recalculateCustomer(deleted.customerId);
+                await deliveryChallanService.refreshStatuses(deliveryChallanService.challanIdsOf(deleted.items));
+            }
             return reply.send({ 
                 status: 'success',
                 message: 'Bill deleted successfully'
@@ -248,7 +420,7 @@ export default async function (fastify: FastifyInstance) {
             });
             
             const params = querySchema.parse(req.query);
-            let whereConditions = [];
+            let whereConditions = [eq(bills.type, 'sale'), notInArray(bills.status, VOIDED_BILL_STATUSES)];
             
             if (params.companyId) whereConditions.push(eq(bills.companyId, params.companyId));
             if (params.customerId) whereConditions.push(eq(bills.customerId, params.customerId));
@@ -259,10 +431,10 @@ export default async function (fastify: FastifyInstance) {
             
             const summary = await db.select({
                 totalBills: count(),
-                totalAmount: sum(bills.totalAmount),
-                paidAmount: sum(sql`CASE WHEN ${bills.paymentStatus} = 'paid' THEN ${bills.totalAmount} ELSE 0 END`),
-                pendingAmount: sum(sql`CASE WHEN ${bills.paymentStatus} = 'pending' THEN ${bills.totalAmount} ELSE 0 END`),
-                overdueAmount: sum(sql`CASE WHEN ${bills.status} = 'overdue' THEN ${bills.totalAmount} ELSE 0 END`)
+                totalAmount: sum(bills.baseTotalAmount),
+                paidAmount: sum(bills.baseAmountPaid),
+                pendingAmount: sum(bills.baseBalanceDue),
+                overdueAmount: sum(sql`CASE WHEN ${bills.status} = 'overdue' THEN ${bills.baseBalanceDue} ELSE 0 END`)
             }).from(bills).where(whereClause);
             
             const thisMonth = new Date();
@@ -272,7 +444,7 @@ export default async function (fastify: FastifyInstance) {
             const thisMonthConditions = [...(whereConditions || []), gte(bills.date, thisMonth)];
             const thisMonthSummary = await db.select({
                 thisMonthBills: count(),
-                thisMonthAmount: sum(bills.totalAmount)
+                thisMonthAmount: sum(bills.baseTotalAmount)
             }).from(bills).where(and(...thisMonthConditions));
             
             const result = {
@@ -297,37 +469,59 @@ export default async function (fastify: FastifyInstance) {
         }
     });
 
-    // Mark bill as paid
-    fastify.post("/:id/payment", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+    // Record a full or partial payment against a bill
+    fastify.post("/:id/payment", { preHandler: [fastify.authenticate, fastify.idempotent] }, async (req, reply) => {
         try {
             const { id } = req.params as { id: string };
             const paymentSchema = z.object({
                 paymentMethod: z.string(),
                 paymentDate: z.string(),
-                amount: z.number(),
+                amount: z.number().positive(),
+                reference: z.string().optional(),
                 notes: z.string().optional()
             });
             
             const paymentData = paymentSchema.parse(req.body);
+            const bill = await db.select().from(bills).where(eq(bills.id, id)).then(r => r[0]);
             
-            const updated = await db.update(bills)
-                .set({
-                    paymentStatus: 'paid',
-                    paymentMethod: paymentData.paymentMethod,
-                    status: 'paid',
-                    updatedBy: (req.user as any).id,
-                    updatedAt: new Date()
-                })
-                .where(eq(bills.id, id))
-                .returning()
-                .then(r => r[0]);
-            
-            if (!updated) {
+            if (!bill) {
                 return reply.code(404).send({ 
                     status: 'error', 
                     message: "Bill not found" 
                 });
             }
+            if (paymentData.amount > Number(bill.balanceDue)) {
+                return reply.code(400).send({ 
+                    status: 'error', 
+                    message: `Payment amount exceeds the balance due of ${bill.balanceDue}` 
+                });
+            }
+            
+            // A payment against a draft finalizes it first
+            await stockService.assertCanFinalize(bill);
+            const finalize = billLifecycleService.paymentQueries(bill, (req.user as any).id);
+            const results = await db.batch([
+                db.insert(payments).values({
+                    billId: bill.id,
+                    companyId: bill.companyId,
+                    userId: (req.user as any).id,
+                    amount: paymentData.amount.toString(),
+                    date: new Date(paymentData.paymentDate),
+                    mode: paymentData.paymentMethod,
+                    status: 'completed',
+                    reference: paymentData.reference,
+                    notes: paymentData.notes,
+                    createdBy: (req.user as any).id,
+                    updatedBy: (req.user as any).id
+                }),
+                ...finalize,
+                db.update(bills)
+                    .set({ paymentMethod: paymentData.paymentMethod, updatedBy: (req.user as any).id })
+                    .where(eq(bills.id, bill.id)),
+                billBalanceService.billUpdate(bill.id).returning(),
+                billBalanceService.customerUpdate(bill.customerId)
+            ]).catch(error => { throw inventoryService.stockError(error); });
+            const [updated] = results[finalize.length + 2] as typeof bill[];
             
             return reply.send({ 
                 status: 'success', 
@@ -342,59 +536,321 @@ export default async function (fastify: FastifyInstance) {
         }
     });
 
-    // Send bill to customer
+    // Finalize a draft bill: assigns it for good, locks its items and deducts stock
+    fastify.post("/:id/finalize", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const updated = await billLifecycleService.transition(id, 'finalized', { userId: (req.user as any).id });
+            return reply.send({ 
+                status: 'success', 
+                data: updated,
+                message: 'Bill finalized successfully'
+            });
+        } catch (error: any) {
+            return reply.code(error.message === 'Bill not found' ? 404 : 400).send({ 
+                status: 'error', 
+                message: error.message || "Failed to finalize bill" 
+            });
+        }
+    });
+
+    // Cancel a bill that should not have been raised; reverses its stock and GST effects
+    fastify.post("/:id/cancel", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const { reason } = z.object({ reason: z.string().trim().min(1, 'A reason is required') }).parse(req.body ?? {});
+            const updated = await billLifecycleService.transition(id, 'cancelled', { reason, userId: (req.user as any).id });
+            return reply.send({ 
+                status: 'success', 
+                data: updated,
+                message: 'Bill cancelled successfully'
+            });
+        } catch (error: any) {
+            return reply.code(error.message === 'Bill not found' ? 404 : 400).send({ 
+                status: 'error', 
+                message: error.message || "Failed to cancel bill" 
+            });
+        }
+    });
+
+    // Void an issued bill, keeping its number on record; reverses its stock and GST effects
+    fastify.post("/:id/void", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const { reason } = z.object({ reason: z.string().trim().min(1, 'A reason is required') }).parse(req.body ?? {});
+            const updated = await billLifecycleService.transition(id, 'void', { reason, userId: (req.user as any).id });
+            return reply.send({ 
+                status: 'success', 
+                data: updated,
+                message: 'Bill voided successfully'
+            });
+        } catch (error: any) {
+            return reply.code(error.message === 'Bill not found' ? 404 : 400).send({ 
+                status: 'error', 
+                message: error.message || "Failed to void bill" 
+            });
+        }
+    });
+
+    // Send bill to customer with its PDF; sending a draft or finalized bill marks it sent
     fastify.post("/:id/send", { preHandler: [fastify.authenticate] }, async (req, reply) => {
         try {
             const { id } = req.params as { id: string };
             const sendSchema = z.object({
-                email: z.string().optional(),
+                email: z.string().email().optional(),
                 phone: z.string().optional(),
-                method: z.enum(['email', 'sms', 'whatsapp']),
+                method: z.enum(DeliveryChannelEnum.enumValues),
+                subject: z.string().max(255).optional(),
                 message: z.string().optional()
             });
             
             const sendData = sendSchema.parse(req.body);
+            const delivery = await billDeliveryService.send(id, {
+                channel: sendData.method,
+                to: sendData.method === 'email' ? sendData.email : sendData.phone,
+                subject: sendData.subject,
+                message: sendData.message
+            }, (req.user as any).id);
             
-            // Update bill status to sent
-            await db.update(bills)
-                .set({ 
-                    status: 'sent',
-                    updatedBy: (req.user as any).id,
-                    updatedAt: new Date()
-                })
-                .where(eq(bills.id, id));
-            
-            // Here you would implement actual sending logic (email, SMS, WhatsApp)
-            // For now, just return success
-            
+            if (delivery.status === 'failed') {
+                return reply.code(502).send({ 
+                    status: 'error', 
+                    data: delivery,
+                    message: `Failed to send bill via ${sendData.method}: ${delivery.error}` 
+                });
+            }
             return reply.send({ 
                 status: 'success',
+                data: delivery,
                 message: `Bill sent via ${sendData.method} successfully`
             });
         } catch (error: any) {
-            return reply.code(400).send({ 
+            return reply.code(error.message === 'Bill not found' ? 404 : 400).send({ 
                 status: 'error', 
                 message: error.message || "Failed to send bill" 
             });
         }
     });
 
-    // Generate bill PDF
-    fastify.get("/:id/pdf", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+    // Delivery log of a bill, newest first
+    fastify.get("/:id/deliveries", { preHandler: [fastify.authenticate] }, async (req, reply) => {
         try {
             const { id } = req.params as { id: string };
+            const deliveries = await billDeliveryService.listDeliveries(id);
+            return reply.send({ 
+                status: 'success', 
+                data: deliveries 
+            });
+        } catch (error: any) {
+            return reply.code(500).send({ 
+                status: 'error', 
+                message: error.message || "Failed to fetch deliveries" 
+            });
+        }
+    });
+
+    // Resend an earlier delivery, optionally to a different recipient
+    fastify.post("/:id/deliveries/:deliveryId/resend", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id, deliveryId } = req.params as { id: string; deliveryId: string };
+            const { to } = z.object({ to: z.string().optional() }).parse(req.body ?? {});
+            const delivery = await billDeliveryService.resend(id, deliveryId, (req.user as any).id, to);
             
-            // Here you would implement PDF generation logic
-            // For now, return a placeholder URL
+            if (delivery.status === 'failed') {
+                return reply.code(502).send({ 
+                    status: 'error', 
+                    data: delivery,
+                    message: `Failed to resend bill via ${delivery.channel}: ${delivery.error}` 
+                });
+            }
+            return reply.send({ 
+                status: 'success',
+                data: delivery,
+                message: `Bill resent via ${delivery.channel} successfully`
+            });
+        } catch (error: any) {
+            const notFound = error.message === 'Bill not found' || error.message === 'Delivery not found';
+            return reply.code(notFound ? 404 : 400).send({ 
+                status: 'error', 
+                message: error.message || "Failed to resend bill" 
+            });
+        }
+    });
+
+    // Create a public, expiring link to a read-only view of the bill
+    fastify.post("/:id/share", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const shareSchema = z.object({
+                expiresInDays: z.number().int().min(1).max(365).default(30),
+                paymentInstructions: z.string().max(2000).optional()
+            });
             
+            const data = shareSchema.parse(req.body ?? {});
+            const link = await billShareService.createLink(id, data, (req.user as any).id);
+            return reply.code(201).send({ 
+                status: 'success', 
+                data: link,
+                message: 'Share link created successfully'
+            });
+        } catch (error: any) {
+            return reply.code(error.message === 'Bill not found' ? 404 : 400).send({ 
+                status: 'error', 
+                message: error.message || "Failed to create share link" 
+            });
+        }
+    });
+
+    // Share links of a bill with their view counts
+    fastify.get("/:id/share-links", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const links = await billShareService.listLinks(id);
             return reply.send({ 
                 status: 'success', 
-                data: { 
-                    pdfUrl: `${process.env.BASE_URL || 'http://localhost:4000'}/api/bills/${id}/download-pdf`
-                }
+                data: links 
             });
         } catch (error: any) {
-            return reply.code(400).send({ 
+            return reply.code(500).send({ 
+                status: 'error', 
+                message: error.message || "Failed to fetch share links" 
+            });
+        }
+    });
+
+    // Revoke a share link; the public URL stops working immediately
+    fastify.delete("/:id/share-links/:linkId", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id, linkId } = req.params as { id: string; linkId: string };
+            const link = await billShareService.revokeLink(id, linkId, (req.user as any).id);
+            return reply.send({ 
+                status: 'success', 
+                data: link,
+                message: 'Share link revoked successfully'
+            });
+        } catch (error: any) {
+            return reply.code(error.message === 'Share link not found' ? 404 : 400).send({ 
+                status: 'error', 
+                message: error.message || "Failed to revoke share link" 
+            });
+        }
+    });
+
+    // Hold stock for a draft sales bill without deducting it; replaces any earlier hold
+    fastify.post("/:id/reserve-stock", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const { expiresAt } = z.object({ expiresAt: z.string().datetime().optional() }).parse(req.body ?? {});
+            const reservations = await stockService.reserveForBill(id, (req.user as any).id, expiresAt ? new Date(expiresAt) : undefined);
+            return reply.send({ 
+                status: 'success', 
+                data: reservations,
+                message: 'Stock reserved successfully'
+            });
+        } catch (error: any) {
+            return reply.code(error.message === 'Bill not found' ? 404 : 400).send({ 
+                status: 'error', 
+                message: error.message || "Failed to reserve stock" 
+            });
+        }
+    });
+
+    // Release a draft bill's stock hold
+    fastify.delete("/:id/reserve-stock", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            await stockService.releaseBill(id);
+            return reply.send({ 
+                status: 'success', 
+                message: 'Stock reservation released successfully'
+            });
+        } catch (error: any) {
+            return reply.code(500).send({ 
+                status: 'error', 
+                message: error.message || "Failed to release stock reservation" 
+            });
+        }
+    });
+
+    // Dunning reminders sent for a bill
+    fastify.get("/:id/reminders", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const reminders = await dunningService.listReminders(id);
+            return reply.send({ 
+                status: 'success', 
+                data: reminders 
+            });
+        } catch (error: any) {
+            return reply.code(500).send({ 
+                status: 'error', 
+                message: error.message || "Failed to fetch reminders" 
+            });
+        }
+    });
+
+    // UPI intent and QR code for the balance due (?format=png for the bare QR image)
+    fastify.get("/:id/upi", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const { format } = z.object({ format: z.enum(['json', 'png']).optional() }).parse(req.query);
+
+            const upi = await upiPaymentService.getBillPayment(id);
+            if (format === 'png') {
+                return reply
+                    .type('image/png')
+                    .send(await upiPaymentService.qrPng(upi.intent));
+            }
+            return reply.send({ 
+                status: 'success', 
+                data: { ...upi, qrCode: await upiPaymentService.qrDataUrl(upi.intent) }
+            });
+        } catch (error: any) {
+            return reply.code(error.message === 'Bill not found' ? 404 : 400).send({ 
+                status: 'error', 
+                message: error.message || "Failed to generate UPI payment details" 
+            });
+        }
+    });
+
+    // Generate bill PDF
+    fastify.get("/:id/pdf", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const querySchema = z.object({
+                store: z.string().optional().transform(val => val === 'true'),
+                download: z.string().optional().transform(val => val === 'true')
+            });
+
+            const params = querySchema.parse(req.query);
+
+            // Store the PDF as an uploaded file and return its URL
+            if (params.store) {
+                const file = await invoicePdfService.storeBillPdf(id, (req.user as any).id);
+                return reply.send({
+                    status: 'success',
+                    data: {
+                        fileId: file.id,
+                        pdfUrl: `${process.env.BASE_URL || 'http://localhost:4000'}${file.url}`
+                    }
+                });
+            }
+
+            // Otherwise stream the rendered PDF directly
+            const pdf = await invoicePdfService.renderBill(id);
+            const disposition = params.download ? 'attachment' : 'inline';
+            return reply
+                .type('application/pdf')
+                .header('Content-Disposition', `${disposition}; filename="${pdf.fileName}"`)
+                .send(pdf.buffer);
+        } catch (error: any) {
+            if (error.message === 'Bill not found') {
+                return reply.code(404).send({
+                    status: 'error',
+                    message: error.message
+                });
+            }
+            return reply.code(400).send({
                 status: 'error', 
                 message: error.message || "Failed to generate PDF" 
             });
@@ -402,7 +858,7 @@ export default async function (fastify: FastifyInstance) {
     });
 
     // Duplicate bill
-    fastify.post("/:id/duplicate", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+    fastify.post("/:id/duplicate", { preHandler: [fastify.authenticate, fastify.idempotent] }, async (req, reply) => {
         try {
             const { id } = req.params as { id: string };
             const originalBill = await db.select().from(bills).where(eq(bills.id, id)).then(r => r[0]);
@@ -414,21 +870,47 @@ export default async function (fastify: FastifyInstance) {
                 });
             }
             
-            const newBillNumber = await generateBillNumber(originalBill.companyId);
+            // The copy is dated today, keeping the original's payment term, and numbered in today's series
+            const date = new Date();
+            const dueDate = new Date(date.getTime() + Math.max(originalBill.dueDate.getTime() - originalBill.date.getTime(), 0));
+            const allocation = await numberingService.prepareAllocation(originalBill.companyId, originalBill.type === 'purchase' ? 'purchase_bill' : 'invoice', date);
+            // The copy is a fresh sale: it moves its own stock rather than invoicing the challans
+            // again, and its units and batches are picked anew, earliest expiry first. Purchase
+            // lines keep the batch they name.
+            const items = toLineInputs(originalBill.items).map(({ challanId, challanLine, serialNumbers, ...item }) => originalBill.type === 'sale'
+                ? { ...item, batchId: undefined, batchNumber: undefined, expiryDate: undefined, mrp: undefined }
+                : item);
+            const pricing = await billService.pricingUpdate(originalBill, { items }, (req.user as any).id);
             const duplicatedBill = {
                 ...originalBill,
                 id: undefined,
-                billNumber: newBillNumber,
-                status: 'draft',
+                date,
+                dueDate,
+                ...pricing,
+                billNumber: allocation.number,
+                status: 'draft' as const,
                 paymentStatus: 'pending',
                 paymentMethod: null,
+                estimateId: null,
+                finalizedAt: null,
+                sentAt: null,
+                cancelledAt: null,
+                cancelledBy: null,
+                statusReason: null,
+                shippingBillNumber: null,
+                shippingBillDate: null,
+                amountPaid: '0',
                 createdBy: (req.user as any).id,
                 updatedBy: (req.user as any).id,
                 createdAt: new Date(),
                 updatedAt: new Date()
             };
             
-            const inserted = await db.insert(bills).values(duplicatedBill).returning().then(r => r[0]);
+            const [, [inserted]] = await db.batch([
+                allocation.increment,
+                db.insert(bills).values({ ...duplicatedBill, balanceDue: duplicatedBill.totalAmount }).returning(),
+                billBalanceService.customerUpdate(originalBill.customerId)
+            ]);
             
             return reply.send({ 
                 status: 'success', 
@@ -484,8 +966,10 @@ export default async function (fastify: FastifyInstance) {
             
             const params = querySchema.parse(req.query);
             let whereConditions = [
-                eq(bills.paymentStatus, 'pending'),
-                sql`${bills.dueDate} < NOW()`
+                sql`${bills.paymentStatus} <> 'paid'`,
+                sql`${bills.dueDate} < NOW()`,
+                eq(bills.type, 'sale'),
+                notInArray(bills.status, ['draft', ...VOIDED_BILL_STATUSES])
             ];
             
             if (params.companyId) whereConditions.push(eq(bills.companyId, params.companyId));
@@ -510,28 +994,45 @@ export default async function (fastify: FastifyInstance) {
     // Bulk update bills
     fastify.put("/bulk-update", { preHandler: [fastify.authenticate] }, async (req, reply) => {
         try {
+            // paymentStatus is derived from payments, so it is rejected rather than silently ignored
             const bulkUpdateSchema = z.object({
-                billIds: z.array(z.string()),
+                billIds: z.array(z.string()).min(1),
                 updateData: z.object({
-                    status: z.string().optional(),
-                    paymentStatus: z.string().optional(),
+                    status: z.enum(BILL_STATUSES).optional(),
+                    reason: z.string().optional(),
                     paymentMethod: z.string().optional()
-                })
+                }).strict()
             });
             
             const { billIds, updateData } = bulkUpdateSchema.parse(req.body);
+            const userId = (req.user as any).id;
+            
+            if (updateData.paymentMethod !== undefined) {
+                await db.update(bills)
+                    .set({
+                        paymentMethod: updateData.paymentMethod,
+                        updatedBy: userId,
+                        updatedAt: new Date()
+                    })
+                    .where(sql`${bills.id} = ANY(${billIds})`);
+            }
             
-            await db.update(bills)
-                .set({
-                    ...updateData,
-                    updatedBy: (req.user as any).id,
-                    updatedAt: new Date()
-                })
-                .where(sql`${bills.id} = ANY(${billIds})`);
+            // Each bill moves on its own, so one invalid transition does not block the rest
+            const failed: { billId: string; message: string }[] = [];
+            if (updateData.status) {
+                for (const billId of billIds) {
+                    try {
+                        await billLifecycleService.transition(billId, updateData.status, { reason: updateData.reason, userId });
+                    } catch (error: any) {
+                        failed.push({ billId, message: error.message });
+                    }
+                }
+            }
             
             return reply.send({ 
                 status: 'success',
-                message: `${billIds.length} bills updated successfully`
+                data: { updated: billIds.length - failed.length, failed },
+                message: `${billIds.length - failed.length} bills updated successfully`
             });
         } catch (error: any) {
             return reply.code(400).send({ 
@@ -552,7 +1053,7 @@ export default async function (fastify: FastifyInstance) {
             });
             
             const params = querySchema.parse(req.query);
-            let whereConditions = [];
+            let whereConditions = [eq(bills.type, 'sale'), notInArray(bills.status, VOIDED_BILL_STATUSES)];
             
             if (params.companyId) whereConditions.push(eq(bills.companyId, params.companyId));
             if (params.startDate) whereConditions.push(gte(bills.date, new Date(params.startDate)));
@@ -563,14 +1064,14 @@ export default async function (fastify: FastifyInstance) {
             // Get basic analytics
             const analytics = await db.select({
                 totalBills: count(),
-                totalAmount: sum(bills.totalAmount),
-                averageAmount: sql`AVG(${bills.totalAmount})`
+                totalAmount: sum(bills.baseTotalAmount),
+                averageAmount: sql`AVG(${bills.baseTotalAmount})`
             }).from(bills).where(whereClause);
             
             // Get chart data (simplified for now)
             const chartData = await db.select({
                 period: sql`DATE_TRUNC(${params.groupBy}, ${bills.date})`,
-                amount: sum(bills.totalAmount),
+                amount: sum(bills.baseTotalAmount),
                 count: count()
             })
             .from(bills)
@@ -1,20 +1,32 @@
 import { FastifyInstance } from "fastify";
 import { db } from "../db/drizzle";
-import { companies, insertCompanySchema, selectCompanySchema, users } from "../db/schema";
+import { companies, insertCompanySchema, selectCompanySchema, users, VoucherTypeEnum } from "../db/schema";
 import { eq, and } from "drizzle-orm";
 import { z } from "zod";
 import { requireSubscription, requireCompanyAccess } from "../plugins/roleGuard";
+import { numberingService } from "../services/numberingService";
+import { UPI_VPA_PATTERN } from "../utils/upi";
+import { DUNNING_MAX_OFFSET, DUNNING_MIN_OFFSET } from "../services/dunningService";
+
+// Reminder days relative to the due date, e.g. [-3, 0, 7, 15, 30]; [] turns reminders off
+const dunningScheduleSchema = z.array(z.number().int().min(DUNNING_MIN_OFFSET).max(DUNNING_MAX_OFFSET)).max(10)
+    .transform(days => [...new Set(days)].sort((a, b) => a - b));
 
 export default async function (fastify: FastifyInstance) {
     // Create company
     fastify.post("/add", { 
-        preHandler: [fastify.authenticate, requireSubscription(['free', 'basic', 'premium'])] 
+        preHandler: [fastify.authenticate, requireSubscription(['free', 'basic', 'premium']), fastify.idempotent] 
     }, async (req, reply) => {
         try {
             const createCompanySchema = z.object({
                 name: z.string().min(1, "Company name is required"),
                 gstin: z.string().min(15, "Valid GSTIN is required"),
-                address: z.string().optional()
+                address: z.string().optional(),
+                upiVpa: z.string().regex(UPI_VPA_PATTERN, "Invalid UPI ID").optional(),
+                upiPayeeName: z.string().max(64).optional(),
+                dunningSchedule: dunningScheduleSchema.optional(),
+                allowNegativeStock: z.boolean().optional(),
+                lutNumber: z.string().max(32).optional()
             });
             
             const data = createCompanySchema.parse(req.body);
@@ -41,6 +53,11 @@ export default async function (fastify: FastifyInstance) {
                 name: data.name,
                 gstin: data.gstin,
                 address: data.address,
+                upiVpa: data.upiVpa,
+                upiPayeeName: data.upiPayeeName,
+                dunningSchedule: data.dunningSchedule,
+                allowNegativeStock: data.allowNegativeStock,
+                lutNumber: data.lutNumber,
                 createdBy: (req.user as any).id,
                 updatedBy: (req.user as any).id
             };
@@ -145,7 +162,12 @@ export default async function (fastify: FastifyInstance) {
             const updateSchema = z.object({
                 name: z.string().optional(),
                 gstin: z.string().optional(),
-                address: z.string().optional()
+                address: z.string().optional(),
+                upiVpa: z.string().regex(UPI_VPA_PATTERN, "Invalid UPI ID").nullable().optional(),
+                upiPayeeName: z.string().max(64).nullable().optional(),
+                dunningSchedule: dunningScheduleSchema.nullable().optional(),
+                allowNegativeStock: z.boolean().optional(),
+                lutNumber: z.string().max(32).nullable().optional()
             });
             
             const data = updateSchema.parse(req.body);
@@ -191,4 +213,59 @@ export default async function (fastify: FastifyInstance) {
             });
         }
     });
+
+    // Get document numbering series for a company
+    fastify.get("/:companyId/number-series", { preHandler: [fastify.authenticate, requireCompanyAccess()] }, async (req, reply) => {
+        try {
+            const { companyId } = req.params as { companyId: string };
+            const series = await numberingService.listSeries(companyId);
+            const data = await Promise.all(series.map(async s => ({
+                ...s,
+                nextNumber: await numberingService.previewNextNumber(companyId, s.voucherType)
+            })));
+            return reply.send({ 
+                status: 'success', 
+                data 
+            });
+        } catch (error: any) {
+            return reply.code(500).send({ 
+                status: 'error', 
+                message: error.message || "Failed to fetch number series" 
+            });
+        }
+    });
+
+    // Update document numbering series for a voucher type
+    fastify.put("/:companyId/number-series/:voucherType", { preHandler: [fastify.authenticate, requireCompanyAccess()] }, async (req, reply) => {
+        try {
+            const paramsSchema = z.object({
+                companyId: z.string(),
+                voucherType: z.enum(VoucherTypeEnum.enumValues)
+            });
+            const updateSchema = z.object({
+                prefix: z.string().max(32).optional(),
+                suffix: z.string().max(32).optional(),
+                padding: z.number().int().min(1).max(10).optional(),
+                startNumber: z.number().int().min(1).optional(),
+                resetYearly: z.boolean().optional()
+            });
+            
+            const { companyId, voucherType } = paramsSchema.parse(req.params);
+            const data = updateSchema.parse(req.body);
+            const updated = await numberingService.updateSeries(companyId, voucherType, data, (req.user as any).id);
+            return reply.send({ 
+                status: 'success', 
+                data: {
+                    ...updated,
+                    nextNumber: await numberingService.previewNextNumber(companyId, voucherType)
+                },
+                message: 'Number series updated successfully'
+            });
+        } catch (error: any) {
+            return reply.code(400).send({ 
+                status: 'error', 
+                message: error.message || "Failed to update number series" 
+            });
+        }
+    });
 }
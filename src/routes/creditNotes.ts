@@ -0,0 +1,137 @@
+import { FastifyInstance } from "fastify";
+import { db } from "../db/drizzle";
+import { creditNotes, NoteTypeEnum } from "../db/schema";
+import { eq, and, gte, lte, desc, count } from "drizzle-orm";
+import { z } from "zod";
+import { creditNoteService } from "../services/creditNoteService";
+
+export default async function (fastify: FastifyInstance) {
+    // Get credit and debit notes with filters and pagination
+    fastify.get("/", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const querySchema = z.object({
+                page: z.string().optional().transform(val => val ? parseInt(val) : 1),
+                limit: z.string().optional().transform(val => val ? parseInt(val) : 10),
+                noteType: z.enum(NoteTypeEnum.enumValues).optional(),
+                billId: z.string().optional(),
+                customerId: z.string().optional(),
+                startDate: z.string().optional(),
+                endDate: z.string().optional(),
+                companyId: z.string().optional()
+            });
+
+            const params = querySchema.parse(req.query);
+            const offset = (params.page - 1) * params.limit;
+
+            let whereConditions = [];
+            if (params.companyId) whereConditions.push(eq(creditNotes.companyId, params.companyId));
+            if (params.noteType) whereConditions.push(eq(creditNotes.noteType, params.noteType));
+            if (params.billId) whereConditions.push(eq(creditNotes.billId, params.billId));
+            if (params.customerId) whereConditions.push(eq(creditNotes.customerId, params.customerId));
+            if (params.startDate) whereConditions.push(gte(creditNotes.date, new Date(params.startDate)));
+            if (params.endDate) whereConditions.push(lte(creditNotes.date, new Date(params.endDate)));
+
+            const whereClause = whereConditions.length > 0 ? and(...whereConditions) : undefined;
+
+            const [notesResult, totalResult] = await Promise.all([
+                db.select().from(creditNotes)
+                    .where(whereClause)
+                    .orderBy(desc(creditNotes.date))
+                    .limit(params.limit)
+                    .offset(offset),
+                db.select({ count: count() }).from(creditNotes).where(whereClause)
+            ]);
+
+            const total = totalResult[0].count;
+            const totalPages = Math.ceil(total / params.limit);
+
+            return reply.send({
+                status: 'success',
+                data: {
+                    notes: notesResult,
+                    total,
+                    page: params.page,
+                    totalPages
+                }
+            });
+        } catch (error: any) {
+            return reply.code(500).send({
+                status: 'error',
+                message: error.message || "Failed to fetch notes"
+            });
+        }
+    });
+
+    // Get note by ID
+    fastify.get("/:id", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const [note] = await db.select().from(creditNotes).where(eq(creditNotes.id, id)).limit(1);
+
+            if (!note) {
+                return reply.code(404).send({
+                    status: 'error',
+                    message: "Note not found"
+                });
+            }
+
+            return reply.send({
+                status: 'success',
+                data: note
+            });
+        } catch (error: any) {
+            return reply.code(500).send({
+                status: 'error',
+                message: error.message || "Failed to fetch note"
+            });
+        }
+    });
+
+    // Issue a credit or debit note against a bill
+    fastify.post("/", { preHandler: [fastify.authenticate, fastify.idempotent] }, async (req, reply) => {
+        try {
+            const createNoteSchema = z.object({
+                billId: z.string(),
+                noteType: z.enum(NoteTypeEnum.enumValues),
+                date: z.string().optional(),
+                reason: z.string().min(1).max(255),
+                notes: z.string().optional(),
+                fullReturn: z.boolean().optional(),
+                returnItems: z.array(z.object({
+                    lineIndex: z.number().int().min(0),
+                    quantity: z.number().positive(),
+                    // The units returned of a line with serial numbers; all that are left when the rest comes back
+                    serialNumbers: z.array(z.string().trim().min(1).max(64)).optional()
+                })).optional(),
+                items: z.array(z.object({
+                    name: z.string(),
+                    description: z.string().optional(),
+                    quantity: z.number().positive(),
+                    rate: z.number().min(0),
+                    unit: z.string().optional(),
+                    taxRate: z.number().min(0),
+                    cessRate: z.number().min(0).optional(),
+                    hsnCode: z.string().optional()
+                })).optional(),
+                restock: z.boolean().optional()
+            });
+
+            const data = createNoteSchema.parse(req.body);
+            const note = await creditNoteService.createNote({
+                ...data,
+                date: data.date ? new Date(data.date) : new Date()
+            }, (req.user as any).id);
+
+            return reply.code(201).send({
+                status: 'success',
+                data: note,
+                message: `${data.noteType === 'credit' ? 'Credit' : 'Debit'} note issued successfully`
+            });
+        } catch (error: any) {
+            return reply.code(error.message === 'Bill not found' ? 404 : 400).send({
+                status: 'error',
+                message: error.message || "Failed to issue note"
+            });
+        }
+    });
+}
@@ -1,25 +1,29 @@
 import { FastifyInstance } from "fastify";
 import { db } from "../db/drizzle";
-import { customers, insertCustomerSchema, selectCustomerSchema, bills, payments } from "../db/schema";
+import { customers, SelectCustomer, insertCustomerSchema, selectCustomerSchema, bills, payments } from "../db/schema";
 import { eq, and, gte, lte, like, desc, asc, count, sum, sql } from "drizzle-orm";
 import { z } from "zod";
+import { pageQuery, paginationQuery, SortField } from "../utils/pagination";
+
+const CUSTOMER_SORT_FIELDS: Record<'name' | 'totalAmount' | 'lastTransactionDate' | 'createdAt', SortField<SelectCustomer>> = {
+    name: { column: customers.name, value: customer => customer.name },
+    totalAmount: { column: customers.totalAmount, value: customer => customer.totalAmount },
+    lastTransactionDate: { column: customers.lastTransactionDate, value: customer => customer.lastTransactionDate },
+    createdAt: { column: customers.createdAt, value: customer => customer.createdAt },
+};
 
 export default async function (fastify: FastifyInstance) {
-    // Get all customers with pagination and filters
+    // Get all customers with filters, sorting and cursor pagination
     fastify.get("/", { preHandler: [fastify.authenticate] }, async (req, reply) => {
         try {
             const querySchema = z.object({
-                page: z.string().optional().transform(val => val ? parseInt(val) : 1),
-                limit: z.string().optional().transform(val => val ? parseInt(val) : 10),
+                ...paginationQuery(CUSTOMER_SORT_FIELDS, 'name', 'asc'),
                 search: z.string().optional(),
                 isActive: z.string().optional().transform(val => val === 'true'),
-                sortBy: z.enum(['name', 'totalAmount', 'lastTransactionDate']).optional().default('name'),
-                sortOrder: z.enum(['asc', 'desc']).optional().default('asc'),
                 companyId: z.string().optional()
             });
             
             const params = querySchema.parse(req.query);
-            const offset = (params.page - 1) * params.limit;
             
             let whereConditions = [];
             if (params.companyId) whereConditions.push(eq(customers.companyId, params.companyId));
@@ -32,36 +36,32 @@ export default async function (fastify: FastifyInstance) {
             
             const whereClause = whereConditions.length > 0 ? and(...whereConditions) : undefined;
             
-            // Determine sort column
-            let sortColumn: any = customers.name;
-            if (params.sortBy === 'totalAmount') sortColumn = customers.totalAmount;
-            if (params.sortBy === 'lastTransactionDate') sortColumn = customers.lastTransactionDate;
-            
-            const sortOrder = params.sortOrder === 'desc' ? desc(sortColumn) : asc(sortColumn);
+            const page = pageQuery(CUSTOMER_SORT_FIELDS, customers.id, params);
             
-            const [customersResult, totalResult] = await Promise.all([
+            const [customersResult, total] = await Promise.all([
                 db.select().from(customers)
-                    .where(whereClause)
-                    .orderBy(sortOrder)
-                    .limit(params.limit)
-                    .offset(offset),
-                db.select({ count: count() }).from(customers).where(whereClause)
+                    .where(and(whereClause, page.where))
+                    .orderBy(...page.orderBy)
+                    .limit(page.limit)
+                    .offset(page.offset),
+                params.includeTotal || params.page
+                    ? db.select({ count: count() }).from(customers).where(whereClause).then(r => r[0].count)
+                    : undefined
             ]);
-            
-            const total = totalResult[0].count;
-            const totalPages = Math.ceil(total / params.limit);
+            const { items, nextCursor, hasMore } = page.page(customersResult);
             
             return reply.send({
                 status: 'success',
                 data: {
-                    customers: customersResult,
-                    total,
-                    page: params.page,
-                    totalPages
+                    customers: items,
+                    nextCursor,
+                    hasMore,
+                    ...(total !== undefined && { total }),
+                    ...(params.page && { page: params.page, totalPages: Math.ceil(total! / page.size) })
                 }
             });
         } catch (error: any) {
-            return reply.code(500).send({ 
+            return reply.code(error.message === 'Invalid cursor' ? 400 : 500).send({ 
                 status: 'error', 
                 message: error.message || "Failed to fetch customers" 
             });
@@ -69,7 +69,7 @@ export default async function (fastify: FastifyInstance) {
     });
 
     // Create customer
-    fastify.post("/", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+    fastify.post("/", { preHandler: [fastify.authenticate, fastify.idempotent] }, async (req, reply) => {
         try {
             const createCustomerSchema = z.object({
                 name: z.string(),
@@ -203,6 +203,7 @@ export default async function (fastify: FastifyInstance) {
                     type: sql`'bill'`,
                     date: bills.date,
                     amount: bills.totalAmount,
+                    currency: bills.currency,
                     status: bills.status,
                     description: sql`CONCAT('Bill #', ${bills.billNumber})`
                 }).from(bills)
@@ -263,9 +264,9 @@ export default async function (fastify: FastifyInstance) {
             const transactions = await db.select({
                 date: bills.date,
                 description: sql`CONCAT('Bill #', ${bills.billNumber})`,
-                debit: bills.totalAmount,
+                debit: bills.baseTotalAmount,
                 credit: sql`0`,
-                balance: bills.totalAmount
+                balance: bills.baseTotalAmount
             }).from(bills)
                 .where(whereClause)
                 .orderBy(asc(bills.date));
@@ -376,7 +377,7 @@ export default async function (fastify: FastifyInstance) {
     });
 
     // Bulk import customers
-    fastify.post("/bulk-import", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+    fastify.post("/bulk-import", { preHandler: [fastify.authenticate, fastify.idempotent] }, async (req, reply) => {
         try {
             // This would handle file upload and CSV/Excel parsing
             // For now, return a placeholder response
@@ -0,0 +1,279 @@
+import { FastifyInstance } from "fastify";
+import { db } from "../db/drizzle";
+import { CHALLAN_STATUSES, ChallanReasonEnum, deliveryChallans } from "../db/schema";
+import { eq, and, gte, lte, desc, count, sql } from "drizzle-orm";
+import { z } from "zod";
+import { deliveryChallanService } from "../services/deliveryChallanService";
+
+const itemSchema = z.object({
+    name: z.string(),
+    description: z.string().optional(),
+    quantity: z.number().positive(),
+    unit: z.string().optional(),
+    rate: z.number().min(0),
+    taxRate: z.number().min(0),
+    cessRate: z.number().min(0).optional(),
+    hsnCode: z.string().optional(),
+    productId: z.string().optional(),
+    batchId: z.string().optional()
+});
+
+const transportSchema = {
+    transporterName: z.string().max(128).optional(),
+    transporterId: z.string().regex(/^[0-9A-Z]{15}$/, 'transporterId must be a 15-character GSTIN or TRANSIN').optional(),
+    transportMode: z.enum(['road', 'rail', 'air', 'ship']).optional(),
+    vehicleNumber: z.string().max(16).transform(val => val.replace(/[\s-]/g, '').toUpperCase()).optional(),
+    transportDocNumber: z.string().max(32).optional(),
+    transportDocDate: z.string().optional()
+};
+
+function errorCode(error: any): number {
+    return error.message === 'Delivery challan not found' ? 404 : 400;
+}
+
+export default async function (fastify: FastifyInstance) {
+    // Get all delivery challans with filters and pagination
+    fastify.get("/", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const querySchema = z.object({
+                page: z.string().optional().transform(val => val ? parseInt(val) : 1),
+                limit: z.string().optional().transform(val => val ? parseInt(val) : 10),
+                status: z.enum(CHALLAN_STATUSES).optional(),
+                reason: z.enum(ChallanReasonEnum.enumValues).optional(),
+                customerId: z.string().optional(),
+                startDate: z.string().optional(),
+                endDate: z.string().optional(),
+                search: z.string().optional(),
+                companyId: z.string().optional()
+            });
+
+            const params = querySchema.parse(req.query);
+            const offset = (params.page - 1) * params.limit;
+
+            let whereConditions = [];
+            if (params.companyId) whereConditions.push(eq(deliveryChallans.companyId, params.companyId));
+            if (params.status) whereConditions.push(eq(deliveryChallans.status, params.status));
+            if (params.reason) whereConditions.push(eq(deliveryChallans.reason, params.reason));
+            if (params.customerId) whereConditions.push(eq(deliveryChallans.customerId, params.customerId));
+            if (params.startDate) whereConditions.push(gte(deliveryChallans.date, new Date(params.startDate)));
+            if (params.endDate) whereConditions.push(lte(deliveryChallans.date, new Date(params.endDate)));
+            if (params.search) {
+                whereConditions.push(
+                    sql`(${deliveryChallans.challanNumber} ILIKE ${`%${params.search}%`} OR ${deliveryChallans.customerName} ILIKE ${`%${params.search}%`} OR ${deliveryChallans.vehicleNumber} ILIKE ${`%${params.search}%`})`
+                );
+            }
+
+            const whereClause = whereConditions.length > 0 ? and(...whereConditions) : undefined;
+
+            const [challansResult, totalResult] = await Promise.all([
+                db.select().from(deliveryChallans)
+                    .where(whereClause)
+                    .orderBy(desc(deliveryChallans.createdAt))
+                    .limit(params.limit)
+                    .offset(offset),
+                db.select({ count: count() }).from(deliveryChallans).where(whereClause)
+            ]);
+
+            const total = totalResult[0].count;
+            const totalPages = Math.ceil(total / params.limit);
+
+            return reply.send({
+                status: 'success',
+                data: {
+                    challans: challansResult,
+                    total,
+                    page: params.page,
+                    totalPages
+                }
+            });
+        } catch (error: any) {
+            return reply.code(500).send({
+                status: 'error',
+                message: error.message || "Failed to fetch delivery challans"
+            });
+        }
+    });
+
+    // Create a draft delivery challan
+    fastify.post("/", { preHandler: [fastify.authenticate, fastify.idempotent] }, async (req, reply) => {
+        try {
+            const createChallanSchema = z.object({
+                customerId: z.string(),
+                customerName: z.string(),
+                customerGstin: z.string().optional(),
+                customerAddress: z.string().optional(),
+                date: z.string(),
+                reason: z.enum(ChallanReasonEnum.enumValues),
+                items: z.array(itemSchema).min(1),
+                placeOfSupply: z.string().regex(/^\d{2}$/, 'placeOfSupply must be a 2-digit state code').optional(),
+                ...transportSchema,
+                notes: z.string().optional(),
+                companyId: z.string()
+            });
+
+            const data = createChallanSchema.parse(req.body);
+            const inserted = await deliveryChallanService.createChallan({
+                ...data,
+                date: new Date(data.date),
+                transportDocDate: data.transportDocDate ? new Date(data.transportDocDate) : undefined
+            }, (req.user as any).id);
+
+            return reply.code(201).send({
+                status: 'success',
+                data: inserted,
+                message: 'Delivery challan created successfully'
+            });
+        } catch (error: any) {
+            return reply.code(400).send({
+                status: 'error',
+                message: error.message || "Failed to create delivery challan"
+            });
+        }
+    });
+
+    // Raise one draft bill for one or more issued challans of a customer
+    fastify.post("/convert", { preHandler: [fastify.authenticate, fastify.idempotent] }, async (req, reply) => {
+        try {
+            const convertSchema = z.object({
+                challanIds: z.array(z.string()).min(1),
+                date: z.string().optional(),
+                dueDate: z.string().optional(),
+                lines: z.array(z.object({
+                    challanId: z.string(),
+                    line: z.number().int().min(0),
+                    quantity: z.number().positive()
+                })).min(1).optional()
+            });
+
+            const data = convertSchema.parse(req.body);
+            const bill = await deliveryChallanService.convertToBill(data.challanIds, {
+                date: data.date ? new Date(data.date) : undefined,
+                dueDate: data.dueDate ? new Date(data.dueDate) : undefined,
+                lines: data.lines
+            }, (req.user as any).id);
+
+            return reply.code(201).send({
+                status: 'success',
+                data: bill,
+                message: 'Delivery challans converted into a draft bill'
+            });
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to convert delivery challans"
+            });
+        }
+    });
+
+    // Get a delivery challan with delivered vs invoiced quantities and its bills
+    fastify.get("/:id", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const challan = await deliveryChallanService.getChallan(id);
+
+            return reply.send({
+                status: 'success',
+                data: {
+                    ...challan,
+                    lines: await deliveryChallanService.lineQuantities(challan),
+                    bills: await deliveryChallanService.listBills(id)
+                }
+            });
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to fetch delivery challan"
+            });
+        }
+    });
+
+    // Update a draft delivery challan
+    fastify.put("/:id", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const updateChallanSchema = z.object({
+                customerName: z.string().optional(),
+                customerGstin: z.string().optional(),
+                customerAddress: z.string().optional(),
+                date: z.string().optional(),
+                reason: z.enum(ChallanReasonEnum.enumValues).optional(),
+                items: z.array(itemSchema).min(1).optional(),
+                placeOfSupply: z.string().regex(/^\d{2}$/, 'placeOfSupply must be a 2-digit state code').optional(),
+                ...transportSchema,
+                notes: z.string().optional()
+            });
+
+            const data = updateChallanSchema.parse(req.body);
+            const updated = await deliveryChallanService.updateChallan(id, {
+                ...data,
+                date: data.date ? new Date(data.date) : undefined,
+                transportDocDate: data.transportDocDate ? new Date(data.transportDocDate) : undefined
+            }, (req.user as any).id);
+
+            return reply.send({
+                status: 'success',
+                data: updated,
+                message: 'Delivery challan updated successfully'
+            });
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to update delivery challan"
+            });
+        }
+    });
+
+    // Delete a draft delivery challan; issued challans are cancelled instead
+    fastify.delete("/:id", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            await deliveryChallanService.deleteChallan(id);
+            return reply.send({
+                status: 'success',
+                message: 'Delivery challan deleted successfully'
+            });
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to delete delivery challan"
+            });
+        }
+    });
+
+    // Issue the challan: the goods leave and stock moves out
+    fastify.post("/:id/issue", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const issued = await deliveryChallanService.issue(id, (req.user as any).id);
+            return reply.send({
+                status: 'success',
+                data: issued,
+                message: 'Delivery challan issued'
+            });
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to issue delivery challan"
+            });
+        }
+    });
+
+    // Cancel the challan; issued goods come back into stock
+    fastify.post("/:id/cancel", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const { reason } = z.object({ reason: z.string().min(1) }).parse(req.body ?? {});
+            const cancelled = await deliveryChallanService.cancel(id, reason, (req.user as any).id);
+            return reply.send({
+                status: 'success',
+                data: cancelled,
+                message: 'Delivery challan cancelled'
+            });
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to cancel delivery challan"
+            });
+        }
+    });
+}
@@ -0,0 +1,322 @@
+import { FastifyInstance } from "fastify";
+import { db } from "../db/drizzle";
+import { bills, estimates } from "../db/schema";
+import { eq, and, gte, lte, desc, count, sql } from "drizzle-orm";
+import { z } from "zod";
+import { estimateService } from "../services/estimateService";
+
+const itemSchema = z.object({
+    name: z.string(),
+    description: z.string().optional(),
+    quantity: z.number().positive(),
+    rate: z.number().min(0),
+    unit: z.string().optional(),
+    discount: z.number().min(0).optional(),
+    discountType: z.enum(['percentage', 'amount']).optional(),
+    taxRate: z.number().min(0),
+    cessRate: z.number().min(0).optional(),
+    hsnCode: z.string().optional(),
+    productId: z.string().optional(),
+    amount: z.number().optional(),
+    taxAmount: z.number().optional(),
+    total: z.number().optional()
+});
+
+const chargeSchema = z.object({
+    name: z.string().min(1).max(64),
+    hsnCode: z.string().optional(),
+    amount: z.number().min(0),
+    taxRate: z.number().min(0)
+});
+
+function errorCode(error: any): number {
+    return error.message === 'Estimate not found' ? 404 : 400;
+}
+
+export default async function (fastify: FastifyInstance) {
+    // Get all estimates with filters and pagination
+    fastify.get("/", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const querySchema = z.object({
+                page: z.string().optional().transform(val => val ? parseInt(val) : 1),
+                limit: z.string().optional().transform(val => val ? parseInt(val) : 10),
+                status: z.string().optional(),
+                customerId: z.string().optional(),
+                startDate: z.string().optional(),
+                endDate: z.string().optional(),
+                search: z.string().optional(),
+                companyId: z.string().optional()
+            });
+
+            const params = querySchema.parse(req.query);
+            const offset = (params.page - 1) * params.limit;
+
+            let whereConditions = [];
+            if (params.companyId) whereConditions.push(eq(estimates.companyId, params.companyId));
+            if (params.status) whereConditions.push(eq(estimates.status, params.status));
+            if (params.customerId) whereConditions.push(eq(estimates.customerId, params.customerId));
+            if (params.startDate) whereConditions.push(gte(estimates.date, new Date(params.startDate)));
+            if (params.endDate) whereConditions.push(lte(estimates.date, new Date(params.endDate)));
+            if (params.search) {
+                whereConditions.push(
+                    sql`(${estimates.estimateNumber} ILIKE ${`%${params.search}%`} OR ${estimates.customerName} ILIKE ${`%${params.search}%`})`
+                );
+            }
+
+            const whereClause = whereConditions.length > 0 ? and(...whereConditions) : undefined;
+
+            const [estimatesResult, totalResult] = await Promise.all([
+                db.select().from(estimates)
+                    .where(whereClause)
+                    .orderBy(desc(estimates.createdAt))
+                    .limit(params.limit)
+                    .offset(offset),
+                db.select({ count: count() }).from(estimates).where(whereClause)
+            ]);
+
+            const total = totalResult[0].count;
+            const totalPages = Math.ceil(total / params.limit);
+
+            return reply.send({
+                status: 'success',
+                data: {
+                    estimates: estimatesResult.map(e => ({ ...e, isExpired: estimateService.isExpired(e) })),
+                    total,
+                    page: params.page,
+                    totalPages
+                }
+            });
+        } catch (error: any) {
+            return reply.code(500).send({
+                status: 'error',
+                message: error.message || "Failed to fetch estimates"
+            });
+        }
+    });
+
+    // Create estimate
+    fastify.post("/", { preHandler: [fastify.authenticate, fastify.idempotent] }, async (req, reply) => {
+        try {
+            const createEstimateSchema = z.object({
+                customerId: z.string(),
+                customerName: z.string(),
+                customerGstin: z.string().optional(),
+                customerAddress: z.string().optional(),
+                customerPhone: z.string().optional(),
+                customerEmail: z.string().optional(),
+                date: z.string(),
+                validUntil: z.string(),
+                items: z.array(itemSchema).min(1),
+                placeOfSupply: z.string().regex(/^\d{2}$/, 'placeOfSupply must be a 2-digit state code').optional(),
+                notes: z.string().optional(),
+                terms: z.string().optional(),
+                discount: z.number().optional(),
+                discountType: z.enum(['percentage', 'amount']).optional(),
+                charges: z.array(chargeSchema).max(10).optional(),
+                roundOff: z.number().min(-1).max(1).nullable().optional(),
+                companyId: z.string()
+            });
+
+            const data = createEstimateSchema.parse(req.body);
+            if (new Date(data.validUntil) < new Date(data.date)) {
+                throw new Error('validUntil cannot be before the estimate date');
+            }
+
+            const inserted = await estimateService.createEstimate({
+                ...data,
+                date: new Date(data.date),
+                validUntil: new Date(data.validUntil)
+            }, (req.user as any).id);
+
+            return reply.code(201).send({
+                status: 'success',
+                data: inserted,
+                message: 'Estimate created successfully'
+            });
+        } catch (error: any) {
+            return reply.code(400).send({
+                status: 'error',
+                message: error.message || "Failed to create estimate"
+            });
+        }
+    });
+
+    // Get estimate by id, with the bill it was converted into
+    fastify.get("/:id", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const estimate = await db.select().from(estimates).where(eq(estimates.id, id)).then(r => r[0]);
+            if (!estimate) {
+                return reply.code(404).send({
+                    status: 'error',
+                    message: "Estimate not found"
+                });
+            }
+
+            const convertedBill = await db.select({ id: bills.id, billNumber: bills.billNumber, status: bills.status })
+                .from(bills)
+                .where(eq(bills.estimateId, id))
+                .then(r => r[0]);
+
+            return reply.send({
+                status: 'success',
+                data: { ...estimate, isExpired: estimateService.isExpired(estimate), convertedBill: convertedBill || null }
+            });
+        } catch (error: any) {
+            return reply.code(400).send({
+                status: 'error',
+                message: error.message || "Failed to fetch estimate"
+            });
+        }
+    });
+
+    // Update a draft or sent estimate
+    fastify.put("/:id", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const updateEstimateSchema = z.object({
+                customerName: z.string().optional(),
+                customerGstin: z.string().optional(),
+                customerAddress: z.string().optional(),
+                customerPhone: z.string().optional(),
+                customerEmail: z.string().optional(),
+                date: z.string().optional(),
+                validUntil: z.string().optional(),
+                items: z.array(itemSchema).min(1).optional(),
+                placeOfSupply: z.string().regex(/^\d{2}$/, 'placeOfSupply must be a 2-digit state code').optional(),
+                notes: z.string().optional(),
+                terms: z.string().optional(),
+                discount: z.number().optional(),
+                discountType: z.enum(['percentage', 'amount']).optional(),
+                charges: z.array(chargeSchema).max(10).optional(),
+                roundOff: z.number().min(-1).max(1).nullable().optional()
+            });
+
+            const data = updateEstimateSchema.parse(req.body);
+            const updated = await estimateService.updateEstimate(id, {
+                ...data,
+                date: data.date ? new Date(data.date) : undefined,
+                validUntil: data.validUntil ? new Date(data.validUntil) : undefined
+            }, (req.user as any).id);
+
+            return reply.send({
+                status: 'success',
+                data: updated,
+                message: 'Estimate updated successfully'
+            });
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to update estimate"
+            });
+        }
+    });
+
+    // Delete estimate
+    fastify.delete("/:id", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const [estimate] = await db.select().from(estimates).where(eq(estimates.id, id)).limit(1);
+            if (estimate?.status === 'converted') {
+                return reply.code(400).send({
+                    status: 'error',
+                    message: "A converted estimate cannot be deleted"
+                });
+            }
+
+            await db.delete(estimates).where(eq(estimates.id, id));
+            return reply.send({
+                status: 'success',
+                message: 'Estimate deleted successfully'
+            });
+        } catch (error: any) {
+            return reply.code(400).send({
+                status: 'error',
+                message: error.message || "Failed to delete estimate"
+            });
+        }
+    });
+
+    // Mark estimate as sent to the customer
+    fastify.post("/:id/send", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const updated = await estimateService.markSent(id, (req.user as any).id);
+            return reply.send({
+                status: 'success',
+                data: updated,
+                message: 'Estimate marked as sent'
+            });
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to send estimate"
+            });
+        }
+    });
+
+    // Record customer acceptance
+    fastify.post("/:id/accept", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const updated = await estimateService.accept(id, (req.user as any).id);
+            return reply.send({
+                status: 'success',
+                data: updated,
+                message: 'Estimate accepted'
+            });
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to accept estimate"
+            });
+        }
+    });
+
+    // Record customer rejection
+    fastify.post("/:id/reject", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const { reason } = z.object({ reason: z.string().optional() }).parse(req.body ?? {});
+            const updated = await estimateService.reject(id, reason, (req.user as any).id);
+            return reply.send({
+                status: 'success',
+                data: updated,
+                message: 'Estimate rejected'
+            });
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to reject estimate"
+            });
+        }
+    });
+
+    // Convert estimate into a draft bill
+    fastify.post("/:id/convert", { preHandler: [fastify.authenticate, fastify.idempotent] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const convertSchema = z.object({
+                date: z.string().optional(),
+                dueDate: z.string().optional()
+            });
+
+            const data = convertSchema.parse(req.body ?? {});
+            const bill = await estimateService.convertToBill(id, {
+                date: data.date ? new Date(data.date) : undefined,
+                dueDate: data.dueDate ? new Date(data.dueDate) : undefined
+            }, (req.user as any).id);
+
+            return reply.code(201).send({
+                status: 'success',
+                data: bill,
+                message: 'Estimate converted into a draft bill'
+            });
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to convert estimate"
+            });
+        }
+    });
+}
@@ -1,8 +1,36 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 import { db } from "../db/drizzle";
-import { gstTransactions, insertGstTransactionSchema, selectGstTransactionSchema, bills } from "../db/schema";
+import { gstTransactions, insertGstTransactionSchema, selectGstTransactionSchema, bills, creditNotes, BillItem, ExportType } from "../db/schema";
 import { eq, and, gte, lte, desc, count, sum, sql } from "drizzle-orm";
 import { z } from "zod";
+import { gstPostingService } from "../services/gstPostingService";
+import { roundCurrency } from "../utils/gst";
+import { requireCompanyAccess } from "../plugins/roleGuard";
+
+const POSTED_ENTRY_MESSAGE = "This entry is posted from a bill; edit, cancel or credit the bill instead";
+
+// Invoice entries of bills are maintained by gstPostingService and not edited by hand
+const isPostedFromBill = (entry: { billId: string | null; documentType: string }) =>
+    Boolean(entry.billId) && entry.documentType === 'invoice';
+
+// GSTR-1 codes for export invoices: IGST paid, or zero-rated under LUT or bond
+const EXPORT_TYPE_CODES: Record<ExportType, 'WPAY' | 'WOPAY'> = {
+    with_payment: 'WPAY',
+    without_payment: 'WOPAY'
+};
+
+// Taxable value and IGST of an entry's items per tax rate, as GSTR-1 reports export invoices
+function ratewiseTotals(items: unknown): { rate: number; taxableValue: number; igst: number }[] {
+    const totals = new Map<number, { rate: number; taxableValue: number; igst: number }>();
+    for (const item of (items as BillItem[] | null) ?? []) {
+        const rate = Number(item.taxRate) || 0;
+        const entry = totals.get(rate) ?? { rate, taxableValue: 0, igst: 0 };
+        entry.taxableValue = roundCurrency(entry.taxableValue + (Number(item.amount) || 0));
+        entry.igst = roundCurrency(entry.igst + (Number(item.taxAmount) || 0));
+        totals.set(rate, entry);
+    }
+    return [...totals.values()].sort((a, b) => a.rate - b.rate);
+}
 
 export default async function (fastify: FastifyInstance) {
     // Get GST transactions with pagination and filters
@@ -89,9 +117,15 @@ export default async function (fastify: FastifyInstance) {
     });
 
     // Create GST transaction
-    fastify.post("/transactions", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+    fastify.post("/transactions", { preHandler: [fastify.authenticate, fastify.idempotent] }, async (req, reply) => {
         try {
             const data = insertGstTransactionSchema.parse(req.body);
+            if (isPostedFromBill({ billId: data.billId ?? null, documentType: data.documentType ?? 'invoice' })) {
+                return reply.code(400).send({
+                    status: 'error',
+                    message: "Invoice entries are posted automatically when the bill is finalized"
+                });
+            }
             const inserted = await db.insert(gstTransactions).values(data).returning().then(r => r[0]);
             return reply.code(201).send({
                 status: 'success',
@@ -111,6 +145,19 @@ export default async function (fastify: FastifyInstance) {
         try {
             const { id } = req.params as { id: string };
             const data = selectGstTransactionSchema.partial().parse(req.body);
+            const existing = await db.select().from(gstTransactions).where(eq(gstTransactions.id, id)).then(r => r[0]);
+            if (!existing) {
+                return reply.code(404).send({
+                    status: 'error',
+                    message: "GST transaction not found"
+                });
+            }
+            if (isPostedFromBill(existing) || isPostedFromBill({ billId: data.billId ?? existing.billId, documentType: data.documentType ?? existing.documentType })) {
+                return reply.code(400).send({
+                    status: 'error',
+                    message: POSTED_ENTRY_MESSAGE
+                });
+            }
             const updated = await db.update(gstTransactions).set(data).where(eq(gstTransactions.id, id)).returning().then(r => r[0]);
             if (!updated) {
                 return reply.code(404).send({
@@ -135,6 +182,13 @@ export default async function (fastify: FastifyInstance) {
     fastify.delete("/transactions/:id", { preHandler: [fastify.authenticate] }, async (req, reply) => {
         try {
             const { id } = req.params as { id: string };
+            const existing = await db.select().from(gstTransactions).where(eq(gstTransactions.id, id)).then(r => r[0]);
+            if (existing && isPostedFromBill(existing)) {
+                return reply.code(400).send({
+                    status: 'error',
+                    message: POSTED_ENTRY_MESSAGE
+                });
+            }
             await db.delete(gstTransactions).where(eq(gstTransactions.id, id));
             return reply.send({
                 status: 'success',
@@ -148,6 +202,24 @@ export default async function (fastify: FastifyInstance) {
         }
     });
 
+    // Re-post the invoice entries of all of a company's issued bills, e.g. bills finalized before automatic posting
+    fastify.post("/transactions/repost-bills", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { companyId } = z.object({ companyId: z.string().uuid() }).parse(req.body);
+            const result = await gstPostingService.repostCompany(companyId);
+            return reply.send({
+                status: 'success',
+                data: result,
+                message: `Posted ${result.posted} invoices to the GST ledger`
+            });
+        } catch (error: any) {
+            return reply.code(400).send({
+                status: 'error',
+                message: error.message || "Failed to re-post bills"
+            });
+        }
+    });
+
     // Get GST summary
     fastify.get("/summary", { preHandler: [fastify.authenticate] }, async (req, reply) => {
         try {
@@ -201,37 +273,90 @@ export default async function (fastify: FastifyInstance) {
     });
 
     // Get GSTR-1 data
-    fastify.get("/gstr1/:period", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+    fastify.get("/gstr1/:period", { preHandler: [fastify.authenticate, requireCompanyAccess()] }, async (req, reply) => {
         try {
             const { period } = req.params as { period: string };
+            const { companyId } = z.object({ companyId: z.string().uuid() }).parse(req.query);
             
             // Parse period (YYYY-MM format)
             const [year, month] = period.split('-');
             const startDate = new Date(parseInt(year), parseInt(month) - 1, 1);
             const endDate = new Date(parseInt(year), parseInt(month), 0);
             
-            const salesData = await db.select()
+            const salesData = await db.select({
+                    transaction: gstTransactions,
+                    noteNumber: creditNotes.noteNumber,
+                    originalInvoiceNumber: bills.billNumber,
+                    originalInvoiceDate: bills.date,
+                    exportType: bills.exportType,
+                    portCode: bills.portCode,
+                    shippingBillNumber: bills.shippingBillNumber,
+                    shippingBillDate: bills.shippingBillDate
+                })
                 .from(gstTransactions)
+                .leftJoin(creditNotes, eq(gstTransactions.creditNoteId, creditNotes.id))
+                .leftJoin(bills, eq(gstTransactions.billId, bills.id))
                 .where(and(
+                    eq(gstTransactions.companyId, companyId),
                     eq(gstTransactions.type, 'sale'),
                     gte(gstTransactions.date, startDate),
                     lte(gstTransactions.date, endDate)
                 ));
             
-            // Group data for GSTR-1 format
-            const b2bData = salesData.filter(t => t.partyGstin);
-            const b2cData = salesData.filter(t => !t.partyGstin);
+            // Group data for GSTR-1 format; export invoices are reported under EXP only
+            const invoiceRows = salesData.filter(r => r.transaction.documentType === 'invoice');
+            const invoices = invoiceRows.filter(r => !r.exportType).map(r => r.transaction);
+            const b2bData = invoices.filter(t => t.partyGstin);
+            const b2cData = invoices.filter(t => !t.partyGstin);
+            
+            // Credit notes are stored with negative amounts; GSTR-1 reports note values as positive
+            const noteData = salesData
+                .filter(r => r.transaction.documentType !== 'invoice')
+                .map(r => ({
+                    ...r.transaction,
+                    noteType: r.transaction.documentType === 'credit_note' ? 'C' : 'D',
+                    exportType: r.exportType ? EXPORT_TYPE_CODES[r.exportType] : undefined,
+                    noteNumber: r.noteNumber,
+                    originalInvoiceNumber: r.originalInvoiceNumber,
+                    originalInvoiceDate: r.originalInvoiceDate,
+                    taxableAmount: Math.abs(Number(r.transaction.taxableAmount)).toString(),
+                    totalTax: Math.abs(Number(r.transaction.totalTax)).toString(),
+                    cgst: Math.abs(Number(r.transaction.cgst)).toString(),
+                    sgst: Math.abs(Number(r.transaction.sgst)).toString(),
+                    igst: Math.abs(Number(r.transaction.igst)).toString(),
+                    total: Math.abs(Number(r.transaction.total)).toString()
+                }));
             
             const gstr1Data = {
                 period,
                 gstin: "COMPANY_GSTIN", // Would come from company data
                 b2b: b2bData,
                 b2cl: b2cData.filter(t => Number(t.total) > 250000),
-                b2cs: b2cData.filter(t => Number(t.total) <= 250000),
+                // Intra-state notes to unregistered buyers are netted into B2CS rather than reported as CDNUR
+                b2cs: [
+                    ...b2cData.filter(t => Number(t.total) <= 250000),
+                    ...salesData.filter(r => r.transaction.documentType !== 'invoice' && !r.transaction.partyGstin && !r.exportType && !Number(r.transaction.igst)).map(r => r.transaction)
+                ],
+                exp: invoiceRows.filter(r => r.exportType).map(r => ({
+                    exportType: EXPORT_TYPE_CODES[r.exportType!],
+                    invoiceNumber: r.originalInvoiceNumber,
+                    invoiceDate: r.originalInvoiceDate,
+                    invoiceValue: Number(r.transaction.total),
+                    portCode: r.portCode,
+                    shippingBillNumber: r.shippingBillNumber,
+                    shippingBillDate: r.shippingBillDate,
+                    taxableAmount: Number(r.transaction.taxableAmount),
+                    igst: Number(r.transaction.igst),
+                    cess: Number(r.transaction.cess),
+                    rates: ratewiseTotals(r.transaction.items)
+                })),
+                cdnr: noteData.filter(t => t.partyGstin),
+                cdnur: noteData.filter(t => !t.partyGstin && (t.exportType || Number(t.igst))),
                 summary: {
-                    totalTaxableValue: salesData.reduce((sum, t) => sum + Number(t.taxableAmount), 0),
-                    totalTax: salesData.reduce((sum, t) => sum + Number(t.totalTax), 0),
-                    totalInvoices: salesData.length
+                    totalTaxableValue: salesData.reduce((sum, r) => sum + Number(r.transaction.taxableAmount), 0),
+                    totalTax: salesData.reduce((sum, r) => sum + Number(r.transaction.totalTax), 0),
+                    totalInvoices: invoiceRows.length,
+                    totalNotes: noteData.length
                 }
             };
             
@@ -520,7 +645,7 @@ export default async function (fastify: FastifyInstance) {
     });
 
     // Bulk import GST transactions
-    fastify.post("/bulk-import", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+    fastify.post("/bulk-import", { preHandler: [fastify.authenticate, fastify.idempotent] }, async (req, reply) => {
         try {
             // This would handle file upload and processing
             // For now, return a placeholder response
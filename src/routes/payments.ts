@@ -1,29 +1,38 @@
 import { FastifyInstance } from "fastify";
 import { db } from "../db/drizzle";
-import { insertPaymentSchema, payments, selectPaymentSchema, bills, customers } from "../db/schema";
+import { insertPaymentSchema, payments, SelectPayment, selectPaymentSchema, bills, customers } from "../db/schema";
 import { eq, and, gte, lte, desc, asc, count, sum, sql } from "drizzle-orm";
 import { z } from "zod";
+import { billBalanceService } from "../services/billBalanceService";
+import { billLifecycleService } from "../services/billLifecycleService";
+import { upiPaymentService } from "../services/upiPaymentService";
+import { stockService } from "../services/stockService";
+import { inventoryService } from "../services/inventoryService";
+import { pageQuery, paginationQuery, SortField } from "../utils/pagination";
+
+const PAYMENT_SORT_FIELDS: Record<'date' | 'amount' | 'mode' | 'createdAt', SortField<SelectPayment>> = {
+    date: { column: payments.date, value: payment => payment.date },
+    amount: { column: payments.amount, value: payment => payment.amount },
+    mode: { column: payments.mode, value: payment => payment.mode },
+    createdAt: { column: payments.createdAt, value: payment => payment.createdAt },
+};
 
 export default async function (fastify: FastifyInstance) {
-    // Get all payments with pagination and filters
+    // Get all payments with filters, sorting and cursor pagination
     fastify.get("/", { preHandler: [fastify.authenticate] }, async (req, reply) => {
         try {
             const querySchema = z.object({
-                page: z.string().optional().transform(val => val ? parseInt(val) : 1),
-                limit: z.string().optional().transform(val => val ? parseInt(val) : 10),
+                ...paginationQuery(PAYMENT_SORT_FIELDS, 'date', 'desc'),
                 billId: z.string().optional(),
                 companyId: z.string().optional(),
                 mode: z.string().optional(),
                 status: z.enum(['pending', 'completed', 'failed']).optional(),
                 startDate: z.string().optional(),
                 endDate: z.string().optional(),
-                search: z.string().optional(),
-                sortBy: z.enum(['date', 'amount', 'mode']).optional().default('date'),
-                sortOrder: z.enum(['asc', 'desc']).optional().default('desc')
+                search: z.string().optional()
             });
             
             const params = querySchema.parse(req.query);
-            const offset = (params.page - 1) * params.limit;
             
             let whereConditions = [];
             if (params.billId) whereConditions.push(eq(payments.billId, params.billId));
@@ -40,36 +49,32 @@ export default async function (fastify: FastifyInstance) {
             
             const whereClause = whereConditions.length > 0 ? and(...whereConditions) : undefined;
             
-            // Determine sort column
-            let sortColumn: any = payments.date;
-            if (params.sortBy === 'amount') sortColumn = payments.amount;
-            if (params.sortBy === 'mode') sortColumn = payments.mode;
+            const page = pageQuery(PAYMENT_SORT_FIELDS, payments.id, params);
             
-            const sortOrder = params.sortOrder === 'desc' ? desc(sortColumn) : asc(sortColumn);
-            
-            const [paymentsResult, totalResult] = await Promise.all([
+            const [paymentsResult, total] = await Promise.all([
                 db.select().from(payments)
-                    .where(whereClause)
-                    .orderBy(sortOrder)
-                    .limit(params.limit)
-                    .offset(offset),
-                db.select({ count: count() }).from(payments).where(whereClause)
+                    .where(and(whereClause, page.where))
+                    .orderBy(...page.orderBy)
+                    .limit(page.limit)
+                    .offset(page.offset),
+                params.includeTotal || params.page
+                    ? db.select({ count: count() }).from(payments).where(whereClause).then(r => r[0].count)
+                    : undefined
             ]);
-            
-            const total = totalResult[0].count;
-            const totalPages = Math.ceil(total / params.limit);
+            const { items, nextCursor, hasMore } = page.page(paymentsResult);
             
             return reply.send({
                 status: 'success',
                 data: {
-                    payments: paymentsResult,
-                    total,
-                    page: params.page,
-                    totalPages
+                    payments: items,
+                    nextCursor,
+                    hasMore,
+                    ...(total !== undefined && { total }),
+                    ...(params.page && { page: params.page, totalPages: Math.ceil(total! / page.size) })
                 }
             });
         } catch (error: any) {
-            return reply.code(500).send({
+            return reply.code(error.message === 'Invalid cursor' ? 400 : 500).send({
                 status: 'error',
                 message: error.message || "Failed to fetch payments"
             });
@@ -77,21 +82,39 @@ export default async function (fastify: FastifyInstance) {
     });
 
     // Create payment
-    fastify.post("/", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+    fastify.post("/", { preHandler: [fastify.authenticate, fastify.idempotent] }, async (req, reply) => {
         try {
             const createPaymentSchema = z.object({
-                billId: z.string(),
+                billId: z.string().optional(),
                 amount: z.number(),
                 mode: z.string(),
                 reference: z.string().optional(),
                 notes: z.string().optional(),
                 companyId: z.string()
-            });
+            }).refine(data => data.billId || data.reference, { message: "billId or reference is required" });
             
             const data = createPaymentSchema.parse(req.body);
+            // Without a billId, match the bill from the reference (e.g. a UPI transaction carrying the bill number)
+            const bill = data.billId
+                ? await db.select().from(bills).where(eq(bills.id, data.billId)).then(r => r[0])
+                : await upiPaymentService.matchBill(data.companyId, data.reference!);
+            // A payment is recorded under its bill's company
+            if (!bill || bill.companyId !== data.companyId) {
+                return reply.code(404).send({
+                    status: 'error',
+                    message: data.billId ? "Bill not found" : `No open bill matches reference ${data.reference}`
+                });
+            }
+            if (data.amount <= 0 || data.amount > Number(bill.balanceDue)) {
+                return reply.code(400).send({
+                    status: 'error',
+                    message: `Payment amount must be between 0 and the balance due of ${bill.balanceDue}`
+                });
+            }
+            
             const paymentData = {
-                billId: data.billId,
-                companyId: data.companyId,
+                billId: bill.id,
+                companyId: bill.companyId,
                 userId: (req.user as any).id,
                 amount: data.amount.toString(),
                 date: new Date(),
@@ -103,12 +126,14 @@ export default async function (fastify: FastifyInstance) {
                 updatedBy: (req.user as any).id
             };
             
-            const inserted = await db.insert(payments).values(paymentData).returning().then(r => r[0]);
-            
-            // Update bill payment status
-            await db.update(bills)
-                .set({ paymentStatus: 'paid' })
-                .where(eq(bills.id, data.billId));
+            await stockService.assertCanFinalize(bill);
+            // Insert the payment (finalizing a draft bill) and recompute the bill and customer balances together
+            const [[inserted]] = await db.batch([
+                db.insert(payments).values(paymentData).returning(),
+                ...billLifecycleService.paymentQueries(bill, (req.user as any).id),
+                billBalanceService.billUpdate(bill.id),
+                billBalanceService.customerUpdate(bill.customerId)
+            ]).catch(error => { throw inventoryService.stockError(error); });
             
             return reply.code(201).send({
                 status: 'success',
@@ -150,14 +175,51 @@ export default async function (fastify: FastifyInstance) {
     fastify.put("/:id", { preHandler: [fastify.authenticate] }, async (req, reply) => {
         try {
             const { id } = req.params as { id: string };
-            const updateData = { ...(req.body as any), updatedBy: (req.user as any).id, updatedAt: new Date() };
-            const updated = await db.update(payments).set(updateData).where(eq(payments.id, id)).returning().then(r => r[0]);
-            if (!updated) {
+            const existing = await db.select().from(payments).where(eq(payments.id, id)).then(r => r[0]);
+            if (!existing) {
                 return reply.code(404).send({
                     status: 'error',
                     message: "Payment not found"
                 });
             }
+            
+            // The bill, company and status of a payment stay as recorded
+            const updatePaymentSchema = z.object({
+                amount: z.number(),
+                date: z.string(),
+                mode: z.string(),
+                reference: z.string().nullable(),
+                notes: z.string().max(255).nullable()
+            }).partial();
+            
+            const data = updatePaymentSchema.parse(req.body);
+            if (data.amount !== undefined) {
+                // The payment's current amount is already counted against the balance
+                const bill = await db.select({ balanceDue: bills.balanceDue }).from(bills).where(eq(bills.id, existing.billId)).then(r => r[0]);
+                const available = Number(bill?.balanceDue ?? 0) + (existing.status === 'completed' ? Number(existing.amount) : 0);
+                if (data.amount <= 0 || data.amount > available) {
+                    return reply.code(400).send({
+                        status: 'error',
+                        message: `Payment amount must be between 0 and the balance due of ${available}`
+                    });
+                }
+            }
+            
+            const updated = await db.update(payments)
+                .set({
+                    ...data,
+                    amount: data.amount?.toString(),
+                    date: data.date ? new Date(data.date) : undefined,
+                    updatedBy: (req.user as any).id,
+                    updatedAt: new Date()
+                })
+                .where(eq(payments.id, id))
+                .returning()
+                .then(r => r[0]);
+            
+            // The amount may have changed
+            await billBalanceService.recalculateBill(updated.billId);
+            
             return reply.send({
                 status: 'success',
                 data: updated,
@@ -175,7 +237,10 @@ export default async function (fastify: FastifyInstance) {
     fastify.delete("/:id", { preHandler: [fastify.authenticate] }, async (req, reply) => {
         try {
             const { id } = req.params as { id: string };
-            await db.delete(payments).where(eq(payments.id, id));
+            const [deleted] = await db.delete(payments).where(eq(payments.id, id)).returning();
+            if (deleted) {
+                await billBalanceService.recalculateBill(deleted.billId);
+            }
             return reply.send({
                 status: 'success',
                 message: "Payment deleted successfully"
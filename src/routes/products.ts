@@ -1,93 +1,98 @@
 import { FastifyInstance } from "fastify";
 import { db } from "../db/drizzle";
-import { eq, and, gte, lte, like, desc, asc, count, sum, sql } from "drizzle-orm";
+import { InventoryTransactionTypeEnum, products, SelectProduct, SERIAL_STATUSES } from "../db/schema";
+import { and, count } from "drizzle-orm";
 import { z } from "zod";
+import { MANUAL_MOVEMENT_TYPES, productService } from "../services/productService";
+import { inventoryService } from "../services/inventoryService";
+import { warehouseService } from "../services/warehouseService";
+import { batchService } from "../services/batchService";
+import { serialService } from "../services/serialService";
+import { requireCompanyAccess } from "../plugins/roleGuard";
+import { pageQuery, paginationQuery, SortField } from "../utils/pagination";
 
-// Mock products table structure - in real implementation, you'd have a products table
-const mockProducts = [
-    {
-        id: "1",
-        name: "Product 1",
-        description: "Sample product description",
-        sku: "SKU001",
-        category: "Electronics",
-        price: 1000,
-        cost: 800,
-        stock: 50,
-        unit: "pcs",
-        hsnCode: "8517",
-        taxRate: 18,
-        isActive: true,
-        companyId: "company1",
-        createdAt: new Date(),
-        updatedAt: new Date()
-    }
-];
+const PRODUCT_SORT_FIELDS: Record<'name' | 'price' | 'stock' | 'createdAt', SortField<SelectProduct>> = {
+    name: { column: products.name, value: product => product.name },
+    price: { column: products.sellingPrice, value: product => product.sellingPrice },
+    stock: { column: products.stock, value: product => product.stock },
+    createdAt: { column: products.createdAt, value: product => product.createdAt },
+};
+
+const productSchema = {
+    name: z.string().min(1).max(255),
+    description: z.string().optional(),
+    sku: z.string().max(100).optional(),
+    barcode: z.string().max(100).optional(),
+    category: z.string().max(100).optional(),
+    unit: z.string().max(50).optional(),
+    sellingPrice: z.number().min(0),
+    costPrice: z.number().min(0).optional(),
+    mrp: z.number().min(0).optional(),
+    stock: z.number().int().optional(),
+    minStock: z.number().int().min(0).optional(),
+    maxStock: z.number().int().min(0).optional(),
+    taxRate: z.number().min(0).optional(),
+    hsnCode: z.string().max(20).optional(),
+    images: z.array(z.string()).optional(),
+    trackBatches: z.boolean().optional(),
+    trackSerials: z.boolean().optional(),
+    warrantyMonths: z.number().int().min(0).max(240).nullable().optional(),
+    isActive: z.boolean().optional()
+};
+
+const batchSchema = {
+    batchNumber: z.string().min(1).max(64),
+    manufacturingDate: z.string().optional(),
+    expiryDate: z.string().optional(),
+    mrp: z.number().min(0).optional(),
+    costPrice: z.number().min(0).optional()
+};
+
+function errorCode(error: any): number {
+    if (['Product not found', 'Warehouse not found', 'Batch not found', 'Serial not found'].includes(error.message)) return 404;
+    return / is already used by | already exists for this product$| is already registered$/.test(error.message) ? 409 : 400;
+}
 
 export default async function (fastify: FastifyInstance) {
-    // Get all products with pagination and filters
-    fastify.get("/", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+    // Get the company's products with filters, sorting and cursor pagination
+    fastify.get("/", { preHandler: [fastify.authenticate, requireCompanyAccess()] }, async (req, reply) => {
         try {
             const querySchema = z.object({
-                page: z.string().optional().transform(val => val ? parseInt(val) : 1),
-                limit: z.string().optional().transform(val => val ? parseInt(val) : 10),
+                ...paginationQuery(PRODUCT_SORT_FIELDS, 'name', 'asc'),
                 search: z.string().optional(),
                 category: z.string().optional(),
-                isActive: z.string().optional().transform(val => val === 'true'),
-                sortBy: z.enum(['name', 'price', 'stock', 'createdAt']).optional().default('name'),
-                sortOrder: z.enum(['asc', 'desc']).optional().default('asc'),
-                companyId: z.string().optional()
+                isActive: z.enum(['true', 'false']).optional().transform(val => val === undefined ? undefined : val === 'true'),
+                companyId: z.string()
             });
             
             const params = querySchema.parse(req.query);
-            
-            // Mock implementation - filter and paginate mockProducts
-            let filteredProducts = [...mockProducts];
-            
-            if (params.search) {
-                filteredProducts = filteredProducts.filter(p => 
-                    p.name.toLowerCase().includes(params.search!.toLowerCase()) ||
-                    p.sku.toLowerCase().includes(params.search!.toLowerCase())
-                );
-            }
-            
-            if (params.category) {
-                filteredProducts = filteredProducts.filter(p => p.category === params.category);
-            }
-            
-            if (params.isActive !== undefined) {
-                filteredProducts = filteredProducts.filter(p => p.isActive === params.isActive);
-            }
-            
-            if (params.companyId) {
-                filteredProducts = filteredProducts.filter(p => p.companyId === params.companyId);
-            }
-            
-            // Sort
-            filteredProducts.sort((a, b) => {
-                const aVal = a[params.sortBy as keyof typeof a];
-                const bVal = b[params.sortBy as keyof typeof b];
-                const order = params.sortOrder === 'desc' ? -1 : 1;
-                return aVal > bVal ? order : aVal < bVal ? -order : 0;
-            });
-            
-            // Paginate
-            const total = filteredProducts.length;
-            const totalPages = Math.ceil(total / params.limit);
-            const offset = (params.page - 1) * params.limit;
-            const products = filteredProducts.slice(offset, offset + params.limit);
+            const whereClause = productService.listFilter(params);
+            const page = pageQuery(PRODUCT_SORT_FIELDS, products.id, params);
+            
+            const [productsResult, total] = await Promise.all([
+                db.select().from(products)
+                    .where(and(whereClause, page.where))
+                    .orderBy(...page.orderBy)
+                    .limit(page.limit)
+                    .offset(page.offset),
+                params.includeTotal || params.page
+                    ? db.select({ count: count() }).from(products).where(whereClause).then(r => r[0].count)
+                    : undefined
+            ]);
+            const { items, nextCursor, hasMore } = page.page(productsResult);
             
             return reply.send({
                 status: 'success',
                 data: {
-                    products,
-                    total,
-                    page: params.page,
-                    totalPages
+                    products: items,
+                    nextCursor,
+                    hasMore,
+                    ...(total !== undefined && { total }),
+                    ...(params.page && { page: params.page, totalPages: Math.ceil(total! / page.size) })
                 }
             });
         } catch (error: any) {
-            return reply.code(500).send({
+            return reply.code(error.message === 'Invalid cursor' ? 400 : 500).send({
                 status: 'error',
                 message: error.message || "Failed to fetch products"
             });
@@ -95,293 +100,199 @@ export default async function (fastify: FastifyInstance) {
     });
 
     // Create product
-    fastify.post("/", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+    fastify.post("/", { preHandler: [fastify.authenticate, requireCompanyAccess(), fastify.idempotent] }, async (req, reply) => {
         try {
             const createProductSchema = z.object({
-                name: z.string(),
-                description: z.string().optional(),
-                sku: z.string(),
-                category: z.string(),
-                price: z.number(),
-                cost: z.number().optional(),
-                stock: z.number().optional().default(0),
-                unit: z.string().default('pcs'),
-                hsnCode: z.string().optional(),
-                taxRate: z.number().optional().default(18),
+                ...productSchema,
                 companyId: z.string()
             });
             
             const data = createProductSchema.parse(req.body);
-            
-            // Mock implementation - in real app, insert into products table
-            const newProduct = {
-                id: Date.now().toString(),
-                ...data,
-                description: data.description || '',
-                cost: data.cost || 0,
-                hsnCode: data.hsnCode || '',
-                isActive: true,
-                createdAt: new Date(),
-                updatedAt: new Date()
-            };
-            
-            mockProducts.push(newProduct);
+            const product = await productService.createProduct(data, (req.user as any).id);
             
             return reply.code(201).send({
                 status: 'success',
-                data: newProduct,
+                data: product,
                 message: 'Product created successfully'
             });
         } catch (error: any) {
-            return reply.code(400).send({
+            return reply.code(errorCode(error)).send({
                 status: 'error',
                 message: error.message || "Failed to create product"
             });
         }
     });
 
-    // Get product by id
-    fastify.get("/:id", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+    // Search products
+    fastify.get("/search", { preHandler: [fastify.authenticate, requireCompanyAccess()] }, async (req, reply) => {
         try {
-            const { id } = req.params as { id: string };
-            const product = mockProducts.find(p => p.id === id);
+            const querySchema = z.object({
+                q: z.string().min(1),
+                companyId: z.string(),
+                limit: z.string().optional().transform(val => val ? Math.min(Math.max(parseInt(val) || 20, 1), 100) : 20)
+            });
             
-            if (!product) {
-                return reply.code(404).send({
-                    status: 'error',
-                    message: "Product not found"
-                });
-            }
+            const params = querySchema.parse(req.query);
+            const searchResults = await productService.search(params.companyId, params.q, params.limit);
             
             return reply.send({
                 status: 'success',
-                data: product
+                data: searchResults
             });
         } catch (error: any) {
             return reply.code(500).send({
                 status: 'error',
-                message: error.message || "Failed to fetch product"
+                message: error.message || "Failed to search products"
             });
         }
     });
 
-    // Update product
-    fastify.put("/:id", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+    // Get product categories
+    fastify.get("/categories", { preHandler: [fastify.authenticate, requireCompanyAccess()] }, async (req, reply) => {
         try {
-            const { id } = req.params as { id: string };
-            const updateSchema = z.object({
-                name: z.string().optional(),
-                description: z.string().optional(),
-                sku: z.string().optional(),
-                category: z.string().optional(),
-                price: z.number().optional(),
-                cost: z.number().optional(),
-                stock: z.number().optional(),
-                unit: z.string().optional(),
-                hsnCode: z.string().optional(),
-                taxRate: z.number().optional(),
-                isActive: z.boolean().optional()
-            });
-            
-            const updateData = updateSchema.parse(req.body);
-            const productIndex = mockProducts.findIndex(p => p.id === id);
-            
-            if (productIndex === -1) {
-                return reply.code(404).send({
-                    status: 'error',
-                    message: "Product not found"
-                });
-            }
-            
-            mockProducts[productIndex] = {
-                ...mockProducts[productIndex],
-                ...updateData,
-                updatedAt: new Date()
-            };
+            const { companyId } = z.object({ companyId: z.string() }).parse(req.query);
+            const categories = await productService.categories(companyId);
             
             return reply.send({
                 status: 'success',
-                data: mockProducts[productIndex],
-                message: 'Product updated successfully'
+                data: categories
             });
         } catch (error: any) {
-            return reply.code(400).send({
+            return reply.code(500).send({
                 status: 'error',
-                message: error.message || "Failed to update product"
+                message: error.message || "Failed to fetch categories"
             });
         }
     });
 
-    // Delete product
-    fastify.delete("/:id", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+    // Get low stock products: at or below the threshold, or their minimum stock without one
+    fastify.get("/low-stock", { preHandler: [fastify.authenticate, requireCompanyAccess()] }, async (req, reply) => {
         try {
-            const { id } = req.params as { id: string };
-            const productIndex = mockProducts.findIndex(p => p.id === id);
+            const querySchema = z.object({
+                threshold: z.string().optional().transform(val => val ? parseInt(val) : undefined),
+                companyId: z.string(),
+                warehouseId: z.string().optional()
+            });
             
-            if (productIndex === -1) {
-                return reply.code(404).send({
-                    status: 'error',
-                    message: "Product not found"
-                });
+            const params = querySchema.parse(req.query);
+            if (params.warehouseId) {
+                await warehouseService.assertWarehouse(params.companyId, params.warehouseId);
             }
-            
-            mockProducts.splice(productIndex, 1);
+            const lowStockProducts = await productService.lowStock(params.companyId, params.threshold, params.warehouseId);
             
             return reply.send({
                 status: 'success',
-                message: "Product deleted successfully"
+                data: lowStockProducts
             });
         } catch (error: any) {
-            return reply.code(500).send({
+            return reply.code(error.message === 'Warehouse not found' ? 404 : 500).send({
                 status: 'error',
-                message: error.message || "Failed to delete product"
+                message: error.message || "Failed to fetch low stock products"
             });
         }
     });
 
-    // Search products
-    fastify.get("/search", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+    // A serial or IMEI number's history: where it was bought, who it was sold to and its warranty
+    fastify.get("/serials/:serialNumber", { preHandler: [fastify.authenticate, requireCompanyAccess()] }, async (req, reply) => {
         try {
-            const querySchema = z.object({
-                q: z.string(),
-                companyId: z.string().optional(),
-                limit: z.string().optional().transform(val => val ? parseInt(val) : 20)
+            const { serialNumber } = req.params as { serialNumber: string };
+            const { companyId } = z.object({ companyId: z.string() }).parse(req.query);
+            const history = await serialService.history(companyId, serialNumber);
+            return reply.send({
+                status: 'success',
+                data: history
             });
-            
-            const params = querySchema.parse(req.query);
-            
-            let searchResults = mockProducts.filter(p => 
-                p.name.toLowerCase().includes(params.q.toLowerCase()) ||
-                p.sku.toLowerCase().includes(params.q.toLowerCase()) ||
-                p.description?.toLowerCase().includes(params.q.toLowerCase())
-            );
-            
-            if (params.companyId) {
-                searchResults = searchResults.filter(p => p.companyId === params.companyId);
-            }
-            
-            searchResults = searchResults.slice(0, params.limit);
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to fetch serial history"
+            });
+        }
+    });
+
+    // Get product by id
+    fastify.get("/:id", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const product = await productService.getProduct(id, (req.user as any).id);
             
             return reply.send({
                 status: 'success',
-                data: searchResults
+                data: product
             });
         } catch (error: any) {
-            return reply.code(500).send({
+            return reply.code(error.message === 'Product not found' ? 404 : 500).send({
                 status: 'error',
-                message: error.message || "Failed to search products"
+                message: error.message || "Failed to fetch product"
             });
         }
     });
 
-    // Get product categories
-    fastify.get("/categories", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+    // Update product
+    fastify.put("/:id", { preHandler: [fastify.authenticate] }, async (req, reply) => {
         try {
-            const querySchema = z.object({
-                companyId: z.string().optional()
-            });
-            
-            const params = querySchema.parse(req.query);
-            
-            let products = [...mockProducts];
-            if (params.companyId) {
-                products = products.filter(p => p.companyId === params.companyId);
-            }
+            const { id } = req.params as { id: string };
+            const updateSchema = z.object(productSchema).omit({ stock: true }).partial();
             
-            const categories = [...new Set(products.map(p => p.category))];
+            const updateData = updateSchema.parse(req.body);
+            const product = await productService.updateProduct(id, updateData, (req.user as any).id);
             
             return reply.send({
                 status: 'success',
-                data: categories
+                data: product,
+                message: 'Product updated successfully'
             });
         } catch (error: any) {
-            return reply.code(500).send({
+            return reply.code(errorCode(error)).send({
                 status: 'error',
-                message: error.message || "Failed to fetch categories"
+                message: error.message || "Failed to update product"
             });
         }
     });
 
-    // Get low stock products
-    fastify.get("/low-stock", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+    // Delete product
+    fastify.delete("/:id", { preHandler: [fastify.authenticate] }, async (req, reply) => {
         try {
-            const querySchema = z.object({
-                threshold: z.string().optional().transform(val => val ? parseInt(val) : 10),
-                companyId: z.string().optional()
-            });
-            
-            const params = querySchema.parse(req.query);
-            
-            let lowStockProducts = mockProducts.filter(p => p.stock <= params.threshold);
-            
-            if (params.companyId) {
-                lowStockProducts = lowStockProducts.filter(p => p.companyId === params.companyId);
-            }
+            const { id } = req.params as { id: string };
+            await productService.deleteProduct(id, (req.user as any).id);
             
             return reply.send({
                 status: 'success',
-                data: lowStockProducts
+                message: "Product deleted successfully"
             });
         } catch (error: any) {
-            return reply.code(500).send({
+            return reply.code(error.message === 'Product not found' ? 404 : 500).send({
                 status: 'error',
-                message: error.message || "Failed to fetch low stock products"
+                message: error.message || "Failed to delete product"
             });
         }
     });
 
-    // Update stock
+    // Update stock; the movement is booked in the stock ledger with its reason
     fastify.post("/:id/stock", { preHandler: [fastify.authenticate] }, async (req, reply) => {
         try {
             const { id } = req.params as { id: string };
             const stockSchema = z.object({
-                quantity: z.number(),
+                quantity: z.number().int().min(0),
                 type: z.enum(['add', 'subtract', 'set']),
-                reason: z.string().optional()
+                movementType: z.enum(MANUAL_MOVEMENT_TYPES).optional(),
+                unitCost: z.number().min(0).optional(),
+                reference: z.string().max(64).optional(),
+                reason: z.string().optional(),
+                warehouseId: z.string().optional(),
+                batchId: z.string().optional()
             });
             
-            const { quantity, type, reason } = stockSchema.parse(req.body);
-            const productIndex = mockProducts.findIndex(p => p.id === id);
-            
-            if (productIndex === -1) {
-                return reply.code(404).send({
-                    status: 'error',
-                    message: "Product not found"
-                });
-            }
-            
-            const product = mockProducts[productIndex];
-            let newStock = product.stock;
-            
-            switch (type) {
-                case 'add':
-                    newStock += quantity;
-                    break;
-                case 'subtract':
-                    newStock -= quantity;
-                    break;
-                case 'set':
-                    newStock = quantity;
-                    break;
-            }
-            
-            if (newStock < 0) {
-                return reply.code(400).send({
-                    status: 'error',
-                    message: "Stock cannot be negative"
-                });
-            }
-            
-            mockProducts[productIndex].stock = newStock;
-            mockProducts[productIndex].updatedAt = new Date();
+            const data = stockSchema.parse(req.body);
+            const product = await productService.adjustStock(id, data, (req.user as any).id);
             
             return reply.send({
                 status: 'success',
-                data: mockProducts[productIndex],
+                data: product,
                 message: 'Stock updated successfully'
             });
         } catch (error: any) {
-            return reply.code(400).send({
+            return reply.code(errorCode(error)).send({
                 status: 'error',
                 message: error.message || "Failed to update stock"
             });
@@ -389,7 +300,7 @@ export default async function (fastify: FastifyInstance) {
     });
 
     // Bulk import products
-    fastify.post("/bulk-import", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+    fastify.post("/bulk-import", { preHandler: [fastify.authenticate, fastify.idempotent] }, async (req, reply) => {
         try {
             // This would handle file upload and CSV/Excel parsing
             // For now, return a placeholder response
@@ -440,4 +351,189 @@ export default async function (fastify: FastifyInstance) {
             });
         }
     });
-}
\ No newline at end of file
+
+    // Batches of a product, earliest expiry first
+    fastify.get("/:id/batches", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const querySchema = z.object({
+                inStock: z.string().optional().transform(val => val === 'true'),
+                includeExpired: z.string().optional().transform(val => val !== 'false')
+            });
+
+            const filters = querySchema.parse(req.query);
+            const product = await productService.getProduct(id, (req.user as any).id);
+            const batches = await batchService.listBatches(product.id, filters);
+            return reply.send({
+                status: 'success',
+                data: batches
+            });
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to fetch batches"
+            });
+        }
+    });
+
+    // Add a batch, optionally with the stock it starts with
+    fastify.post("/:id/batches", { preHandler: [fastify.authenticate, fastify.idempotent] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const data = z.object({
+                ...batchSchema,
+                quantity: z.number().int().min(0).optional(),
+                warehouseId: z.string().optional()
+            }).parse(req.body);
+
+            const product = await productService.getProduct(id, (req.user as any).id);
+            if (data.warehouseId) {
+                await warehouseService.assertWarehouse(product.companyId, data.warehouseId);
+            }
+            const { quantity, warehouseId, ...batch } = data;
+            const created = await batchService.createBatch(product, {
+                ...batch,
+                manufacturingDate: batch.manufacturingDate ? new Date(batch.manufacturingDate) : undefined,
+                expiryDate: batch.expiryDate ? new Date(batch.expiryDate) : undefined
+            }, (req.user as any).id, quantity ? { quantity, warehouseId } : undefined);
+
+            return reply.code(201).send({
+                status: 'success',
+                data: created,
+                message: 'Batch created successfully'
+            });
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to create batch"
+            });
+        }
+    });
+
+    // Update a batch's number, dates or prices; its stock moves through /:id/stock
+    fastify.put("/:id/batches/:batchId", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id, batchId } = req.params as { id: string; batchId: string };
+            const changes = z.object(batchSchema).partial().parse(req.body);
+
+            const product = await productService.getProduct(id, (req.user as any).id);
+            const updated = await batchService.updateBatch(product.id, batchId, {
+                ...changes,
+                manufacturingDate: changes.manufacturingDate ? new Date(changes.manufacturingDate) : undefined,
+                expiryDate: changes.expiryDate ? new Date(changes.expiryDate) : undefined
+            });
+            return reply.send({
+                status: 'success',
+                data: updated,
+                message: 'Batch updated successfully'
+            });
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to update batch"
+            });
+        }
+    });
+
+    // Serial numbers of a product, by number
+    fastify.get("/:id/serials", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const querySchema = z.object({
+                status: z.enum(SERIAL_STATUSES).optional(),
+                search: z.string().optional()
+            });
+
+            const filters = querySchema.parse(req.query);
+            const product = await productService.getProduct(id, (req.user as any).id);
+            const serials = await serialService.listSerials(product.id, filters);
+            return reply.send({
+                status: 'success',
+                data: serials
+            });
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to fetch serials"
+            });
+        }
+    });
+
+    // Register serial numbers of units already in stock; purchases register theirs when finalized
+    fastify.post("/:id/serials", { preHandler: [fastify.authenticate, fastify.idempotent] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const { serialNumbers } = z.object({
+                serialNumbers: z.array(z.string().trim().min(1).max(64)).min(1)
+            }).parse(req.body);
+
+            const product = await productService.getProduct(id, (req.user as any).id);
+            const registered = await serialService.registerSerials(product, serialNumbers, (req.user as any).id);
+            return reply.code(201).send({
+                status: 'success',
+                data: registered,
+                message: 'Serial numbers registered successfully'
+            });
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to register serial numbers"
+            });
+        }
+    });
+
+    // Stock movements of a product with the balance after each one, oldest first; filtered by
+    // warehouse, the balance is the warehouse's
+    fastify.get("/:id/movements", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const querySchema = z.object({
+                ...paginationQuery({ createdAt: true }, 'createdAt', 'asc'),
+                type: z.enum(InventoryTransactionTypeEnum.enumValues).optional(),
+                warehouseId: z.string().optional(),
+                from: z.string().optional(),
+                to: z.string().optional()
+            });
+
+            const params = querySchema.parse(req.query);
+            const product = await productService.getProduct(id, (req.user as any).id);
+            const { entries, where } = inventoryService.ledger(product.id, {
+                warehouseId: params.warehouseId,
+                type: params.type,
+                from: params.from ? new Date(params.from) : undefined,
+                to: params.to ? new Date(params.to) : undefined
+            });
+            const page = pageQuery({ createdAt: { column: entries.createdAt, value: (entry: { id: string; createdAt: Date | null }) => entry.createdAt } }, entries.id, params);
+
+            const [movements, total] = await Promise.all([
+                db.select().from(entries)
+                    .where(and(where, page.where))
+                    .orderBy(...page.orderBy)
+                    .limit(page.limit)
+                    .offset(page.offset),
+                params.includeTotal || params.page
+                    ? db.select({ count: count() }).from(entries).where(where).then(r => r[0].count)
+                    : undefined
+            ]);
+            const { items, nextCursor, hasMore } = page.page(movements);
+
+            return reply.send({
+                status: 'success',
+                data: {
+                    productId: product.id,
+                    stock: product.stock ?? 0,
+                    movements: items,
+                    nextCursor,
+                    hasMore,
+                    ...(total !== undefined && { total }),
+                    ...(params.page && { page: params.page, totalPages: Math.ceil(total! / page.size) })
+                }
+            });
+        } catch (error: any) {
+            return reply.code(error.message === 'Product not found' ? 404 : 400).send({
+                status: 'error',
+                message: error.message || "Failed to fetch stock movements"
+            });
+        }
+    });
+}
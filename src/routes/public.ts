@@ -0,0 +1,88 @@
+import { FastifyInstance, FastifyRequest } from "fastify";
+import { z } from "zod";
+import { billShareService } from "../services/billShareService";
+import { invoicePdfService } from "../services/invoicePdfService";
+import { upiPaymentService } from "../services/upiPaymentService";
+
+// Routes reachable without a login; access is granted by the signed token in the URL
+function errorCode(error: any): number {
+    if (error.message === 'This link has been revoked') return 410;
+    if (error.message === 'Link is invalid or has expired') return 404;
+    return 400;
+}
+
+function viewMeta(req: FastifyRequest) {
+    return { ipAddress: req.ip, userAgent: req.headers['user-agent'] };
+}
+
+export default async function (fastify: FastifyInstance) {
+    // Read-only invoice page behind a share link (?format=json for the raw data)
+    fastify.get("/bills/:token", async (req, reply) => {
+        try {
+            const { token } = req.params as { token: string };
+            const { format } = z.object({ format: z.enum(['html', 'json']).optional() }).parse(req.query);
+
+            const shared = await billShareService.resolve(token);
+            await billShareService.recordView(shared.link, 'view', viewMeta(req));
+
+            if (format === 'json') {
+                return reply.send({
+                    status: 'success',
+                    data: billShareService.publicView(shared)
+                });
+            }
+            return reply
+                .type('text/html; charset=utf-8')
+                .header('Cache-Control', 'no-store')
+                .send(billShareService.renderHtml(shared, token));
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to load invoice"
+            });
+        }
+    });
+
+    // PDF download behind a share link
+    fastify.get("/bills/:token/pdf", async (req, reply) => {
+        try {
+            const { token } = req.params as { token: string };
+            const shared = await billShareService.resolve(token);
+            const pdf = await invoicePdfService.renderBill(shared.bill.id);
+            await billShareService.recordView(shared.link, 'download', viewMeta(req));
+
+            return reply
+                .type('application/pdf')
+                .header('Cache-Control', 'no-store')
+                .header('Content-Disposition', `attachment; filename="${pdf.fileName}"`)
+                .send(pdf.buffer);
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to download invoice"
+            });
+        }
+    });
+
+    // UPI QR code for the balance due, embedded in the invoice page
+    fastify.get("/bills/:token/upi-qr.png", async (req, reply) => {
+        try {
+            const { token } = req.params as { token: string };
+            const shared = await billShareService.resolve(token);
+            const upi = upiPaymentService.forBill(shared.bill, shared.company);
+            if (!upi) {
+                return reply.code(404).send({ status: 'error', message: 'Nothing to pay on this invoice' });
+            }
+
+            return reply
+                .type('image/png')
+                .header('Cache-Control', 'no-store')
+                .send(await upiPaymentService.qrPng(upi.intent));
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to load QR code"
+            });
+        }
+    });
+}
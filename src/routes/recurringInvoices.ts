@@ -0,0 +1,260 @@
+import { FastifyInstance } from "fastify";
+import { db } from "../db/drizzle";
+import { recurringProfiles, recurringRuns, RecurringFrequencyEnum } from "../db/schema";
+import { eq, and, desc, count } from "drizzle-orm";
+import { z } from "zod";
+import { recurringInvoiceService } from "../services/recurringInvoiceService";
+
+const itemSchema = z.object({
+    name: z.string(),
+    description: z.string().optional(),
+    quantity: z.number().positive(),
+    rate: z.number().min(0),
+    unit: z.string().optional(),
+    discount: z.number().min(0).optional(),
+    discountType: z.enum(['percentage', 'amount']).optional(),
+    taxRate: z.number().min(0),
+    cessRate: z.number().min(0).optional(),
+    hsnCode: z.string().optional(),
+    productId: z.string().optional(),
+    amount: z.number().optional(),
+    taxAmount: z.number().optional(),
+    total: z.number().optional()
+});
+
+const chargeSchema = z.object({
+    name: z.string().min(1).max(64),
+    hsnCode: z.string().optional(),
+    amount: z.number().min(0),
+    taxRate: z.number().min(0)
+});
+
+const profileSchema = z.object({
+    customerId: z.string(),
+    name: z.string().min(1).max(128),
+    frequency: z.enum(RecurringFrequencyEnum.enumValues),
+    startDate: z.string(),
+    endDate: z.string().nullable().optional(),
+    dayOfMonth: z.number().int().min(1).max(31).nullable().optional(),
+    items: z.array(itemSchema).min(1),
+    notes: z.string().optional(),
+    terms: z.string().optional(),
+    discount: z.number().optional(),
+    discountType: z.enum(['percentage', 'amount']).optional(),
+    charges: z.array(chargeSchema).max(10).optional(),
+    paymentTermsDays: z.number().int().min(0).nullable().optional(),
+    autoSend: z.boolean().optional(),
+    isActive: z.boolean().optional()
+});
+
+function errorCode(error: any): number {
+    return error.message === 'Recurring profile not found' ? 404 : 400;
+}
+
+export default async function (fastify: FastifyInstance) {
+    // Get recurring invoice profiles
+    fastify.get("/", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const querySchema = z.object({
+                page: z.string().optional().transform(val => val ? parseInt(val) : 1),
+                limit: z.string().optional().transform(val => val ? parseInt(val) : 10),
+                customerId: z.string().optional(),
+                isActive: z.enum(['true', 'false']).optional(),
+                companyId: z.string().optional()
+            });
+
+            const params = querySchema.parse(req.query);
+            const offset = (params.page - 1) * params.limit;
+
+            let whereConditions = [];
+            if (params.companyId) whereConditions.push(eq(recurringProfiles.companyId, params.companyId));
+            if (params.customerId) whereConditions.push(eq(recurringProfiles.customerId, params.customerId));
+            if (params.isActive) whereConditions.push(eq(recurringProfiles.isActive, params.isActive === 'true'));
+
+            const whereClause = whereConditions.length > 0 ? and(...whereConditions) : undefined;
+
+            const [profilesResult, totalResult] = await Promise.all([
+                db.select().from(recurringProfiles)
+                    .where(whereClause)
+                    .orderBy(desc(recurringProfiles.createdAt))
+                    .limit(params.limit)
+                    .offset(offset),
+                db.select({ count: count() }).from(recurringProfiles).where(whereClause)
+            ]);
+
+            const total = totalResult[0].count;
+            const totalPages = Math.ceil(total / params.limit);
+
+            return reply.send({
+                status: 'success',
+                data: {
+                    profiles: profilesResult,
+                    total,
+                    page: params.page,
+                    totalPages
+                }
+            });
+        } catch (error: any) {
+            return reply.code(500).send({
+                status: 'error',
+                message: error.message || "Failed to fetch recurring profiles"
+            });
+        }
+    });
+
+    // Create recurring invoice profile
+    fastify.post("/", { preHandler: [fastify.authenticate, fastify.idempotent] }, async (req, reply) => {
+        try {
+            const data = profileSchema.extend({ companyId: z.string() }).parse(req.body);
+            if (data.endDate && new Date(data.endDate) < new Date(data.startDate)) {
+                throw new Error('endDate cannot be before startDate');
+            }
+
+            const profile = await recurringInvoiceService.createProfile({
+                ...data,
+                startDate: new Date(data.startDate),
+                endDate: data.endDate ? new Date(data.endDate) : null
+            }, (req.user as any).id);
+
+            return reply.code(201).send({
+                status: 'success',
+                data: profile,
+                message: 'Recurring profile created successfully'
+            });
+        } catch (error: any) {
+            return reply.code(400).send({
+                status: 'error',
+                message: error.message || "Failed to create recurring profile"
+            });
+        }
+    });
+
+    // Get recurring profile with its latest runs
+    fastify.get("/:id", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const profile = await recurringInvoiceService.getProfile(id);
+            const runs = await db.select().from(recurringRuns)
+                .where(eq(recurringRuns.profileId, id))
+                .orderBy(desc(recurringRuns.runAt))
+                .limit(10);
+
+            return reply.send({
+                status: 'success',
+                data: { ...profile, recentRuns: runs }
+            });
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to fetch recurring profile"
+            });
+        }
+    });
+
+    // Update recurring profile (schedule, items, pause/resume via isActive)
+    fastify.put("/:id", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const data = profileSchema.partial().parse(req.body);
+            const updated = await recurringInvoiceService.updateProfile(id, {
+                ...data,
+                startDate: data.startDate ? new Date(data.startDate) : undefined,
+                endDate: data.endDate === undefined ? undefined : data.endDate ? new Date(data.endDate) : null
+            }, (req.user as any).id);
+
+            return reply.send({
+                status: 'success',
+                data: updated,
+                message: 'Recurring profile updated successfully'
+            });
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to update recurring profile"
+            });
+        }
+    });
+
+    // Delete recurring profile; bills already generated are kept
+    fastify.delete("/:id", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            await db.delete(recurringProfiles).where(eq(recurringProfiles.id, id));
+            return reply.send({
+                status: 'success',
+                message: 'Recurring profile deleted successfully'
+            });
+        } catch (error: any) {
+            return reply.code(400).send({
+                status: 'error',
+                message: error.message || "Failed to delete recurring profile"
+            });
+        }
+    });
+
+    // Get run history
+    fastify.get("/:id/runs", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const querySchema = z.object({
+                page: z.string().optional().transform(val => val ? parseInt(val) : 1),
+                limit: z.string().optional().transform(val => val ? parseInt(val) : 20),
+                status: z.enum(['success', 'failed']).optional()
+            });
+
+            const params = querySchema.parse(req.query);
+            const offset = (params.page - 1) * params.limit;
+            const whereClause = params.status
+                ? and(eq(recurringRuns.profileId, id), eq(recurringRuns.status, params.status))
+                : eq(recurringRuns.profileId, id);
+
+            const [runsResult, totalResult] = await Promise.all([
+                db.select().from(recurringRuns)
+                    .where(whereClause)
+                    .orderBy(desc(recurringRuns.runAt))
+                    .limit(params.limit)
+                    .offset(offset),
+                db.select({ count: count() }).from(recurringRuns).where(whereClause)
+            ]);
+
+            const total = totalResult[0].count;
+            return reply.send({
+                status: 'success',
+                data: {
+                    runs: runsResult,
+                    total,
+                    page: params.page,
+                    totalPages: Math.ceil(total / params.limit)
+                }
+            });
+        } catch (error: any) {
+            return reply.code(500).send({
+                status: 'error',
+                message: error.message || "Failed to fetch run history"
+            });
+        }
+    });
+
+    // Generate any occurrences that are already due without waiting for the scheduler
+    fastify.post("/:id/run", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const profile = await recurringInvoiceService.getProfile(id);
+            if (!profile.isActive) {
+                throw new Error('Recurring profile is paused');
+            }
+
+            const runs = await recurringInvoiceService.processProfile(profile);
+            return reply.send({
+                status: 'success',
+                data: { runs },
+                message: runs.length ? `${runs.length} occurrence(s) processed` : 'Nothing due yet'
+            });
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to run recurring profile"
+            });
+        }
+    });
+}
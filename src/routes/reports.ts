@@ -1,8 +1,14 @@
 import { FastifyInstance } from "fastify";
 import { db } from "../db/drizzle";
 import { bills, customers, companies, payments, gstTransactions } from "../db/schema";
-import { eq, and, gte, lte, desc, asc, count, sum, sql } from "drizzle-orm";
+import { eq, and, gte, lte, desc, asc, count, sum, sql, notInArray } from "drizzle-orm";
 import { z } from "zod";
+import { VOIDED_BILL_STATUSES } from "../services/billLifecycleService";
+import { toBaseCurrency } from "../utils/currency";
+import { productService } from "../services/productService";
+import { warehouseService } from "../services/warehouseService";
+import { batchService, EXPIRY_ALERT_DAYS } from "../services/batchService";
+import { requireCompanyAccess } from "../plugins/roleGuard";
 
 export default async function (fastify: FastifyInstance) {
     // Get dashboard metrics
@@ -15,7 +21,7 @@ export default async function (fastify: FastifyInstance) {
             });
             
             const params = querySchema.parse(req.query);
-            let whereConditions = [];
+            let whereConditions = [eq(bills.type, 'sale'), notInArray(bills.status, VOIDED_BILL_STATUSES)];
             
             if (params.companyId) whereConditions.push(eq(bills.companyId, params.companyId));
             if (params.startDate) whereConditions.push(gte(bills.date, new Date(params.startDate)));
@@ -25,15 +31,15 @@ export default async function (fastify: FastifyInstance) {
             
             // Get basic metrics
             const [salesMetrics] = await db.select({
-                totalSales: sum(bills.totalAmount),
+                totalSales: sum(bills.baseTotalAmount),
                 totalBills: count(),
-                averageOrderValue: sql`AVG(${bills.totalAmount})`
+                averageOrderValue: sql`AVG(${bills.baseTotalAmount})`
             }).from(bills).where(whereClause);
             
             // Get payment metrics
             const [paymentMetrics] = await db.select({
-                paidAmount: sum(sql`CASE WHEN ${bills.paymentStatus} = 'paid' THEN ${bills.totalAmount} ELSE 0 END`),
-                pendingAmount: sum(sql`CASE WHEN ${bills.paymentStatus} = 'pending' THEN ${bills.totalAmount} ELSE 0 END`)
+                paidAmount: sum(bills.baseAmountPaid),
+                pendingAmount: sum(bills.baseBalanceDue)
             }).from(bills).where(whereClause);
             
             // Get customer count
@@ -49,7 +55,7 @@ export default async function (fastify: FastifyInstance) {
             
             const lastMonthConditions = [...(whereConditions || []), gte(bills.date, lastMonth)];
             const [lastMonthMetrics] = await db.select({
-                lastMonthSales: sum(bills.totalAmount),
+                lastMonthSales: sum(bills.baseTotalAmount),
                 lastMonthBills: count()
             }).from(bills).where(and(...lastMonthConditions));
             
@@ -90,7 +96,7 @@ export default async function (fastify: FastifyInstance) {
             });
             
             const params = querySchema.parse(req.query);
-            let whereConditions = [];
+            let whereConditions = [eq(bills.type, 'sale'), notInArray(bills.status, VOIDED_BILL_STATUSES)];
             
             if (params.companyId) whereConditions.push(eq(bills.companyId, params.companyId));
             if (params.startDate) whereConditions.push(gte(bills.date, new Date(params.startDate)));
@@ -101,9 +107,9 @@ export default async function (fastify: FastifyInstance) {
             // Get sales data grouped by period
             const salesData = await db.select({
                 period: sql`DATE_TRUNC(${params.groupBy}, ${bills.date})`,
-                totalSales: sum(bills.totalAmount),
+                totalSales: sum(bills.baseTotalAmount),
                 totalBills: count(),
-                averageOrderValue: sql`AVG(${bills.totalAmount})`
+                averageOrderValue: sql`AVG(${bills.baseTotalAmount})`
             })
             .from(bills)
             .where(whereClause)
@@ -114,13 +120,13 @@ export default async function (fastify: FastifyInstance) {
             const topCustomers = await db.select({
                 customerId: bills.customerId,
                 customerName: bills.customerName,
-                totalAmount: sum(bills.totalAmount),
+                totalAmount: sum(bills.baseTotalAmount),
                 billsCount: count()
             })
             .from(bills)
             .where(whereClause)
             .groupBy(bills.customerId, bills.customerName)
-            .orderBy(desc(sum(bills.totalAmount)))
+            .orderBy(desc(sum(bills.baseTotalAmount)))
             .limit(10);
             
             const report = {
@@ -166,7 +172,7 @@ export default async function (fastify: FastifyInstance) {
             });
             
             const params = querySchema.parse(req.query);
-            let whereConditions = [];
+            let whereConditions = [eq(bills.type, 'sale'), notInArray(bills.status, VOIDED_BILL_STATUSES)];
             
             if (params.companyId) whereConditions.push(eq(bills.companyId, params.companyId));
             if (params.startDate) whereConditions.push(gte(bills.date, new Date(params.startDate)));
@@ -177,15 +183,15 @@ export default async function (fastify: FastifyInstance) {
             const customerSales = await db.select({
                 customerId: bills.customerId,
                 customerName: bills.customerName,
-                totalAmount: sum(bills.totalAmount),
+                totalAmount: sum(bills.baseTotalAmount),
                 billsCount: count(),
                 lastPurchaseDate: sql`MAX(${bills.date})`,
-                averageOrderValue: sql`AVG(${bills.totalAmount})`
+                averageOrderValue: sql`AVG(${bills.baseTotalAmount})`
             })
             .from(bills)
             .where(whereClause)
             .groupBy(bills.customerId, bills.customerName)
-            .orderBy(desc(sum(bills.totalAmount)));
+            .orderBy(desc(sum(bills.baseTotalAmount)));
             
             const totalAmount = customerSales.reduce((sum, customer) => sum + Number(customer.totalAmount), 0);
             
@@ -222,7 +228,7 @@ export default async function (fastify: FastifyInstance) {
             });
             
             const params = querySchema.parse(req.query);
-            let whereConditions = [];
+            let whereConditions = [eq(bills.type, 'sale'), notInArray(bills.status, VOIDED_BILL_STATUSES)];
             
             if (params.companyId) whereConditions.push(eq(bills.companyId, params.companyId));
             if (params.startDate) whereConditions.push(gte(bills.date, new Date(params.startDate)));
@@ -233,7 +239,8 @@ export default async function (fastify: FastifyInstance) {
             // Extract product data from bill items
             const billsWithItems = await db.select({
                 items: bills.items,
-                totalAmount: bills.totalAmount
+                totalAmount: bills.totalAmount,
+                exchangeRate: bills.exchangeRate
             }).from(bills).where(whereClause);
             
             const productSales: { [key: string]: any } = {};
@@ -251,7 +258,7 @@ export default async function (fastify: FastifyInstance) {
                         };
                     }
                     productSales[item.name].quantitySold += item.quantity;
-                    productSales[item.name].totalAmount += item.total;
+                    productSales[item.name].totalAmount += toBaseCurrency(item.total, Number(bill.exchangeRate));
                 });
             });
             
@@ -280,6 +287,55 @@ export default async function (fastify: FastifyInstance) {
         }
     });
 
+    // Stock on hand at cost price, of the company or of one warehouse
+    fastify.get("/stock-valuation", { preHandler: [fastify.authenticate, requireCompanyAccess()] }, async (req, reply) => {
+        try {
+            const querySchema = z.object({
+                companyId: z.string(),
+                warehouseId: z.string().optional()
+            });
+
+            const params = querySchema.parse(req.query);
+            if (params.warehouseId) {
+                await warehouseService.assertWarehouse(params.companyId, params.warehouseId);
+            }
+            const valuation = await productService.valuation(params.companyId, params.warehouseId);
+
+            return reply.send({
+                status: 'success',
+                data: valuation
+            });
+        } catch (error: any) {
+            return reply.code(error.message === 'Warehouse not found' ? 404 : 500).send({
+                status: 'error',
+                message: error.message || "Failed to fetch stock valuation"
+            });
+        }
+    });
+
+    // Batches in stock that expire within the given number of days, expired ones included
+    fastify.get("/expiring-batches", { preHandler: [fastify.authenticate, requireCompanyAccess()] }, async (req, reply) => {
+        try {
+            const querySchema = z.object({
+                companyId: z.string(),
+                days: z.string().optional().transform(val => val ? parseInt(val) : EXPIRY_ALERT_DAYS).pipe(z.number().int().min(0))
+            });
+
+            const params = querySchema.parse(req.query);
+            const batches = await batchService.expiring(params.companyId, params.days);
+
+            return reply.send({
+                status: 'success',
+                data: batches
+            });
+        } catch (error: any) {
+            return reply.code(500).send({
+                status: 'error',
+                message: error.message || "Failed to fetch expiring batches"
+            });
+        }
+    });
+
     // Get aging report
     fastify.get("/aging", { preHandler: [fastify.authenticate] }, async (req, reply) => {
         try {
@@ -292,7 +348,7 @@ export default async function (fastify: FastifyInstance) {
             const params = querySchema.parse(req.query);
             const asOfDate = params.asOfDate ? new Date(params.asOfDate) : new Date();
             
-            let whereConditions = [eq(bills.paymentStatus, 'pending')];
+            let whereConditions = [sql`${bills.paymentStatus} <> 'paid'`, eq(bills.type, 'sale'), notInArray(bills.status, VOIDED_BILL_STATUSES)];
             
             if (params.companyId) whereConditions.push(eq(bills.companyId, params.companyId));
             if (params.customerId) whereConditions.push(eq(bills.customerId, params.customerId));
@@ -300,7 +356,7 @@ export default async function (fastify: FastifyInstance) {
             const outstandingBills = await db.select({
                 customerId: bills.customerId,
                 customerName: bills.customerName,
-                totalAmount: bills.totalAmount,
+                balanceDue: bills.baseBalanceDue,
                 dueDate: bills.dueDate
             })
             .from(bills)
@@ -322,7 +378,7 @@ export default async function (fastify: FastifyInstance) {
                     };
                 }
                 
-                const amount = Number(bill.totalAmount);
+                const amount = Number(bill.balanceDue);
                 const daysPastDue = Math.floor((asOfDate.getTime() - bill.dueDate.getTime()) / (1000 * 60 * 60 * 24));
                 
                 customerAging[bill.customerId].totalOutstanding += amount;
@@ -0,0 +1,121 @@
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { stockService } from "../services/stockService";
+import { inventoryService } from "../services/inventoryService";
+import { requireCompanyAccess } from "../plugins/roleGuard";
+
+export default async function (fastify: FastifyInstance) {
+    // Stock, reserved and available quantities of a company's products
+    fastify.get("/availability", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const querySchema = z.object({
+                companyId: z.string(),
+                productIds: z.string().optional().transform(val => val ? val.split(',').map(id => id.trim()).filter(Boolean) : undefined)
+            });
+
+            const params = querySchema.parse(req.query);
+            const availability = await stockService.availability(params.companyId, params.productIds);
+            return reply.send({
+                status: 'success',
+                data: availability
+            });
+        } catch (error: any) {
+            return reply.code(400).send({
+                status: 'error',
+                message: error.message || "Failed to fetch stock availability"
+            });
+        }
+    });
+
+    // Active reservations of draft bills and sales orders
+    fastify.get("/reservations", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const querySchema = z.object({
+                companyId: z.string(),
+                productId: z.string().optional(),
+                billId: z.string().optional(),
+                reference: z.string().optional()
+            });
+
+            const { companyId, ...filters } = querySchema.parse(req.query);
+            const reservations = await stockService.listReservations(companyId, filters);
+            return reply.send({
+                status: 'success',
+                data: reservations
+            });
+        } catch (error: any) {
+            return reply.code(400).send({
+                status: 'error',
+                message: error.message || "Failed to fetch reservations"
+            });
+        }
+    });
+
+    // Reserve stock for a sales order
+    fastify.post("/reservations", { preHandler: [fastify.authenticate, fastify.idempotent] }, async (req, reply) => {
+        try {
+            const reservationSchema = z.object({
+                companyId: z.string(),
+                reference: z.string().min(1).max(64),
+                items: z.array(z.object({
+                    productId: z.string(),
+                    quantity: z.number().int().positive()
+                })).min(1),
+                expiresAt: z.string().datetime().optional()
+            });
+
+            const data = reservationSchema.parse(req.body);
+            const reservations = await stockService.reserveForSalesOrder({
+                ...data,
+                expiresAt: data.expiresAt ? new Date(data.expiresAt) : undefined
+            }, (req.user as any).id);
+            return reply.code(201).send({
+                status: 'success',
+                data: reservations,
+                message: 'Stock reserved successfully'
+            });
+        } catch (error: any) {
+            return reply.code(400).send({
+                status: 'error',
+                message: error.message || "Failed to reserve stock"
+            });
+        }
+    });
+
+    // Release a reservation
+    fastify.delete("/reservations/:id", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const released = await stockService.release(id);
+            return reply.send({
+                status: 'success',
+                data: released,
+                message: 'Reservation released successfully'
+            });
+        } catch (error: any) {
+            return reply.code(error.message === 'Reservation not found' ? 404 : 500).send({
+                status: 'error',
+                message: error.message || "Failed to release reservation"
+            });
+        }
+    });
+
+    // Books stock changed outside the ledger (offline sync, products from before the ledger)
+    // so the ledger adds up to products.stock again
+    fastify.post("/reconcile", { preHandler: [fastify.authenticate, requireCompanyAccess()] }, async (req, reply) => {
+        try {
+            const { companyId } = z.object({ companyId: z.string() }).parse(req.body);
+            const reconciled = await inventoryService.reconcile(companyId);
+            return reply.send({
+                status: 'success',
+                data: reconciled,
+                message: reconciled.length > 0 ? `Reconciled ${reconciled.length} products` : 'Stock ledger is in line with stock'
+            });
+        } catch (error: any) {
+            return reply.code(500).send({
+                status: 'error',
+                message: error.message || "Failed to reconcile stock"
+            });
+        }
+    });
+}
@@ -0,0 +1,108 @@
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { STOCK_TRANSFER_STATUSES } from "../db/schema";
+import { stockTransferService } from "../services/stockTransferService";
+import { requireCompanyAccess } from "../plugins/roleGuard";
+
+function errorCode(error: any): number {
+    return / not found$/.test(error.message) ? 404 : 400;
+}
+
+export default async function (fastify: FastifyInstance) {
+    // The company's transfers, most recent first
+    fastify.get("/", { preHandler: [fastify.authenticate, requireCompanyAccess()] }, async (req, reply) => {
+        try {
+            const querySchema = z.object({
+                companyId: z.string(),
+                warehouseId: z.string().optional(),
+                status: z.enum(STOCK_TRANSFER_STATUSES).optional(),
+                startDate: z.string().optional(),
+                endDate: z.string().optional()
+            });
+
+            const params = querySchema.parse(req.query);
+            const transfers = await stockTransferService.listTransfers({
+                ...params,
+                startDate: params.startDate ? new Date(params.startDate) : undefined,
+                endDate: params.endDate ? new Date(params.endDate) : undefined
+            });
+            return reply.send({
+                status: 'success',
+                data: transfers
+            });
+        } catch (error: any) {
+            return reply.code(400).send({
+                status: 'error',
+                message: error.message || "Failed to fetch stock transfers"
+            });
+        }
+    });
+
+    // Move goods between two of the company's warehouses; the stock moves right away
+    fastify.post("/", { preHandler: [fastify.authenticate, requireCompanyAccess(), fastify.idempotent] }, async (req, reply) => {
+        try {
+            const createTransferSchema = z.object({
+                companyId: z.string(),
+                fromWarehouseId: z.string(),
+                toWarehouseId: z.string(),
+                date: z.string().optional(),
+                items: z.array(z.object({
+                    productId: z.string(),
+                    quantity: z.number().int().positive()
+                })).min(1),
+                notes: z.string().optional()
+            });
+
+            const data = createTransferSchema.parse(req.body);
+            const transfer = await stockTransferService.createTransfer({
+                ...data,
+                date: data.date ? new Date(data.date) : undefined
+            }, (req.user as any).id);
+            return reply.code(201).send({
+                status: 'success',
+                data: transfer,
+                message: 'Stock transferred successfully'
+            });
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to transfer stock"
+            });
+        }
+    });
+
+    fastify.get("/:id", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const transfer = await stockTransferService.getTransfer(id, (req.user as any).id);
+            return reply.send({
+                status: 'success',
+                data: transfer
+            });
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to fetch stock transfer"
+            });
+        }
+    });
+
+    // Cancel the transfer; the goods move back to the source warehouse
+    fastify.post("/:id/cancel", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const { reason } = z.object({ reason: z.string().min(1) }).parse(req.body ?? {});
+            const cancelled = await stockTransferService.cancel(id, reason, (req.user as any).id);
+            return reply.send({
+                status: 'success',
+                data: cancelled,
+                message: 'Stock transfer cancelled'
+            });
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to cancel stock transfer"
+            });
+        }
+    });
+}
@@ -0,0 +1,150 @@
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { warehouseService } from "../services/warehouseService";
+import { requireCompanyAccess } from "../plugins/roleGuard";
+
+const warehouseSchema = {
+    name: z.string().min(1).max(100),
+    code: z.string().max(20).optional(),
+    address: z.string().optional(),
+    isActive: z.boolean().optional()
+};
+
+function errorCode(error: any): number {
+    if (error.message === 'Warehouse not found') return 404;
+    return / already exists$/.test(error.message) ? 409 : 400;
+}
+
+export default async function (fastify: FastifyInstance) {
+    // The company's warehouses, the default first
+    fastify.get("/", { preHandler: [fastify.authenticate, requireCompanyAccess()] }, async (req, reply) => {
+        try {
+            const querySchema = z.object({
+                companyId: z.string(),
+                includeInactive: z.string().optional().transform(val => val === 'true')
+            });
+
+            const params = querySchema.parse(req.query);
+            const found = await warehouseService.list(params.companyId, params.includeInactive);
+            return reply.send({
+                status: 'success',
+                data: found
+            });
+        } catch (error: any) {
+            return reply.code(400).send({
+                status: 'error',
+                message: error.message || "Failed to fetch warehouses"
+            });
+        }
+    });
+
+    // Create a warehouse; a company's first one becomes its default and takes over its stock
+    fastify.post("/", { preHandler: [fastify.authenticate, requireCompanyAccess(), fastify.idempotent] }, async (req, reply) => {
+        try {
+            const data = z.object({ ...warehouseSchema, companyId: z.string() }).parse(req.body);
+            const warehouse = await warehouseService.createWarehouse(data, (req.user as any).id);
+            return reply.code(201).send({
+                status: 'success',
+                data: warehouse,
+                message: 'Warehouse created successfully'
+            });
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to create warehouse"
+            });
+        }
+    });
+
+    fastify.get("/:id", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const warehouse = await warehouseService.getWarehouse(id, (req.user as any).id);
+            return reply.send({
+                status: 'success',
+                data: warehouse
+            });
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to fetch warehouse"
+            });
+        }
+    });
+
+    fastify.put("/:id", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const changes = z.object(warehouseSchema).partial().parse(req.body);
+            const warehouse = await warehouseService.updateWarehouse(id, changes, (req.user as any).id);
+            return reply.send({
+                status: 'success',
+                data: warehouse,
+                message: 'Warehouse updated successfully'
+            });
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to update warehouse"
+            });
+        }
+    });
+
+    // Delete a warehouse nothing refers to; others are deactivated instead
+    fastify.delete("/:id", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            await warehouseService.deleteWarehouse(id, (req.user as any).id);
+            return reply.send({
+                status: 'success',
+                message: 'Warehouse deleted successfully'
+            });
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to delete warehouse"
+            });
+        }
+    });
+
+    // Make the warehouse the one that takes movements naming no warehouse
+    fastify.post("/:id/default", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const warehouse = await warehouseService.setDefault(id, (req.user as any).id);
+            return reply.send({
+                status: 'success',
+                data: warehouse,
+                message: 'Default warehouse updated'
+            });
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to set the default warehouse"
+            });
+        }
+    });
+
+    // Stock the warehouse holds of each active product
+    fastify.get("/:id/stock", { preHandler: [fastify.authenticate] }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+            const querySchema = z.object({
+                search: z.string().optional(),
+                inStock: z.string().optional().transform(val => val === 'true')
+            });
+
+            const filters = querySchema.parse(req.query);
+            const stock = await warehouseService.stock(id, (req.user as any).id, filters);
+            return reply.send({
+                status: 'success',
+                data: stock
+            });
+        } catch (error: any) {
+            return reply.code(errorCode(error)).send({
+                status: 'error',
+                message: error.message || "Failed to fetch warehouse stock"
+            });
+        }
+    });
+}
@@ -0,0 +1,326 @@
+import { db } from '../db/drizzle';
+import { randomUUID } from 'crypto';
+import { companies, productBatches, products, SalesType, SelectProduct, SelectProductBatch } from '../db/schema';
+import { and, asc, eq, gt, inArray, isNull, lte, sql } from 'drizzle-orm';
+import { BillLineInput } from '../utils/billCalculator';
+import { roundCurrency } from '../utils/gst';
+import { inventoryService } from './inventoryService';
+import { notificationService } from './notificationService';
+
+// Batches expiring within this many days are notified once and listed by default
+export const EXPIRY_ALERT_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface BatchInput {
+    batchNumber: string;
+    manufacturingDate?: Date;
+    expiryDate?: Date;
+    mrp?: number;
+    costPrice?: number;
+}
+
+export interface BatchOpeningStock {
+    quantity: number;
+    warehouseId?: string;
+    reason?: string;
+}
+
+export interface BatchListFilters {
+    inStock?: boolean;
+    includeExpired?: boolean;
+}
+
+export interface ExpiringBatch {
+    batchId: string;
+    productId: string;
+    productName: string;
+    batchNumber: string;
+    expiryDate: Date;
+    daysToExpiry: number;   // negative once expired
+    quantity: number;
+    mrp: number | null;
+    value: number;          // quantity at the batch's cost price, or the product's
+}
+
+// Batches (lots) of products with manufacturing and expiry dates and batch-wise MRP. Purchases
+// name the batch the goods arrive in; sales pick one, earliest expiry first (FEFO), and their
+// lines carry it. Batch quantities move with the stock ledger.
+export class BatchService {
+    async listBatches(productId: string, filters: BatchListFilters = {}): Promise<SelectProductBatch[]> {
+        return db.select()
+            .from(productBatches)
+            .where(and(
+                eq(productBatches.productId, productId),
+                filters.inStock ? gt(productBatches.quantity, 0) : undefined,
+                filters.includeExpired === false ? sql`(${productBatches.expiryDate} IS NULL OR ${productBatches.expiryDate} >= ${this.today()})` : undefined
+            ))
+            .orderBy(sql`${productBatches.expiryDate} ASC NULLS LAST`, asc(productBatches.createdAt));
+    }
+
+    async getBatch(productId: string, batchId: string): Promise<SelectProductBatch> {
+        const [found] = await db.select()
+            .from(productBatches)
+            .where(and(eq(productBatches.id, batchId), eq(productBatches.productId, productId)))
+            .limit(1);
+        if (!found) {
+            throw new Error('Batch not found');
+        }
+        return found;
+    }
+
+    // Stock the batch starts with is booked as opening stock, in the default warehouse unless
+    // another is named
+    async createBatch(product: SelectProduct, input: BatchInput, userId: number, opening?: BatchOpeningStock): Promise<SelectProductBatch> {
+        const id = randomUUID();
+        const stock = opening?.quantity
+            ? [inventoryService.movementQuery(inventoryService.lines([{ productId: product.id, quantity: opening.quantity, unitCost: input.costPrice, batchId: id }]), {
+                companyId: product.companyId,
+                type: 'opening',
+                sourceType: 'product',
+                sourceId: product.id,
+                warehouseId: opening.warehouseId,
+                reference: input.batchNumber,
+                reason: opening.reason ?? 'Opening stock',
+                userId
+            })]
+            : [];
+        try {
+            await db.batch([
+                db.insert(productBatches).values({ ...this.toColumns(input), id, batchNumber: input.batchNumber.trim(), companyId: product.companyId, productId: product.id, createdBy: userId }),
+                ...stock
+            ]);
+        } catch (error) {
+            throw this.duplicateError(error, input.batchNumber) ?? error;
+        }
+        return this.getBatch(product.id, id);
+    }
+
+    // A changed expiry date is notified again when it comes near
+    async updateBatch(productId: string, batchId: string, changes: Partial<BatchInput>): Promise<SelectProductBatch> {
+        const batch = await this.getBatch(productId, batchId);
+        const expiryChanged = changes.expiryDate !== undefined && changes.expiryDate.getTime() !== batch.expiryDate?.getTime();
+        try {
+            const [updated] = await db.update(productBatches)
+                .set({ ...this.toColumns(changes), ...(expiryChanged && { expiryAlertedAt: null }), updatedAt: new Date() })
+                .where(eq(productBatches.id, batchId))
+                .returning();
+            return updated;
+        } catch (error) {
+            throw this.duplicateError(error, changes.batchNumber ?? batch.batchNumber) ?? error;
+        }
+    }
+
+    // Puts the batch on each line of batch-tracked products. Sales take the named batch, or
+    // split the line across the batches in stock that have not expired, earliest expiry first;
+    // a quantity no batch covers stays on a line without one. Purchases name the batch by
+    // number, and a new number creates it. Lines invoiced from a challan are left alone.
+    async assignBatches(companyId: string, type: SalesType, items: BillLineInput[], userId?: number): Promise<BillLineInput[]> {
+        const productIds = [...new Set(items.filter(item => item.productId && !item.challanId).map(item => item.productId!))];
+        if (productIds.length === 0) return items;
+
+        const lineProducts = await db.select()
+            .from(products)
+            .where(and(eq(products.companyId, companyId), inArray(products.id, productIds)));
+        const batches = await db.select()
+            .from(productBatches)
+            .where(and(eq(productBatches.companyId, companyId), inArray(productBatches.productId, productIds)))
+            .orderBy(sql`${productBatches.expiryDate} ASC NULLS LAST`, asc(productBatches.createdAt));
+        const remaining = new Map(batches.map(batch => [batch.id, batch.quantity]));
+
+        const assigned: BillLineInput[] = [];
+        for (const item of items) {
+            const product = lineProducts.find(entry => entry.id === item.productId);
+            if (!product || item.challanId || (!product.trackBatches && !item.batchId && !(type === 'purchase' && item.batchNumber))) {
+                assigned.push(item);
+                continue;
+            }
+
+            if (item.batchId) {
+                const batch = batches.find(entry => entry.id === item.batchId && entry.productId === product.id);
+                if (!batch) {
+                    throw new Error(`Batch not found for ${product.name}`);
+                }
+                if (type === 'sale') this.assertNotExpired(batch, product);
+                remaining.set(batch.id, (remaining.get(batch.id) ?? 0) - item.quantity);
+                assigned.push(this.withBatch(item, batch));
+            } else if (type === 'purchase') {
+                if (!item.batchNumber?.trim()) {
+                    throw new Error(`${product.name} is tracked by batch; give the purchase line a batchNumber`);
+                }
+                const batch = batches.find(entry => entry.productId === product.id && entry.batchNumber === item.batchNumber!.trim())
+                    ?? await this.purchaseBatch(product, item, userId);
+                if (!batches.includes(batch)) batches.push(batch);
+                assigned.push(this.withBatch(item, batch));
+            } else {
+                assigned.push(...this.pickBatches(item, batches.filter(batch => batch.productId === product.id && !this.isExpired(batch)), remaining));
+            }
+        }
+        return assigned;
+    }
+
+    // Batches in stock expiring within `days`, soonest first; expired batches still in stock
+    // are included with a negative daysToExpiry
+    async expiring(companyId: string, days: number = EXPIRY_ALERT_DAYS): Promise<ExpiringBatch[]> {
+        const rows = await db.select({ batch: productBatches, productName: products.name, productCost: products.costPrice })
+            .from(productBatches)
+            .innerJoin(products, eq(products.id, productBatches.productId))
+            .where(and(
+                eq(productBatches.companyId, companyId),
+                gt(productBatches.quantity, 0),
+                lte(productBatches.expiryDate, new Date(this.today().getTime() + (days + 1) * DAY_MS - 1))
+            ))
+            .orderBy(asc(productBatches.expiryDate), asc(products.name));
+
+        return rows.map(({ batch, productName, productCost }) => this.toExpiring(batch, productName, productCost));
+    }
+
+    // Scheduler entry point: one notification per company for batches in stock that came
+    // within EXPIRY_ALERT_DAYS of expiry since the last run. Batches are claimed first so
+    // overlapping runs never notify twice.
+    async notifyExpiring(now: Date = new Date()): Promise<number> {
+        const claimed = await db.update(productBatches)
+            .set({ expiryAlertedAt: now })
+            .where(and(
+                isNull(productBatches.expiryAlertedAt),
+                gt(productBatches.quantity, 0),
+                lte(productBatches.expiryDate, new Date(now.getTime() + EXPIRY_ALERT_DAYS * DAY_MS))
+            ))
+            .returning();
+        if (claimed.length === 0) return 0;
+
+        const owners = await db.select({ id: companies.id, userId: companies.userId })
+            .from(companies)
+            .where(inArray(companies.id, [...new Set(claimed.map(batch => batch.companyId))]));
+        const names = await db.select({ id: products.id, name: products.name, costPrice: products.costPrice })
+            .from(products)
+            .where(inArray(products.id, [...new Set(claimed.map(batch => batch.productId))]));
+
+        for (const owner of owners) {
+            const expiring = claimed
+                .filter(batch => batch.companyId === owner.id)
+                .map(batch => {
+                    const product = names.find(entry => entry.id === batch.productId);
+                    return this.toExpiring(batch, product?.name ?? '', product?.costPrice ?? null, now);
+                })
+                .sort((a, b) => a.expiryDate.getTime() - b.expiryDate.getTime());
+            await notificationService.sendStockExpiry(owner.userId, owner.id, expiring);
+        }
+        return claimed.length;
+    }
+
+    // Splits a sales line across the batches, in order, that still have stock for this bill
+    private pickBatches(item: BillLineInput, batches: SelectProductBatch[], remaining: Map<string, number>): BillLineInput[] {
+        const picked: { batch?: SelectProductBatch; quantity: number }[] = [];
+        let quantity = item.quantity;
+        for (const batch of batches) {
+            if (quantity <= 0) break;
+            const available = remaining.get(batch.id) ?? 0;
+            if (available <= 0) continue;
+            const taken = Math.min(available, quantity);
+            remaining.set(batch.id, available - taken);
+            picked.push({ batch, quantity: taken });
+            quantity -= taken;
+        }
+        if (quantity > 0) picked.push({ quantity });
+        if (picked.length === 1) {
+            return [picked[0].batch ? this.withBatch(item, picked[0].batch) : item];
+        }
+
+        // A line discount in rupees is shared by quantity and serial numbers in order;
+        // client-computed values no longer apply
+        const { amount, taxAmount, total, ...line } = item;
+        let discountLeft = item.discountType === 'amount' ? item.discount ?? 0 : 0;
+        let offset = 0;
+        return picked.map((part, index) => {
+            const split: BillLineInput = { ...line, quantity: part.quantity, serialNumbers: item.serialNumbers?.slice(offset, offset + part.quantity) };
+            offset += part.quantity;
+            if (item.discountType === 'amount' && item.discount) {
+                const share = index === picked.length - 1 ? discountLeft : roundCurrency(item.discount * part.quantity / item.quantity);
+                discountLeft = roundCurrency(discountLeft - share);
+                split.discount = share;
+            }
+            return part.batch ? this.withBatch(split, part.batch) : split;
+        });
+    }
+
+    private async purchaseBatch(product: SelectProduct, item: BillLineInput, userId?: number): Promise<SelectProductBatch> {
+        const [created] = await db.insert(productBatches)
+            .values({
+                companyId: product.companyId,
+                productId: product.id,
+                batchNumber: item.batchNumber!.trim(),
+                manufacturingDate: item.manufacturingDate ? new Date(item.manufacturingDate) : undefined,
+                expiryDate: item.expiryDate ? new Date(item.expiryDate) : undefined,
+                mrp: item.mrp?.toString(),
+                costPrice: item.rate.toString(),
+                createdBy: userId
+            })
+            .onConflictDoNothing()
+            .returning();
+        // A concurrent purchase created it first
+        return created ?? (await db.select()
+            .from(productBatches)
+            .where(and(eq(productBatches.productId, product.id), eq(productBatches.batchNumber, item.batchNumber!.trim())))
+            .then(rows => rows[0]));
+    }
+
+    private withBatch(item: BillLineInput, batch: SelectProductBatch): BillLineInput {
+        return {
+            ...item,
+            batchId: batch.id,
+            batchNumber: batch.batchNumber,
+            expiryDate: batch.expiryDate?.toISOString().split('T')[0],
+            mrp: batch.mrp !== null ? Number(batch.mrp) : item.mrp,
+        };
+    }
+
+    private assertNotExpired(batch: SelectProductBatch, product: SelectProduct): void {
+        if (this.isExpired(batch)) {
+            throw new Error(`Batch ${batch.batchNumber} of ${product.name} expired on ${batch.expiryDate!.toISOString().split('T')[0]}`);
+        }
+    }
+
+    // Goods can be sold up to and including their expiry date
+    private isExpired(batch: SelectProductBatch): boolean {
+        return !!batch.expiryDate && batch.expiryDate < this.today();
+    }
+
+    private today(now: Date = new Date()): Date {
+        return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    }
+
+    private toExpiring(batch: SelectProductBatch, productName: string, productCost: string | null, now: Date = new Date()): ExpiringBatch {
+        const cost = Number(batch.costPrice ?? productCost ?? 0);
+        return {
+            batchId: batch.id,
+            productId: batch.productId,
+            productName,
+            batchNumber: batch.batchNumber,
+            expiryDate: batch.expiryDate!,
+            daysToExpiry: Math.round((batch.expiryDate!.getTime() - this.today(now).getTime()) / DAY_MS),
+            quantity: batch.quantity,
+            mrp: batch.mrp !== null ? Number(batch.mrp) : null,
+            value: roundCurrency(batch.quantity * cost),
+        };
+    }
+
+    private duplicateError(error: any, batchNumber: string): Error | undefined {
+        const cause = error?.cause ?? error;
+        if (cause?.code !== '23505' || cause?.constraint !== 'product_batches_product_batch_number_idx') return undefined;
+        return new Error(`Batch ${batchNumber} already exists for this product`);
+    }
+
+    // Numeric columns are stored as strings
+    private toColumns(input: Partial<BatchInput>) {
+        const { mrp, costPrice, batchNumber, ...rest } = input;
+        return {
+            ...rest,
+            batchNumber: batchNumber?.trim(),
+            mrp: mrp?.toString(),
+            costPrice: costPrice?.toString(),
+        };
+    }
+}
+
+export const batchService = new BatchService();
@@ -0,0 +1,66 @@
+import { db } from '../db/drizzle';
+import { bills, creditNotes, customers, payments } from '../db/schema';
+import { eq, sql } from 'drizzle-orm';
+
+// Keeps bills.amountPaid/balanceDue/paymentStatus and the customer's outstanding
+// balance derived from the payments table and any credit/debit notes issued against
+// the bill. Also derives the paid/partially_paid lifecycle statuses; cancelled and
+// void bills carry no balance. The update builders are exposed so callers can run them in the same
+// db.batch() as the payment or note write.
+export class BillBalanceService {
+    private paidAmount() {
+        return sql`COALESCE((SELECT SUM(${payments.amount}) FROM ${payments} WHERE ${payments.billId} = ${bills.id} AND ${payments.status} = 'completed'), 0)`;
+    }
+
+    // Bill total after credit notes (subtracted) and debit notes (added)
+    private netTotal() {
+        return sql`(${bills.totalAmount} + COALESCE((SELECT SUM(CASE WHEN ${creditNotes.noteType} = 'debit' THEN ${creditNotes.totalAmount} ELSE -${creditNotes.totalAmount} END) FROM ${creditNotes} WHERE ${creditNotes.billId} = ${bills.id} AND ${creditNotes.status} = 'issued'), 0))`;
+    }
+
+    billUpdate(billId: string) {
+        const paid = this.paidAmount();
+        const net = this.netTotal();
+        return db.update(bills)
+            .set({
+                amountPaid: sql`${paid}`,
+                balanceDue: sql`CASE WHEN ${bills.status} IN ('cancelled', 'void') THEN 0 ELSE ${net} - ${paid} END`,
+                paymentStatus: sql`CASE WHEN ${paid} >= ${net} THEN 'paid' WHEN ${paid} > 0 THEN 'partial' ELSE 'pending' END`,
+                status: sql`CASE
+                    WHEN ${bills.status} IN ('draft', 'cancelled', 'void') THEN ${bills.status}
+                    WHEN ${paid} >= ${net} THEN 'paid'
+                    WHEN ${bills.status} = 'overdue' THEN 'overdue'
+                    WHEN ${paid} > 0 THEN 'partially_paid'
+                    WHEN ${bills.status} IN ('paid', 'partially_paid') THEN (CASE WHEN ${bills.sentAt} IS NOT NULL THEN 'sent' ELSE 'finalized' END)
+                    ELSE ${bills.status} END`,
+                updatedAt: new Date()
+            })
+            .where(eq(bills.id, billId));
+    }
+
+    // outstandingAmount is what the party owes on sales; balance nets off what is owed to
+    // them on purchase bills (positive = receivable). Both are in INR. Drafts are not issued
+    // yet and owe nothing.
+    customerUpdate(customerId: string) {
+        const outstanding = sql`COALESCE((SELECT SUM(${bills.baseBalanceDue}) FROM ${bills} WHERE ${bills.customerId} = ${customers.id} AND ${bills.type} = 'sale' AND ${bills.status} <> 'draft'), 0)`;
+        const payable = sql`COALESCE((SELECT SUM(${bills.baseBalanceDue}) FROM ${bills} WHERE ${bills.customerId} = ${customers.id} AND ${bills.type} = 'purchase' AND ${bills.status} <> 'draft'), 0)`;
+        return db.update(customers)
+            .set({
+                outstandingAmount: sql`${outstanding}`,
+                balance: sql`${outstanding} - ${payable}`,
+                updatedAt: new Date()
+            })
+            .where(eq(customers.id, customerId));
+    }
+
+    async recalculateBill(billId: string): Promise<void> {
+        const [bill] = await db.select({ customerId: bills.customerId }).from(bills).where(eq(bills.id, billId)).limit(1);
+        if (!bill) return;
+        await db.batch([this.billUpdate(billId), this.customerUpdate(bill.customerId)]);
+    }
+
+    async recalculateCustomer(customerId: string): Promise<void> {
+        await this.customerUpdate(customerId);
+    }
+}
+
+export const billBalanceService = new BillBalanceService();
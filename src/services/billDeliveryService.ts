@@ -0,0 +1,151 @@
+import { db } from '../db/drizzle';
+import { billDeliveries, bills, companies, DeliveryChannel, SelectBill, SelectBillDelivery, SelectCompany } from '../db/schema';
+import { and, desc, eq } from 'drizzle-orm';
+import { invoicePdfService } from './invoicePdfService';
+import { fileUploadService } from './fileUploadService';
+import { deliveryTransports, OutgoingMessage } from './deliveryTransports';
+import { billLifecycleService, VOIDED_BILL_STATUSES } from './billLifecycleService';
+import { stockService } from './stockService';
+import { BillTemplateContext, DEFAULT_BILL_TEMPLATES, renderTemplate, textToHtml } from '../utils/deliveryTemplates';
+import { formatCurrencyAmount } from '../utils/currency';
+
+export interface SendBillOptions {
+    channel: DeliveryChannel;
+    to?: string;        // defaults to the customer email or phone on the bill
+    subject?: string;   // template overrides; may use the same {{placeholders}}
+    message?: string;
+    resendOf?: string;
+}
+
+const formatDate = (value: Date | string | null | undefined): string =>
+    value ? new Date(value).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' }) : '';
+
+export class BillDeliveryService {
+    // Delivers the bill with its PDF through the channel's transport and logs the attempt.
+    // A failed attempt is logged and returned rather than thrown; a draft or finalized bill
+    // moves to sent only once a delivery succeeds, and is checked for that move before anything
+    // reaches the customer.
+    async send(billId: string, options: SendBillOptions, userId: number): Promise<SelectBillDelivery> {
+        const { bill, company } = await this.loadBill(billId);
+        if (VOIDED_BILL_STATUSES.includes(bill.status)) {
+            throw new Error(`A ${bill.status} bill cannot be sent`);
+        }
+        if (bill.type === 'purchase') {
+            throw new Error('Purchase bills are not sent to the supplier');
+        }
+
+        const to = options.to || (options.channel === 'email' ? bill.customerEmail : bill.customerPhone);
+        if (!to) {
+            throw new Error(`Bill ${bill.billNumber} has no customer ${options.channel === 'email' ? 'email address' : 'phone number'}; pass one explicitly`);
+        }
+        const marksSent = bill.status === 'draft' || bill.status === 'finalized';
+        if (marksSent) {
+            billLifecycleService.assertTransition(bill, 'sent');
+            await stockService.assertCanFinalize(bill);
+        }
+
+        const pdf = await invoicePdfService.renderBill(bill.id);
+        const file = await fileUploadService.uploadFile(pdf.buffer, pdf.fileName, 'application/pdf', userId, bill.companyId, 'bill');
+        const pdfUrl = `${process.env.BASE_URL || 'http://localhost:4000'}${file.url}`;
+
+        const context = this.templateContext(bill, company, pdfUrl);
+        const template = DEFAULT_BILL_TEMPLATES[options.channel];
+        const subjectTemplate = options.subject ?? template.subject;
+        const message: OutgoingMessage = {
+            channel: options.channel,
+            to,
+            subject: options.channel === 'email' && subjectTemplate ? renderTemplate(subjectTemplate, context) : undefined,
+            text: renderTemplate(options.message ?? template.body, context),
+            mediaUrl: pdfUrl,
+        };
+        if (options.channel === 'email') {
+            message.html = textToHtml(message.text);
+            message.attachments = [{ filename: pdf.fileName, content: pdf.buffer, contentType: 'application/pdf' }];
+        }
+
+        const transport = deliveryTransports.get(options.channel);
+        let providerMessageId: string | undefined;
+        let error: string | undefined;
+        try {
+            ({ messageId: providerMessageId } = await transport.send(message));
+        } catch (err: any) {
+            error = err.message || 'Unknown delivery error';
+        }
+
+        const [delivery] = await db.insert(billDeliveries).values({
+            billId: bill.id,
+            companyId: bill.companyId,
+            channel: options.channel,
+            recipient: to,
+            subject: message.subject,
+            message: message.text,
+            pdfUrl,
+            transport: transport.name,
+            status: error ? 'failed' : 'sent',
+            providerMessageId,
+            error,
+            resendOf: options.resendOf,
+            sentBy: userId,
+        }).returning();
+
+        if (!error && marksSent) {
+            await billLifecycleService.transition(bill.id, 'sent', { userId });
+        }
+        return delivery;
+    }
+
+    // Repeats an earlier attempt with the same channel and message, optionally to a new recipient
+    async resend(billId: string, deliveryId: string, userId: number, to?: string): Promise<SelectBillDelivery> {
+        const [original] = await db.select()
+            .from(billDeliveries)
+            .where(and(eq(billDeliveries.id, deliveryId), eq(billDeliveries.billId, billId)))
+            .limit(1);
+        if (!original) {
+            throw new Error('Delivery not found');
+        }
+
+        return this.send(billId, {
+            channel: original.channel,
+            to: to || original.recipient,
+            subject: original.subject ?? undefined,
+            message: original.message,
+            resendOf: original.id,
+        }, userId);
+    }
+
+    async listDeliveries(billId: string): Promise<SelectBillDelivery[]> {
+        return db.select()
+            .from(billDeliveries)
+            .where(eq(billDeliveries.billId, billId))
+            .orderBy(desc(billDeliveries.createdAt));
+    }
+
+    private templateContext(bill: SelectBill, company: SelectCompany, pdfUrl: string): BillTemplateContext {
+        return {
+            companyName: company.name,
+            customerName: bill.customerName,
+            billNumber: bill.billNumber,
+            billDate: formatDate(bill.date),
+            dueDate: formatDate(bill.dueDate),
+            totalAmount: formatCurrencyAmount(bill.totalAmount, bill.currency),
+            balanceDue: formatCurrencyAmount(bill.balanceDue, bill.currency),
+            pdfUrl,
+        };
+    }
+
+    private async loadBill(billId: string): Promise<{ bill: SelectBill; company: SelectCompany }> {
+        const [row] = await db
+            .select({ bill: bills, company: companies })
+            .from(bills)
+            .innerJoin(companies, eq(bills.companyId, companies.id))
+            .where(eq(bills.id, billId))
+            .limit(1);
+
+        if (!row) {
+            throw new Error('Bill not found');
+        }
+        return row;
+    }
+}
+
+export const billDeliveryService = new BillDeliveryService();
@@ -0,0 +1,199 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { db } from '../db/drizzle';
+import { BillExportFilters, billExports, bills, SelectBillExport } from '../db/schema';
+import { and, asc, count, desc, eq, inArray, lt } from 'drizzle-orm';
+import { billService } from './billService';
+import { invoicePdfService } from './invoicePdfService';
+import { toCsv, CsvValue } from '../utils/csv';
+import { ZipWriter, ZIP_MAX_ENTRIES } from '../utils/zip';
+
+// Bills per export; narrower filters are needed beyond this
+export const BILL_EXPORT_MAX_BILLS = 5000;
+
+// Finished ZIPs are kept for download this long
+const RETENTION_DAYS = 7;
+
+// A running export that has not reported progress for this long is assumed to have died with
+// its server and is queued again
+const STALLED_AFTER_MS = 10 * 60 * 1000;
+
+// processedBills is written every this many bills
+const PROGRESS_EVERY = 10;
+
+const INDEX_HEADER = ['File', 'Bill Number', 'Type', 'Date', 'Due Date', 'Customer', 'Customer GSTIN', 'Status',
+    'Currency', 'Taxable Amount', 'Tax', 'Total', 'Balance Due'];
+
+// Bulk bill exports: every bill matching the list filters is rendered to PDF and packed into a
+// ZIP with an index.csv. Exports run in the background on the server that accepted them; the
+// scheduler picks up queued or stalled ones and deletes expired ZIPs.
+export class BillExportService {
+    private exportDir = path.join(process.cwd(), 'exports');
+
+    async createExport(filters: BillExportFilters, userId: number): Promise<SelectBillExport> {
+        const [{ total }] = await db.select({ total: count() }).from(bills).where(billService.listFilter(filters));
+        if (total === 0) {
+            throw new Error('No bills match the filters');
+        }
+        if (total > BILL_EXPORT_MAX_BILLS) {
+            throw new Error(`${total} bills match the filters; narrow them to at most ${BILL_EXPORT_MAX_BILLS} per export`);
+        }
+
+        const [created] = await db.insert(billExports).values({
+            companyId: filters.companyId,
+            userId,
+            filters,
+            status: 'queued',
+            totalBills: total,
+            expiresAt: new Date(Date.now() + RETENTION_DAYS * 24 * 60 * 60 * 1000),
+        }).returning();
+
+        setImmediate(() => {
+            this.process(created.id).catch(error => console.error(`Bill export ${created.id} failed:`, error));
+        });
+        return created;
+    }
+
+    async getExport(id: string, userId: number): Promise<SelectBillExport> {
+        const [found] = await db.select()
+            .from(billExports)
+            .where(and(eq(billExports.id, id), eq(billExports.userId, userId)))
+            .limit(1);
+        if (!found) {
+            throw new Error('Export not found');
+        }
+        return found;
+    }
+
+    async listExports(userId: number, companyId?: string): Promise<SelectBillExport[]> {
+        return db.select()
+            .from(billExports)
+            .where(and(eq(billExports.userId, userId), companyId ? eq(billExports.companyId, companyId) : undefined))
+            .orderBy(desc(billExports.createdAt));
+    }
+
+    // Path of a finished export's ZIP
+    async downloadPath(id: string, userId: number): Promise<{ filePath: string; fileName: string }> {
+        const found = await this.getExport(id, userId);
+        if (found.status !== 'completed' || !found.filePath) {
+            throw new Error(`Export is ${found.status}; the download is available once it has completed`);
+        }
+        if (found.expiresAt < new Date()) {
+            throw new Error('Export has expired; start a new one');
+        }
+        return { filePath: found.filePath, fileName: found.fileName ?? `${found.id}.zip` };
+    }
+
+    // Renders the export's bills into its ZIP. Claims the export first, so one started by the
+    // request and again by the scheduler only runs once.
+    async process(id: string): Promise<void> {
+        const [job] = await db.update(billExports)
+            .set({ status: 'running', startedAt: new Date(), processedBills: 0, updatedAt: new Date() })
+            .where(and(eq(billExports.id, id), eq(billExports.status, 'queued')))
+            .returning();
+        if (!job) return;
+
+        const filePath = path.join(this.exportDir, `${job.id}.zip`);
+        try {
+            const matching = await db.select()
+                .from(bills)
+                .where(billService.listFilter(job.filters))
+                .orderBy(asc(bills.date), asc(bills.billNumber));
+            if (matching.length > Math.min(BILL_EXPORT_MAX_BILLS, ZIP_MAX_ENTRIES - 1)) {
+                throw new Error(`${matching.length} bills match the filters; narrow them to at most ${BILL_EXPORT_MAX_BILLS} per export`);
+            }
+
+            await fs.mkdir(this.exportDir, { recursive: true });
+            const zip = await ZipWriter.create(filePath);
+            const index: CsvValue[][] = [INDEX_HEADER];
+            const used = new Set<string>();
+            let fileSize: number;
+            try {
+                for (const [position, bill] of matching.entries()) {
+                    const pdf = await invoicePdfService.renderBill(bill.id);
+                    const entryName = this.uniqueName(pdf.fileName, used);
+                    await zip.addFile(entryName, pdf.buffer, bill.updatedAt ?? new Date());
+                    index.push([
+                        entryName, bill.billNumber, bill.type, bill.date, bill.dueDate, bill.customerName, bill.customerGstin,
+                        bill.status, bill.currency, Number(bill.amount), Number(bill.taxAmount), Number(bill.totalAmount), Number(bill.balanceDue),
+                    ]);
+
+                    if ((position + 1) % PROGRESS_EVERY === 0) {
+                        await db.update(billExports)
+                            .set({ processedBills: position + 1, updatedAt: new Date() })
+                            .where(eq(billExports.id, job.id));
+                    }
+                }
+                await zip.addFile('index.csv', Buffer.from(toCsv(index), 'utf8'));
+                fileSize = await zip.close();
+            } catch (error) {
+                await zip.abort();
+                throw error;
+            }
+
+            await db.update(billExports)
+                .set({
+                    status: 'completed',
+                    totalBills: matching.length,
+                    processedBills: matching.length,
+                    fileName: this.downloadName(job.filters),
+                    filePath,
+                    fileSize,
+                    completedAt: new Date(),
+                    updatedAt: new Date(),
+                })
+                .where(eq(billExports.id, job.id));
+        } catch (error: any) {
+            await fs.rm(filePath, { force: true });
+            await db.update(billExports)
+                .set({ status: 'failed', error: error.message || 'Export failed', completedAt: new Date(), updatedAt: new Date() })
+                .where(eq(billExports.id, job.id));
+        }
+    }
+
+    // Scheduler entry point: requeues stalled exports, runs queued ones and removes expired ZIPs
+    async processPending(now: Date = new Date()): Promise<number> {
+        await db.update(billExports)
+            .set({ status: 'queued', updatedAt: now })
+            .where(and(eq(billExports.status, 'running'), lt(billExports.updatedAt, new Date(now.getTime() - STALLED_AFTER_MS))));
+
+        const queued = await db.select({ id: billExports.id })
+            .from(billExports)
+            .where(eq(billExports.status, 'queued'))
+            .orderBy(asc(billExports.createdAt));
+        for (const { id } of queued) {
+            await this.process(id);
+        }
+
+        const expired = await db.select({ id: billExports.id, filePath: billExports.filePath })
+            .from(billExports)
+            .where(lt(billExports.expiresAt, now));
+        for (const { filePath } of expired) {
+            if (filePath) await fs.rm(filePath, { force: true });
+        }
+        if (expired.length > 0) {
+            await db.delete(billExports).where(inArray(billExports.id, expired.map(entry => entry.id)));
+        }
+        return queued.length;
+    }
+
+    // bills-2024-04-01-to-2024-04-30.zip, or bills-all.zip without a date range
+    private downloadName(filters: BillExportFilters): string {
+        const day = (value?: string) => value ? new Date(value).toISOString().split('T')[0] : undefined;
+        const range = [day(filters.startDate), day(filters.endDate)];
+        if (!range[0] && !range[1]) return 'bills-all.zip';
+        return `bills-${range[0] ?? 'start'}-to-${range[1] ?? 'today'}.zip`;
+    }
+
+    // File names replace separators in bill numbers, so INV/1 and INV_1 would collide
+    private uniqueName(fileName: string, used: Set<string>): string {
+        let name = fileName;
+        for (let copy = 2; used.has(name); copy++) {
+            name = fileName.replace(/\.pdf$/, `-${copy}.pdf`);
+        }
+        used.add(name);
+        return name;
+    }
+}
+
+export const billExportService = new BillExportService();
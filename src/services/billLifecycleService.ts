@@ -0,0 +1,216 @@
+import { db } from '../db/drizzle';
+import { bills, BillStatus, creditNotes, InsertBills, SelectBill } from '../db/schema';
+import { and, eq, gt, inArray, isNull, lt, sql, SQL } from 'drizzle-orm';
+import { BatchItem } from 'drizzle-orm/batch';
+import { billBalanceService } from './billBalanceService';
+import { gstPostingService } from './gstPostingService';
+import { stockService } from './stockService';
+import { deliveryChallanService } from './deliveryChallanService';
+import { inventoryService } from './inventoryService';
+import { serialService } from './serialService';
+
+// Statuses a user can move a bill to. partially_paid and paid are never set directly:
+// billBalanceService derives them from payments.
+const TRANSITIONS: Record<BillStatus, BillStatus[]> = {
+    draft: ['finalized', 'sent', 'cancelled'],
+    finalized: ['sent', 'overdue', 'cancelled', 'void'],
+    sent: ['overdue', 'cancelled', 'void'],
+    partially_paid: ['overdue'],
+    overdue: ['sent', 'cancelled', 'void'],
+    paid: [],
+    cancelled: [],
+    void: [],
+};
+
+// Bills in these statuses no longer count towards sales, outstanding or GST
+export const VOIDED_BILL_STATUSES: BillStatus[] = ['cancelled', 'void'];
+
+// Issued bills that still expect payment; they turn overdue once the due date passes
+export const OPEN_BILL_STATUSES: BillStatus[] = ['finalized', 'sent', 'partially_paid'];
+
+// Fields that determine the bill's value, tax and stock movement; frozen once the bill leaves draft
+const LOCKED_FIELDS = ['items', 'charges', 'discount', 'discountType', 'roundOff', 'currency', 'exchangeRate', 'exportType', 'placeOfSupply', 'customerId', 'customerName', 'customerGstin', 'date', 'companyId', 'warehouseId'];
+
+export interface TransitionOptions {
+    reason?: string;
+    userId: number;
+}
+
+export class BillLifecycleService {
+    canTransition(from: BillStatus, to: BillStatus): boolean {
+        return (TRANSITIONS[from] ?? []).includes(to);
+    }
+
+    assertTransition(bill: SelectBill, to: BillStatus, reason?: string): void {
+        if (bill.status === to) {
+            throw new Error(`Bill ${bill.billNumber} is already ${to}`);
+        }
+        if (!this.canTransition(bill.status, to)) {
+            throw new Error(`Bill ${bill.billNumber} cannot move from ${bill.status} to ${to}`);
+        }
+        if (VOIDED_BILL_STATUSES.includes(to)) {
+            if (!reason?.trim()) {
+                throw new Error(`A reason is required to mark a bill as ${to}`);
+            }
+            if (Number(bill.amountPaid) > 0) {
+                throw new Error(`Bill ${bill.billNumber} has payments recorded; remove them before marking it ${to}`);
+            }
+        }
+        if (to === 'overdue' && bill.dueDate >= new Date()) {
+            throw new Error(`Bill ${bill.billNumber} is not past its due date`);
+        }
+        if (bill.status === 'overdue' && to === 'sent' && bill.dueDate < new Date()) {
+            throw new Error(`Extend the due date of bill ${bill.billNumber} before moving it back to sent`);
+        }
+    }
+
+    // Finalized bills keep their notes, terms, due date and contact details editable; anything
+    // that changes the value or tax needs a credit or debit note instead.
+    assertEditable(bill: SelectBill, changes: Record<string, unknown>): void {
+        if (VOIDED_BILL_STATUSES.includes(bill.status)) {
+            throw new Error(`Bill ${bill.billNumber} is ${bill.status} and can no longer be edited`);
+        }
+        if (changes.items !== undefined && deliveryChallanService.challanIdsOf(bill.items).length > 0) {
+            throw new Error(`Bill ${bill.billNumber} was raised against delivery challans; its items cannot be changed. Delete or cancel it and convert the challans again`);
+        }
+        if (bill.status === 'draft') return;
+
+        const locked = LOCKED_FIELDS.filter(field => changes[field] !== undefined);
+        if (locked.length > 0) {
+            throw new Error(`Bill ${bill.billNumber} is finalized; ${locked.join(', ')} can no longer be changed. Issue a credit or debit note instead`);
+        }
+    }
+
+    async transition(billId: string, to: BillStatus, options: TransitionOptions): Promise<SelectBill> {
+        const [bill] = await db.select().from(bills).where(eq(bills.id, billId)).limit(1);
+        if (!bill) {
+            throw new Error('Bill not found');
+        }
+        this.assertTransition(bill, to, options.reason);
+
+        const now = new Date();
+        const queries: BatchItem<'pg'>[] = [];
+        const changes: Partial<InsertBills> = { status: to, updatedBy: options.userId, updatedAt: now };
+
+        if (bill.status === 'draft' && to === 'cancelled') {
+            queries.push(stockService.releaseBillQuery(bill.id));
+        } else if (bill.status === 'draft') {
+            await stockService.assertCanFinalize(bill);
+            queries.push(...this.finalizeQueries(bill.id, bill.companyId, options.userId, to === 'sent' ? 'sent' : 'finalized'));
+        }
+        if (to === 'sent') {
+            changes.sentAt = bill.sentAt ?? now;
+        }
+        if (VOIDED_BILL_STATUSES.includes(to)) {
+            const [note] = await db.select({ id: creditNotes.id })
+                .from(creditNotes)
+                .where(and(eq(creditNotes.billId, bill.id), eq(creditNotes.status, 'issued')))
+                .limit(1);
+            if (note) {
+                throw new Error(`Bill ${bill.billNumber} has credit or debit notes issued against it and cannot be marked ${to}`);
+            }
+
+            changes.statusReason = options.reason!.trim();
+            changes.cancelledAt = now;
+            changes.cancelledBy = options.userId;
+            queries.push(...this.reversalQueries(bill, to, options.userId));
+
+            // The challans' goods are no longer invoiced
+            const challanIds = deliveryChallanService.challanIdsOf(bill.items);
+            if (challanIds.length > 0) {
+                queries.push(deliveryChallanService.statusQuery(challanIds));
+            }
+        }
+
+        await db.batch([
+            db.update(bills).set(changes).where(eq(bills.id, bill.id)),
+            ...queries,
+            billBalanceService.billUpdate(bill.id),
+            billBalanceService.customerUpdate(bill.customerId),
+        ]).catch(error => { throw inventoryService.stockError(error); });
+
+        const [updated] = await db.select().from(bills).where(eq(bills.id, bill.id)).limit(1);
+        return updated;
+    }
+
+    // Marks every issued bill with a balance left and a due date before now as overdue.
+    // Run by the scheduler; no stock or GST side effects, so it is a single update.
+    async markOverdue(now: Date = new Date()): Promise<SelectBill[]> {
+        return db.update(bills)
+            .set({ status: 'overdue', updatedAt: now })
+            .where(and(
+                inArray(bills.status, OPEN_BILL_STATUSES),
+                lt(bills.dueDate, now),
+                gt(bills.balanceDue, '0')
+            ))
+            .returning();
+    }
+
+    // Moves a draft out of draft, moves its stock and serials and posts its GST entry. Reads the items
+    // from the stored bill, so it can run in the same batch that inserts the bill.
+    // finalizedAt guards against moving stock twice when two requests finalize the same bill.
+    // Callers check stockService.assertCanFinalize first, and turn a failed batch into the
+    // shortage with inventoryService.stockError; the stock check in the batch settles races.
+    finalizeQueries(billId: string, companyId: string, userId: number, status: 'finalized' | 'sent' = 'finalized'): BatchItem<'pg'>[] {
+        const now = new Date();
+        const notFinalized = sql`EXISTS (SELECT 1 FROM ${bills} WHERE ${bills.id} = ${billId} AND ${bills.finalizedAt} IS NULL)`;
+        return [
+            this.stockUpdate(billId, companyId, 'apply', userId, notFinalized),
+            inventoryService.negativeStockCheck('bill', billId, notFinalized),
+            ...serialService.billQueries(billId, 'apply', userId, notFinalized),
+            db.update(bills)
+                .set({ status, finalizedAt: now, sentAt: status === 'sent' ? now : undefined, updatedBy: userId, updatedAt: now })
+                .where(and(eq(bills.id, billId), isNull(bills.finalizedAt))),
+            gstPostingService.invoiceQuery(billId),
+            stockService.releaseBillQuery(billId),
+        ];
+    }
+
+    // Payments finalize a draft bill; cancelled and void bills take no payments
+    paymentQueries(bill: SelectBill, userId: number): BatchItem<'pg'>[] {
+        if (VOIDED_BILL_STATUSES.includes(bill.status)) {
+            throw new Error(`Cannot record a payment against a ${bill.status} bill`);
+        }
+        return bill.status === 'draft' ? this.finalizeQueries(bill.id, bill.companyId, userId) : [];
+    }
+
+    // Undoes a finalized bill's stock and serial movements and drops its GST entry
+    private reversalQueries(bill: SelectBill, to: BillStatus, userId: number): BatchItem<'pg'>[] {
+        const queries: BatchItem<'pg'>[] = [gstPostingService.reversalQuery(bill.id)];
+        if (bill.finalizedAt) {
+            queries.push(this.stockUpdate(bill.id, bill.companyId, 'reverse', userId, undefined, `Bill ${to}`));
+            queries.push(...serialService.billQueries(bill.id, 'reverse', userId));
+        }
+        return queries;
+    }
+
+    // Moves stock of the company's products by the quantities on the bill and records it in the
+    // stock ledger: applying a sale takes stock out and applying a purchase brings it in at the
+    // purchase rate (in INR); reversing does the opposite. Stock moves through the bill's
+    // warehouse, or the default one, and a reversal goes back through the warehouse the bill
+    // used. Lines invoiced from a delivery challan are skipped; the challan moved their stock.
+    private stockUpdate(billId: string, companyId: string, direction: 'apply' | 'reverse', userId: number, guard?: SQL, reason?: string) {
+        const sign = direction === 'apply' ? 1 : -1;
+        const lines = sql`SELECT item->>'productId' AS product_id,
+                ${sign} * SUM((item->>'quantity')::numeric) * (CASE WHEN ${bills.type} = 'purchase' THEN 1 ELSE -1 END) AS quantity,
+                CASE WHEN ${bills.type} = 'purchase' THEN ROUND(SUM((item->>'amount')::numeric) / NULLIF(SUM((item->>'quantity')::numeric), 0) * ${bills.exchangeRate}, 2) END AS unit_cost,
+                item->>'batchId' AS batch_id
+            FROM ${bills}, jsonb_array_elements(${bills.items}) AS item
+            WHERE ${bills.id} = ${billId} AND item->>'productId' IS NOT NULL AND item->>'challanId' IS NULL
+            GROUP BY item->>'productId', item->>'batchId', ${bills.type}, ${bills.exchangeRate}`;
+        return inventoryService.movementQuery(lines, {
+            companyId,
+            type: sql`(SELECT ${bills.type}::text FROM ${bills} WHERE ${bills.id} = ${billId})`,
+            sourceType: 'bill',
+            sourceId: billId,
+            warehouseId: direction === 'apply'
+                ? sql`(SELECT ${bills.warehouseId} FROM ${bills} WHERE ${bills.id} = ${billId})`
+                : inventoryService.sourceWarehouse('bill', billId),
+            reference: sql`(SELECT ${bills.billNumber} FROM ${bills} WHERE ${bills.id} = ${billId})`,
+            reason,
+            userId
+        }, guard);
+    }
+}
+
+export const billLifecycleService = new BillLifecycleService();
@@ -0,0 +1,208 @@
+import { db } from '../db/drizzle';
+import { bills, BillStatus, companies, ExportType, SalesType, SelectBill } from '../db/schema';
+import { and, eq, gte, lte, sql, SQL } from 'drizzle-orm';
+import { BatchItem } from 'drizzle-orm/batch';
+import { BillCalculation, BillCalculationInput, BillChargeInput, BillLineInput, calculateBill, toLineInputs } from '../utils/billCalculator';
+import { BASE_CURRENCY, CURRENCIES } from '../utils/currency';
+import { numberingService } from './numberingService';
+import { billBalanceService } from './billBalanceService';
+import { warehouseService } from './warehouseService';
+import { batchService } from './batchService';
+import { serialService } from './serialService';
+
+export interface CreateBillInput {
+    id?: string;
+    type?: SalesType;   // defaults to a sale; purchase bills are numbered in their own series
+    customerId: string;
+    customerName: string;
+    customerGstin?: string | null;
+    customerAddress?: string | null;
+    customerPhone?: string | null;
+    customerEmail?: string | null;
+    date: Date;
+    dueDate: Date;
+    items: BillLineInput[];
+    charges?: BillChargeInput[];
+    placeOfSupply?: string | null;
+    notes?: string | null;
+    terms?: string | null;
+    discount?: number;
+    discountType?: 'percentage' | 'amount';
+    roundOff?: number | null;
+    currency?: string;              // defaults to INR
+    exchangeRate?: number;          // INR per unit of currency; required for other currencies
+    exportType?: ExportType | null;
+    portCode?: string | null;
+    shippingBillNumber?: string | null;
+    shippingBillDate?: Date | null;
+    companyId: string;
+    estimateId?: string;
+    warehouseId?: string | null;    // stock leaves it on a sale and arrives in it on a purchase; the default when absent
+}
+
+// Filters of the bill list, shared with bulk exports
+export interface BillListFilters {
+    companyId?: string;
+    type?: SalesType;
+    status?: BillStatus;
+    customerId?: string;
+    startDate?: string;
+    endDate?: string;
+    search?: string;    // bill number or customer name
+}
+
+export class BillService {
+    listFilter(filters: BillListFilters): SQL | undefined {
+        return and(
+            filters.companyId ? eq(bills.companyId, filters.companyId) : undefined,
+            filters.type ? eq(bills.type, filters.type) : undefined,
+            filters.status ? eq(bills.status, filters.status) : undefined,
+            filters.customerId ? eq(bills.customerId, filters.customerId) : undefined,
+            filters.startDate ? gte(bills.date, new Date(filters.startDate)) : undefined,
+            filters.endDate ? lte(bills.date, new Date(filters.endDate)) : undefined,
+            filters.search
+                ? sql`(${bills.billNumber} ILIKE ${`%${filters.search}%`} OR ${bills.customerName} ILIKE ${`%${filters.search}%`})`
+                : undefined
+        );
+    }
+
+    // Server-side totals for a bill of the given company; client line values are only checked
+    async calculate(companyId: string, input: Omit<BillCalculationInput, 'supplierGstin'>): Promise<BillCalculation> {
+        const [company] = await db.select({ gstin: companies.gstin }).from(companies).where(eq(companies.id, companyId)).limit(1);
+        if (!company) {
+            throw new Error('Company not found');
+        }
+        return calculateBill({ ...input, supplierGstin: company.gstin });
+    }
+
+    // Creates a draft bill with the next invoice number. Queries in `related` run in the
+    // same db.batch() so they commit or roll back together with the bill.
+    async createBill(input: CreateBillInput, userId: number, related: BatchItem<'pg'>[] = []): Promise<SelectBill> {
+        const type = input.type ?? 'sale';
+        const currency = input.currency ?? BASE_CURRENCY;
+        const exchangeRate = input.exchangeRate ?? (currency === BASE_CURRENCY ? 1 : 0);
+        this.assertTradeTerms(type, currency, exchangeRate, input.exportType);
+        if (input.warehouseId) {
+            await warehouseService.assertWarehouse(input.companyId, input.warehouseId);
+        }
+        const items = await batchService.assignBatches(input.companyId, type, input.items, userId);
+        await serialService.assertSerials(input.companyId, type, items);
+        const calculation = await this.calculate(input.companyId, { ...input, items });
+
+        const billData = {
+            id: input.id,
+            type,
+            customerId: input.customerId,
+            customerName: input.customerName,
+            customerGstin: input.customerGstin,
+            customerAddress: input.customerAddress,
+            customerPhone: input.customerPhone,
+            customerEmail: input.customerEmail,
+            ...this.toColumns(calculation),
+            balanceDue: calculation.totalAmount.toString(),
+            date: input.date,
+            dueDate: input.dueDate,
+            status: 'draft' as const,
+            paymentStatus: 'pending' as const,
+            notes: input.notes,
+            terms: input.terms,
+            companyId: input.companyId,
+            discount: input.discount?.toString(),
+            discountType: input.discountType,
+            currency,
+            exchangeRate: exchangeRate.toString(),
+            exportType: input.exportType,
+            portCode: input.portCode,
+            shippingBillNumber: input.shippingBillNumber,
+            shippingBillDate: input.shippingBillDate,
+            estimateId: input.estimateId,
+            warehouseId: input.warehouseId,
+            createdBy: userId,
+            updatedBy: userId
+        };
+
+        const allocation = await numberingService.prepareAllocation(input.companyId, billData.type === 'purchase' ? 'purchase_bill' : 'invoice', billData.date);
+        const [, [inserted]] = await db.batch([
+            allocation.increment,
+            db.insert(bills).values({ ...billData, billNumber: allocation.number }).returning(),
+            ...related,
+            // After `related`, which may finalize the bill so that it counts towards the balance
+            billBalanceService.customerUpdate(input.customerId)
+        ]);
+
+        return inserted;
+    }
+
+    // Recomputes the priced columns when an update touches items, charges, discount, round-off,
+    // currency, export type or place of supply. Client-sent totals in `changes` are ignored in
+    // favour of the server computation. A hand-set round-off is kept until `roundOff: null`
+    // returns the bill to automatic rounding. New items get their batches, and their serials
+    // are checked, as on creation.
+    async pricingUpdate(bill: SelectBill, changes: Record<string, any>, userId?: number) {
+        const pricingFields = ['items', 'charges', 'discount', 'discountType', 'roundOff', 'currency', 'exchangeRate', 'exportType', 'placeOfSupply', 'customerGstin'];
+        if (!pricingFields.some(field => changes[field] !== undefined)) {
+            return {};
+        }
+
+        const currency: string = changes.currency ?? bill.currency;
+        const exchangeRate = changes.exchangeRate !== undefined
+            ? Number(changes.exchangeRate)
+            : changes.currency !== undefined && changes.currency !== bill.currency ? (currency === BASE_CURRENCY ? 1 : 0) : Number(bill.exchangeRate);
+        const exportType: ExportType | null = changes.exportType !== undefined ? changes.exportType : bill.exportType;
+        this.assertTradeTerms(bill.type, currency, exchangeRate, exportType);
+
+        const items = changes.items ? await batchService.assignBatches(bill.companyId, bill.type, changes.items, userId) : toLineInputs(bill.items);
+        if (changes.items) {
+            await serialService.assertSerials(bill.companyId, bill.type, items);
+        }
+
+        const discount = changes.discount !== undefined ? Number(changes.discount) : Number(bill.discount) || 0;
+        const calculation = await this.calculate(bill.companyId, {
+            items,
+            charges: changes.charges ?? bill.charges,
+            discount,
+            discountType: changes.discountType ?? bill.discountType,
+            roundOff: changes.roundOff !== undefined ? changes.roundOff : bill.roundOffManual ? Number(bill.roundOff) : null,
+            currency,
+            exportType,
+            customerGstin: changes.customerGstin !== undefined ? changes.customerGstin : bill.customerGstin,
+            placeOfSupply: changes.placeOfSupply !== undefined ? changes.placeOfSupply : bill.placeOfSupply
+        });
+        return { ...this.toColumns(calculation), discount: discount.toString(), currency, exchangeRate: exchangeRate.toString(), exportType };
+    }
+
+    // Column values shared by bills and estimates
+    toColumns(calculation: BillCalculation) {
+        return {
+            items: calculation.items,
+            charges: calculation.charges,
+            amount: calculation.amount.toString(),
+            taxAmount: calculation.taxAmount.toString(),
+            cgst: calculation.cgst.toString(),
+            sgst: calculation.sgst.toString(),
+            igst: calculation.igst.toString(),
+            cess: calculation.cess.toString(),
+            roundOff: calculation.roundOff.toString(),
+            roundOffManual: calculation.roundOffManual,
+            totalAmount: calculation.totalAmount.toString(),
+            placeOfSupply: calculation.placeOfSupply,
+        };
+    }
+
+    private assertTradeTerms(type: SalesType, currency: string, exchangeRate: number, exportType?: ExportType | null): void {
+        if (!CURRENCIES[currency]) {
+            throw new Error(`Unsupported currency ${currency}`);
+        }
+        if (currency === BASE_CURRENCY && exchangeRate !== 1) {
+            throw new Error(`Bills in ${BASE_CURRENCY} have an exchange rate of 1`);
+        }
+        if (!(exchangeRate > 0)) {
+            throw new Error(`An exchange rate to ${BASE_CURRENCY} is required for bills in ${currency}`);
+        }
+        if (exportType && type !== 'sale') {
+            throw new Error('Only sales bills can be export invoices');
+        }
+    }
+}
+
+export const billService = new BillService();
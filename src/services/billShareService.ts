@@ -0,0 +1,297 @@
+import { db } from '../db/drizzle';
+import { bills, billShareLinks, billShareViews, companies, SelectBill, SelectBillShareLink, SelectCompany } from '../db/schema';
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { signShareToken, verifyShareToken } from '../utils/shareToken';
+import { VOIDED_BILL_STATUSES } from './billLifecycleService';
+import { upiPaymentService } from './upiPaymentService';
+import { BASE_CURRENCY } from '../utils/currency';
+
+export interface CreateShareLinkInput {
+    expiresInDays: number;
+    paymentInstructions?: string;
+}
+
+export interface ShareViewMeta {
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export interface SharedBill {
+    link: SelectBillShareLink;
+    bill: SelectBill;
+    company: SelectCompany;
+}
+
+const formatMoney = (value: number | string | null | undefined): string =>
+    Number(value || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDate = (value: Date | string | null | undefined): string =>
+    value ? new Date(value).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' }) : '';
+
+const escapeHtml = (value: unknown): string =>
+    String(value ?? '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+
+export class BillShareService {
+    async createLink(billId: string, input: CreateShareLinkInput, userId: number): Promise<SelectBillShareLink & { url: string }> {
+        const [bill] = await db.select().from(bills).where(eq(bills.id, billId)).limit(1);
+        if (!bill) {
+            throw new Error('Bill not found');
+        }
+        if (bill.type === 'purchase') {
+            throw new Error('Purchase bills cannot be shared');
+        }
+        if (bill.status === 'draft') {
+            throw new Error('Finalize the bill before sharing it');
+        }
+        if (VOIDED_BILL_STATUSES.includes(bill.status)) {
+            throw new Error(`A ${bill.status} bill cannot be shared`);
+        }
+
+        const expiresAt = new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000);
+        const [link] = await db.insert(billShareLinks).values({
+            billId: bill.id,
+            companyId: bill.companyId,
+            expiresAt,
+            paymentInstructions: input.paymentInstructions,
+            createdBy: userId,
+        }).returning();
+
+        return { ...link, url: this.urlFor(link) };
+    }
+
+    async listLinks(billId: string): Promise<(SelectBillShareLink & { url: string | null; active: boolean })[]> {
+        const links = await db.select()
+            .from(billShareLinks)
+            .where(eq(billShareLinks.billId, billId))
+            .orderBy(desc(billShareLinks.createdAt));
+
+        return links.map(link => {
+            const active = this.isActive(link);
+            return { ...link, active, url: active ? this.urlFor(link) : null };
+        });
+    }
+
+    async revokeLink(billId: string, linkId: string, userId: number): Promise<SelectBillShareLink> {
+        const [link] = await db.select()
+            .from(billShareLinks)
+            .where(and(eq(billShareLinks.id, linkId), eq(billShareLinks.billId, billId)))
+            .limit(1);
+        if (!link) {
+            throw new Error('Share link not found');
+        }
+        if (link.revokedAt) {
+            return link;
+        }
+
+        const [revoked] = await db.update(billShareLinks)
+            .set({ revokedAt: new Date(), revokedBy: userId })
+            .where(eq(billShareLinks.id, linkId))
+            .returning();
+        return revoked;
+    }
+
+    // Resolves a public token; throws for invalid, expired or revoked links
+    async resolve(token: string): Promise<SharedBill> {
+        const payload = verifyShareToken(token);
+        if (!payload) {
+            throw new Error('Link is invalid or has expired');
+        }
+
+        const [row] = await db
+            .select({ link: billShareLinks, bill: bills, company: companies })
+            .from(billShareLinks)
+            .innerJoin(bills, eq(billShareLinks.billId, bills.id))
+            .innerJoin(companies, eq(bills.companyId, companies.id))
+            .where(eq(billShareLinks.id, payload.linkId))
+            .limit(1);
+
+        // The expiry is part of the signature, so it must match the stored link exactly
+        if (!row || Math.floor(row.link.expiresAt.getTime() / 1000) !== Math.floor(payload.expiresAt.getTime() / 1000)) {
+            throw new Error('Link is invalid or has expired');
+        }
+        if (row.link.revokedAt) {
+            throw new Error('This link has been revoked');
+        }
+        return row;
+    }
+
+    async recordView(link: SelectBillShareLink, kind: 'view' | 'download', meta: ShareViewMeta): Promise<void> {
+        const now = new Date();
+        await db.batch([
+            db.insert(billShareViews).values({ linkId: link.id, kind, ipAddress: meta.ipAddress, userAgent: meta.userAgent }),
+            db.update(billShareLinks)
+                .set(kind === 'view'
+                    ? { viewCount: sql`${billShareLinks.viewCount} + 1`, firstViewedAt: sql`COALESCE(${billShareLinks.firstViewedAt}, ${now})`, lastViewedAt: now }
+                    : { downloadCount: sql`${billShareLinks.downloadCount} + 1` })
+                .where(eq(billShareLinks.id, link.id)),
+        ]);
+    }
+
+    // Read-only subset of the bill exposed to whoever holds the link
+    publicView({ link, bill, company }: SharedBill) {
+        return {
+            company: { name: company.name, gstin: company.gstin, address: company.address },
+            bill: {
+                billNumber: bill.billNumber,
+                date: bill.date,
+                dueDate: bill.dueDate,
+                status: bill.status,
+                customerName: bill.customerName,
+                customerGstin: bill.customerGstin,
+                customerAddress: bill.customerAddress,
+                items: bill.items.map(item => ({
+                    name: item.name,
+                    description: item.description,
+                    hsnCode: item.hsnCode,
+                    quantity: item.quantity,
+                    unit: item.unit,
+                    rate: item.rate,
+                    taxRate: item.taxRate,
+                    amount: item.amount,
+                    taxAmount: item.taxAmount,
+                    cessAmount: item.cessAmount,
+                    total: item.total,
+                })),
+                charges: bill.charges.map(charge => ({
+                    name: charge.name,
+                    hsnCode: charge.hsnCode,
+                    amount: charge.amount,
+                    taxRate: charge.taxRate,
+                    taxAmount: charge.taxAmount,
+                    total: charge.total,
+                })),
+                discount: bill.items.reduce((total, item) => total + (item.billDiscount || 0), 0),
+                amount: bill.amount,
+                taxAmount: bill.taxAmount,
+                cgst: bill.cgst,
+                sgst: bill.sgst,
+                igst: bill.igst,
+                cess: bill.cess,
+                roundOff: bill.roundOff,
+                currency: bill.currency,
+                totalAmount: bill.totalAmount,
+                amountPaid: bill.amountPaid,
+                balanceDue: bill.balanceDue,
+                notes: bill.notes,
+                terms: bill.terms,
+            },
+            paymentInstructions: link.paymentInstructions,
+            upi: upiPaymentService.forBill(bill, company),
+            expiresAt: link.expiresAt,
+        };
+    }
+
+    renderHtml(shared: SharedBill, token: string): string {
+        const { company, bill, paymentInstructions, upi } = this.publicView(shared);
+        const banner = VOIDED_BILL_STATUSES.includes(bill.status)
+            ? `This invoice has been ${bill.status === 'void' ? 'voided' : 'cancelled'}.`
+            : bill.status === 'paid' ? 'This invoice has been paid in full. Thank you!' : '';
+        const rows = bill.items.map((item, index) => `
+            <tr>
+                <td>${index + 1}</td>
+                <td>${escapeHtml(item.name)}${item.description ? `<br><small>${escapeHtml(item.description)}</small>` : ''}</td>
+                <td>${escapeHtml(item.hsnCode)}</td>
+                <td class="num">${escapeHtml(item.quantity)} ${escapeHtml(item.unit)}</td>
+                <td class="num">${formatMoney(item.rate)}</td>
+                <td class="num">${formatMoney(item.amount)}</td>
+                <td class="num">${escapeHtml(item.taxRate)}%</td>
+                <td class="num">${formatMoney(item.total)}</td>
+            </tr>`).join('');
+        const totals: [string, number | string | null][] = [
+            ['Discount', bill.discount ? -bill.discount : null],
+            ...bill.charges.map((charge): [string, number] => [charge.taxRate ? `${escapeHtml(charge.name)} (GST ${charge.taxRate}%)` : escapeHtml(charge.name), charge.amount]),
+            ['Taxable amount', bill.amount],
+            ['CGST', bill.cgst],
+            ['SGST', bill.sgst],
+            ['IGST', bill.igst],
+            ['Cess', bill.cess],
+            ['Round off', bill.roundOff],
+        ];
+        const totalRows = totals
+            .filter(([, value]) => Number(value))
+            .map(([label, value]) => `<tr><td>${label}</td><td class="num">${formatMoney(value)}</td></tr>`)
+            .join('');
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>Invoice ${escapeHtml(bill.billNumber)} - ${escapeHtml(company.name)}</title>
+<style>
+    body { font-family: Arial, sans-serif; color: #1f2937; max-width: 860px; margin: 24px auto; padding: 0 16px; }
+    header { display: flex; justify-content: space-between; flex-wrap: wrap; gap: 16px; }
+    table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+    th, td { padding: 6px 8px; border-bottom: 1px solid #e5e7eb; text-align: left; vertical-align: top; }
+    .num { text-align: right; }
+    .totals { width: 320px; margin-left: auto; }
+    .banner { background: #fef3c7; padding: 12px; margin: 16px 0; }
+    .instructions { background: #f3f4f6; padding: 12px; margin-top: 24px; white-space: pre-line; }
+    .upi { display: flex; gap: 16px; align-items: center; border: 1px solid #e5e7eb; padding: 12px; margin-top: 24px; }
+    .upi img { width: 160px; height: 160px; }
+    .download { display: inline-block; margin-top: 24px; padding: 10px 16px; background: #2563eb; color: #fff; text-decoration: none; }
+</style>
+</head>
+<body>
+<header>
+    <div>
+        <h2>${escapeHtml(company.name)}</h2>
+        <div>GSTIN: ${escapeHtml(company.gstin)}</div>
+        <div>${escapeHtml(company.address)}</div>
+    </div>
+    <div>
+        <h2>Tax Invoice ${escapeHtml(bill.billNumber)}</h2>
+        <div>Date: ${formatDate(bill.date)}</div>
+        <div>Due: ${formatDate(bill.dueDate)}</div>
+    </div>
+</header>
+${banner ? `<div class="banner">${banner}</div>` : ''}
+<section>
+    <h3>Bill to</h3>
+    <div>${escapeHtml(bill.customerName)}</div>
+    ${bill.customerGstin ? `<div>GSTIN: ${escapeHtml(bill.customerGstin)}</div>` : ''}
+    <div>${escapeHtml(bill.customerAddress)}</div>
+</section>
+<table>
+    <thead><tr><th>#</th><th>Item</th><th>HSN/SAC</th><th class="num">Qty</th><th class="num">Rate</th><th class="num">Taxable</th><th class="num">GST</th><th class="num">Amount</th></tr></thead>
+    <tbody>${rows}</tbody>
+</table>
+<table class="totals">
+    ${totalRows}
+    <tr><th>Total${bill.currency !== BASE_CURRENCY ? ` (${escapeHtml(bill.currency)})` : ''}</th><th class="num">${formatMoney(bill.totalAmount)}</th></tr>
+    <tr><td>Paid</td><td class="num">${formatMoney(bill.amountPaid)}</td></tr>
+    <tr><th>Balance due</th><th class="num">${formatMoney(bill.balanceDue)}</th></tr>
+</table>
+${upi ? `<div class="upi">
+    <img src="${escapeHtml(token)}/upi-qr.png" alt="UPI QR code">
+    <div>
+        <strong>Scan to pay Rs. ${formatMoney(upi.amount)} with any UPI app</strong>
+        <div>UPI ID: ${escapeHtml(upi.vpa)}</div>
+        <div>Reference: ${escapeHtml(upi.reference)}</div>
+        <p><a href="${escapeHtml(upi.intent)}">Pay with UPI</a></p>
+    </div>
+</div>` : ''}
+${paymentInstructions ? `<div class="instructions"><strong>How to pay</strong>\n${escapeHtml(paymentInstructions)}</div>` : ''}
+${bill.notes ? `<p>${escapeHtml(bill.notes)}</p>` : ''}
+${bill.terms ? `<p><small>${escapeHtml(bill.terms)}</small></p>` : ''}
+<a class="download" href="${escapeHtml(token)}/pdf">Download PDF</a>
+</body>
+</html>`;
+    }
+
+    urlFor(link: SelectBillShareLink): string {
+        return `${process.env.BASE_URL || 'http://localhost:4000'}/api/public/bills/${signShareToken({ linkId: link.id, expiresAt: link.expiresAt })}`;
+    }
+
+    private isActive(link: SelectBillShareLink): boolean {
+        return !link.revokedAt && link.expiresAt > new Date();
+    }
+}
+
+export const billShareService = new BillShareService();
@@ -0,0 +1,283 @@
+import { randomUUID } from 'crypto';
+import { db } from '../db/drizzle';
+import { bills, companies, creditNotes, CreditNoteItem, gstTransactions, NoteType, SelectBill, SelectCompany, SelectCreditNote } from '../db/schema';
+import { and, eq, sql } from 'drizzle-orm';
+import { numberingService } from './numberingService';
+import { billBalanceService } from './billBalanceService';
+import { inventoryService } from './inventoryService';
+import { serialService } from './serialService';
+import { VOIDED_BILL_STATUSES } from './billLifecycleService';
+import { BillLineInput, calculateBill } from '../utils/billCalculator';
+import { formatPlaceOfSupply, getStateCodeFromGstin, isInterStateSupply, roundCurrency, splitTax } from '../utils/gst';
+import { toBaseCurrency } from '../utils/currency';
+
+export interface ReturnLine {
+    lineIndex: number;  // index into the original bill's items
+    quantity: number;
+    serialNumbers?: string[];   // the units returned, for lines that carry serials
+}
+
+export interface CreateNoteInput {
+    billId: string;
+    noteType: NoteType;
+    date: Date;
+    reason: string;
+    notes?: string;
+    fullReturn?: boolean;          // return every quantity not yet returned
+    returnItems?: ReturnLine[];    // partial returns of original bill lines
+    items?: BillLineInput[];       // value adjustments not tied to returned goods
+    restock?: boolean;
+}
+
+export class CreditNoteService {
+    async createNote(input: CreateNoteInput, userId: number): Promise<SelectCreditNote> {
+        const { bill, company } = await this.loadBill(input.billId);
+        if (bill.status === 'draft' || VOIDED_BILL_STATUSES.includes(bill.status)) {
+            throw new Error(`Notes can only be issued against a finalized bill; bill ${bill.billNumber} is ${bill.status}`);
+        }
+        const existing = await db.select()
+            .from(creditNotes)
+            .where(and(eq(creditNotes.billId, bill.id), eq(creditNotes.status, 'issued')));
+
+        const items: CreditNoteItem[] = [];
+        if (input.fullReturn || input.returnItems?.length) {
+            if (input.noteType !== 'credit') {
+                throw new Error('Returned items can only be recorded on a credit note');
+            }
+            items.push(...this.buildReturnLines(bill, existing, input));
+        }
+        if (input.items?.length) {
+            items.push(...calculateBill({
+                items: input.items,
+                supplierGstin: company.gstin,
+                customerGstin: bill.customerGstin,
+                placeOfSupply: bill.placeOfSupply,
+                exportType: bill.exportType
+            }).items);
+        }
+        if (items.length === 0) {
+            throw new Error('A note needs at least one returned or adjusted item');
+        }
+
+        const amount = roundCurrency(items.reduce((sum, item) => sum + item.amount, 0));
+        const taxAmount = roundCurrency(items.reduce((sum, item) => sum + item.taxAmount, 0));
+        const cess = roundCurrency(items.reduce((sum, item) => sum + (item.cessAmount || 0), 0));
+        const totalAmount = roundCurrency(amount + taxAmount + cess);
+
+        if (input.noteType === 'credit') {
+            const netTotal = existing.reduce(
+                (sum, note) => sum + (note.noteType === 'debit' ? 1 : -1) * Number(note.totalAmount),
+                Number(bill.totalAmount)
+            );
+            if (totalAmount > roundCurrency(netTotal)) {
+                throw new Error(`Credit note total exceeds the remaining invoice value of ${roundCurrency(netTotal)}`);
+            }
+        }
+
+        const split = splitTax(taxAmount, this.isInterState(bill, company));
+        const restock = input.noteType === 'credit' && (input.restock ?? true);
+        const noteId = randomUUID();
+        const allocation = await numberingService.prepareAllocation(
+            bill.companyId,
+            input.noteType === 'credit' ? 'credit_note' : 'debit_note',
+            input.date
+        );
+
+        // Credit notes are posted to the GST ledger with negative amounts so period totals net off.
+        // Notes are in the bill's currency; the ledger is in INR at the bill's exchange rate.
+        const sign = input.noteType === 'credit' ? -1 : 1;
+        const exchangeRate = Number(bill.exchangeRate) || 1;
+        const posted = (value: number) => toBaseCurrency(sign * value, exchangeRate).toString();
+        const gstEntry = db.insert(gstTransactions).values({
+            companyId: bill.companyId,
+            billId: bill.id,
+            creditNoteId: noteId,
+            documentType: input.noteType === 'credit' ? 'credit_note' : 'debit_note',
+            type: bill.type,
+            date: input.date,
+            partyName: bill.customerName,
+            partyGstin: bill.customerGstin,
+            taxableAmount: posted(amount),
+            totalTax: posted(taxAmount),
+            cgst: posted(split.cgst),
+            sgst: posted(split.sgst),
+            igst: posted(split.igst),
+            cess: posted(cess),
+            total: posted(totalAmount),
+            items: items.map(item => ({
+                ...item,
+                quantity: sign * item.quantity,
+                amount: toBaseCurrency(sign * item.amount, exchangeRate),
+                taxAmount: toBaseCurrency(sign * item.taxAmount, exchangeRate),
+                cessAmount: toBaseCurrency(sign * (item.cessAmount || 0), exchangeRate),
+                total: toBaseCurrency(sign * item.total, exchangeRate)
+            })),
+            placeOfSupply: formatPlaceOfSupply(bill.placeOfSupply || getStateCodeFromGstin(bill.customerGstin) || getStateCodeFromGstin(company.gstin)),
+        });
+
+        // Returned goods come back into stock on a sale and go back to the supplier, at the
+        // purchase cost, on a purchase; either way through the warehouse the bill moved them in
+        // and the batch of their bill line
+        const stockSign = bill.type === 'purchase' ? -1 : 1;
+        const returned = new Map<string, { productId: string; batchId?: string; quantity: number; amount: number }>();
+        for (const item of restock ? items : []) {
+            if (!item.productId || item.lineIndex === undefined) continue;
+            const batchId = bill.items[item.lineIndex]?.batchId;
+            const key = `${item.productId}:${batchId ?? ''}`;
+            const line = returned.get(key) ?? { productId: item.productId, batchId, quantity: 0, amount: 0 };
+            returned.set(key, { ...line, quantity: line.quantity + item.quantity, amount: line.amount + item.amount });
+        }
+        const stockUpdates = returned.size > 0
+            ? [inventoryService.movementQuery(inventoryService.lines([...returned.values()].map(line => ({
+                productId: line.productId,
+                batchId: line.batchId,
+                quantity: stockSign * line.quantity,
+                unitCost: bill.type === 'purchase' && line.quantity > 0 ? toBaseCurrency(line.amount / line.quantity, exchangeRate) : null
+            }))), {
+                companyId: bill.companyId,
+                type: 'return',
+                sourceType: 'credit_note',
+                sourceId: noteId,
+                warehouseId: inventoryService.sourceWarehouse('bill', bill.id),
+                reference: allocation.number,
+                reason: input.reason,
+                userId
+            })]
+            : [];
+        const serialUpdates = await serialService.returnQueries(bill, noteId, items, restock, input.date, userId);
+
+        const [, [note]] = await db.batch([
+            allocation.increment,
+            db.insert(creditNotes).values({
+                id: noteId,
+                noteNumber: allocation.number,
+                noteType: input.noteType,
+                billId: bill.id,
+                customerId: bill.customerId,
+                companyId: bill.companyId,
+                date: input.date,
+                reason: input.reason,
+                items,
+                amount: amount.toString(),
+                taxAmount: taxAmount.toString(),
+                totalAmount: totalAmount.toString(),
+                cgst: split.cgst.toString(),
+                sgst: split.sgst.toString(),
+                igst: split.igst.toString(),
+                cess: cess.toString(),
+                restocked: stockUpdates.length > 0,
+                notes: input.notes,
+                createdBy: userId,
+                updatedBy: userId,
+            }).returning(),
+            gstEntry,
+            ...stockUpdates,
+            ...serialUpdates,
+            billBalanceService.billUpdate(bill.id),
+            billBalanceService.customerUpdate(bill.customerId),
+        ]);
+
+        return note;
+    }
+
+    // Quantity of each original bill line already returned through earlier credit notes
+    private returnedQuantities(notes: SelectCreditNote[]): Map<number, number> {
+        const returned = new Map<number, number>();
+        for (const note of notes) {
+            if (note.noteType !== 'credit') continue;
+            for (const item of note.items) {
+                if (item.lineIndex === undefined) continue;
+                returned.set(item.lineIndex, (returned.get(item.lineIndex) || 0) + item.quantity);
+            }
+        }
+        return returned;
+    }
+
+    // Serial numbers of an original bill line already returned through earlier credit notes
+    private returnedSerials(notes: SelectCreditNote[], lineIndex: number): string[] {
+        return notes
+            .filter(note => note.noteType === 'credit')
+            .flatMap(note => note.items.filter(item => item.lineIndex === lineIndex).flatMap(item => item.serialNumbers ?? []));
+    }
+
+    private buildReturnLines(bill: SelectBill, existing: SelectCreditNote[], input: CreateNoteInput): CreditNoteItem[] {
+        const returned = this.returnedQuantities(existing);
+        const requested: ReturnLine[] = input.fullReturn
+            ? bill.items.map((item, lineIndex) => ({ lineIndex, quantity: item.quantity - (returned.get(lineIndex) || 0) }))
+                .filter(line => line.quantity > 0)
+            : input.returnItems!;
+
+        if (requested.length === 0) {
+            throw new Error('All items on this bill have already been returned');
+        }
+        if (new Set(requested.map(line => line.lineIndex)).size !== requested.length) {
+            throw new Error('Each bill line can only appear once in a return');
+        }
+
+        // Bills priced before discounts moved ahead of tax took the bill-level discount off the
+        // total; it is shared across lines in proportion to their value. Newer bills carry it in
+        // the line amounts already, which leaves the factor at 1. Charges are not refunded.
+        const lineTotal = bill.items.reduce((total, item) => total + (Number(item.total) || 0), 0);
+        const chargesTotal = bill.charges.reduce((total, charge) => total + (Number(charge.total) || 0), 0);
+        const discountFactor = lineTotal > 0 ? (Number(bill.totalAmount) - (Number(bill.roundOff) || 0) - chargesTotal) / lineTotal : 1;
+
+        return requested.map(({ lineIndex, quantity, serialNumbers }) => {
+            const original = bill.items[lineIndex];
+            if (!original) {
+                throw new Error(`Bill has no item at line ${lineIndex}`);
+            }
+            const remaining = original.quantity - (returned.get(lineIndex) || 0);
+            if (quantity <= 0 || quantity > remaining) {
+                throw new Error(`Return quantity for ${original.name} must be between 0 and ${remaining}`);
+            }
+
+            const serials = serialService.returnSerials(original, this.returnedSerials(existing, lineIndex), quantity, serialNumbers);
+
+            const share = (quantity / original.quantity) * discountFactor;
+            const amount = roundCurrency(original.amount * share);
+            const taxAmount = roundCurrency(original.taxAmount * share);
+            const cessAmount = roundCurrency((original.cessAmount || 0) * share);
+            return {
+                name: original.name,
+                description: original.description,
+                quantity,
+                rate: original.rate,
+                unit: original.unit,
+                taxRate: original.taxRate,
+                taxAmount,
+                amount,
+                hsnCode: original.hsnCode,
+                cessRate: original.cessRate,
+                cessAmount,
+                total: roundCurrency(amount + taxAmount + cessAmount),
+                productId: original.productId,
+                serialNumbers: serials,
+                lineIndex,
+            };
+        });
+    }
+
+    // Notes follow the tax treatment of the original invoice
+    private isInterState(bill: SelectBill, company: SelectCompany): boolean {
+        if (Number(bill.igst) > 0) return true;
+        if (Number(bill.cgst) > 0 || Number(bill.sgst) > 0) return false;
+        const supplierState = getStateCodeFromGstin(company.gstin);
+        return isInterStateSupply(supplierState, bill.placeOfSupply || getStateCodeFromGstin(bill.customerGstin) || supplierState);
+    }
+
+    private async loadBill(billId: string): Promise<{ bill: SelectBill; company: SelectCompany }> {
+        const [row] = await db
+            .select({ bill: bills, company: companies })
+            .from(bills)
+            .innerJoin(companies, eq(bills.companyId, companies.id))
+            .where(eq(bills.id, billId))
+            .limit(1);
+
+        if (!row) {
+            throw new Error('Bill not found');
+        }
+        return row;
+    }
+}
+
+export const creditNoteService = new CreditNoteService();
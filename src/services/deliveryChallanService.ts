@@ -0,0 +1,368 @@
+import { db } from '../db/drizzle';
+import { BillItem, bills, ChallanItem, ChallanReason, deliveryChallans, InsertDeliveryChallan, SelectBill, SelectDeliveryChallan } from '../db/schema';
+import { and, desc, eq, inArray, isNull, notInArray, sql, SQL } from 'drizzle-orm';
+import { BatchItem } from 'drizzle-orm/batch';
+import { numberingService } from './numberingService';
+import { billService } from './billService';
+import { stockService } from './stockService';
+import { inventoryService } from './inventoryService';
+import { batchService } from './batchService';
+import { serialService } from './serialService';
+import { roundCurrency } from '../utils/gst';
+
+export interface ChallanLineInput {
+    name: string;
+    description?: string;
+    quantity: number;
+    unit?: string;
+    rate: number;
+    taxRate: number;
+    cessRate?: number;
+    hsnCode?: string;
+    productId?: string;
+    batchId?: string;       // picked earliest expiry first when absent, as on sales bills
+    batchNumber?: string;
+    expiryDate?: string;
+    mrp?: number;
+}
+
+export interface CreateChallanInput {
+    companyId: string;
+    customerId: string;
+    customerName: string;
+    customerGstin?: string;
+    customerAddress?: string;
+    date: Date;
+    reason: ChallanReason;
+    items: ChallanLineInput[];
+    placeOfSupply?: string;
+    transporterName?: string;
+    transporterId?: string;
+    transportMode?: 'road' | 'rail' | 'air' | 'ship';
+    vehicleNumber?: string;
+    transportDocNumber?: string;
+    transportDocDate?: Date;
+    notes?: string;
+}
+
+// Quantity of a challan line that a bill is raised for
+export interface ChallanInvoiceLine {
+    challanId: string;
+    line: number;
+    quantity: number;
+}
+
+export interface ChallanConversionOptions {
+    date?: Date;
+    dueDate?: Date;
+    lines?: ChallanInvoiceLine[];   // defaults to everything not yet invoiced
+}
+
+export interface ChallanLineQuantities extends ChallanItem {
+    line: number;
+    invoicedQuantity: number;
+    pendingQuantity: number;
+}
+
+// Goods that leave for job work or exhibition come back rather than being sold
+const INVOICEABLE_REASONS: ChallanReason[] = ['supply', 'supply_on_approval', 'liquid_gas', 'other'];
+
+// Challans whose lines can still be invoiced
+const INVOICEABLE_STATUSES = ['issued', 'partially_invoiced'];
+
+// Delivery challans move goods without a GST liability: issuing one takes the stock out and
+// nothing is posted to the GST ledger until the goods are invoiced. Bill lines raised against a
+// challan carry its id and line, don't move stock again, and drive the challan's invoiced status.
+export class DeliveryChallanService {
+    async createChallan(input: CreateChallanInput, userId: number): Promise<SelectDeliveryChallan> {
+        await serialService.assertNotOnChallan(input.companyId, input.items);
+        const items = await batchService.assignBatches(input.companyId, 'sale', input.items, userId);
+        const allocation = await numberingService.prepareAllocation(input.companyId, 'delivery_challan', input.date);
+        const [, [inserted]] = await db.batch([
+            allocation.increment,
+            db.insert(deliveryChallans).values({
+                ...input,
+                ...this.itemColumns(items),
+                challanNumber: allocation.number,
+                status: 'draft',
+                createdBy: userId,
+                updatedBy: userId
+            }).returning()
+        ]);
+
+        return inserted;
+    }
+
+    async updateChallan(id: string, changes: Partial<Omit<CreateChallanInput, 'companyId'>>, userId: number): Promise<SelectDeliveryChallan> {
+        const challan = await this.getChallan(id);
+        if (challan.status !== 'draft') {
+            throw new Error(`Delivery challan ${challan.challanNumber} is ${challan.status}; only drafts can be edited`);
+        }
+
+        const { items, ...fields } = changes;
+        if (items) await serialService.assertNotOnChallan(challan.companyId, items);
+        const assigned = items ? await batchService.assignBatches(challan.companyId, 'sale', items, userId) : undefined;
+        const [updated] = await db.update(deliveryChallans)
+            .set({
+                ...fields,
+                ...(assigned ? this.itemColumns(assigned) : {}),
+                updatedBy: userId,
+                updatedAt: new Date()
+            })
+            .where(eq(deliveryChallans.id, id))
+            .returning();
+
+        return updated;
+    }
+
+    async deleteChallan(id: string): Promise<void> {
+        const challan = await this.getChallan(id);
+        if (challan.status !== 'draft') {
+            throw new Error(`Only draft challans can be deleted; delivery challan ${challan.challanNumber} is ${challan.status}. Cancel it instead`);
+        }
+        await db.delete(deliveryChallans).where(eq(deliveryChallans.id, id));
+    }
+
+    // Sends the goods: takes the challan's quantities out of stock and out of the batches its
+    // lines name, subject to the company's negative-stock policy. issuedAt guards against
+    // moving stock twice.
+    async issue(id: string, userId: number): Promise<SelectDeliveryChallan> {
+        const challan = await this.getChallan(id);
+        if (challan.status !== 'draft') {
+            throw new Error(`Delivery challan ${challan.challanNumber} is already ${challan.status}`);
+        }
+        await serialService.assertNotOnChallan(challan.companyId, challan.items);
+        await stockService.assertAvailable(challan.companyId, stockService.linesFor(challan.items));
+        await stockService.assertBatchesHeld(challan.companyId, challan.items);
+
+        const now = new Date();
+        const notIssued = sql`EXISTS (SELECT 1 FROM ${deliveryChallans} WHERE ${deliveryChallans.id} = ${id} AND ${deliveryChallans.issuedAt} IS NULL)`;
+        await db.batch([
+            this.stockUpdate(challan, 'out', userId, notIssued),
+            inventoryService.negativeStockCheck('delivery_challan', id, notIssued),
+            db.update(deliveryChallans)
+                .set({ status: 'issued', issuedAt: now, updatedBy: userId, updatedAt: now })
+                .where(and(eq(deliveryChallans.id, id), isNull(deliveryChallans.issuedAt)))
+        ]).catch(error => { throw inventoryService.stockError(error); });
+
+        return this.getChallan(id);
+    }
+
+    // Calls the goods back: an issued challan returns its stock. Challans with lines on a bill
+    // cannot be cancelled until those bills are deleted or cancelled.
+    async cancel(id: string, reason: string, userId: number): Promise<SelectDeliveryChallan> {
+        const challan = await this.getChallan(id);
+        if (challan.status === 'cancelled') {
+            throw new Error(`Delivery challan ${challan.challanNumber} is already cancelled`);
+        }
+        if (!reason?.trim()) {
+            throw new Error('A reason is required to cancel a delivery challan');
+        }
+        const lines = await this.lineQuantities(challan);
+        if (lines.some(line => line.invoicedQuantity > 0)) {
+            throw new Error(`Delivery challan ${challan.challanNumber} has been invoiced; cancel or delete its bills first`);
+        }
+
+        const now = new Date();
+        const queries: BatchItem<'pg'>[] = challan.issuedAt ? [this.stockUpdate(challan, 'in', userId, undefined, reason.trim())] : [];
+        await db.batch([
+            db.update(deliveryChallans)
+                .set({ status: 'cancelled', statusReason: reason.trim(), cancelledAt: now, cancelledBy: userId, updatedBy: userId, updatedAt: now })
+                .where(eq(deliveryChallans.id, id)),
+            ...queries
+        ]);
+
+        return this.getChallan(id);
+    }
+
+    // Delivered, invoiced and pending quantity of each line. Lines on cancelled and void bills
+    // no longer count as invoiced; lines on drafts do.
+    async lineQuantities(challan: SelectDeliveryChallan): Promise<ChallanLineQuantities[]> {
+        const invoiced = await this.invoicedQuantities([challan.id]);
+        return challan.items.map((item, line) => {
+            const invoicedQuantity = invoiced.get(`${challan.id}:${line}`) ?? 0;
+            return { ...item, line, invoicedQuantity, pendingQuantity: Math.max(item.quantity - invoicedQuantity, 0) };
+        });
+    }
+
+    // Bills that invoice the challan's goods (not cancelled or void), most recent first
+    async listBills(challanId: string): Promise<Pick<SelectBill, 'id' | 'billNumber' | 'status' | 'date' | 'totalAmount'>[]> {
+        return db.select({ id: bills.id, billNumber: bills.billNumber, status: bills.status, date: bills.date, totalAmount: bills.totalAmount })
+            .from(bills)
+            .where(this.billsAgainst([challanId]))
+            .orderBy(desc(bills.date));
+    }
+
+    // Raises one draft sales bill for the given challans of the same customer, priced at the
+    // challan rates. The challans' statuses are updated in the same batch as the bill.
+    async convertToBill(challanIds: string[], options: ChallanConversionOptions, userId: number): Promise<SelectBill> {
+        const ids = [...new Set(challanIds)];
+        const challans = await db.select().from(deliveryChallans).where(inArray(deliveryChallans.id, ids));
+        if (challans.length !== ids.length) {
+            throw new Error('Delivery challan not found');
+        }
+        challans.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+        const [first] = challans;
+        for (const challan of challans) {
+            if (challan.companyId !== first.companyId || challan.customerId !== first.customerId) {
+                throw new Error('Challans billed together must belong to the same company and customer');
+            }
+            if (!INVOICEABLE_REASONS.includes(challan.reason)) {
+                throw new Error(`Delivery challan ${challan.challanNumber} was issued for ${challan.reason.replace(/_/g, ' ')} and cannot be invoiced`);
+            }
+            if (!INVOICEABLE_STATUSES.includes(challan.status)) {
+                throw new Error(`Delivery challan ${challan.challanNumber} is ${challan.status}; only issued challans can be invoiced`);
+            }
+        }
+
+        const invoiced = await this.invoicedQuantities(ids);
+        const pending = (challan: SelectDeliveryChallan, line: number) =>
+            Math.max(challan.items[line].quantity - (invoiced.get(`${challan.id}:${line}`) ?? 0), 0);
+
+        const requested = options.lines ?? challans.flatMap(challan =>
+            challan.items.map((_, line) => ({ challanId: challan.id, line, quantity: pending(challan, line) })));
+        const items = requested
+            .filter(entry => entry.quantity > 0)
+            .map(entry => {
+                const challan = challans.find(candidate => candidate.id === entry.challanId);
+                const item = challan?.items[entry.line];
+                if (!challan || !item) {
+                    throw new Error(`Line ${entry.line + 1} of challan ${entry.challanId} not found`);
+                }
+                if (entry.quantity > pending(challan, entry.line) + 1e-9) {
+                    throw new Error(`Delivery challan ${challan.challanNumber}, line ${entry.line + 1} (${item.name}): only ${pending(challan, entry.line)} left to invoice`);
+                }
+                return {
+                    name: item.name,
+                    description: item.description,
+                    quantity: entry.quantity,
+                    rate: item.rate,
+                    unit: item.unit,
+                    taxRate: item.taxRate,
+                    cessRate: item.cessRate,
+                    hsnCode: item.hsnCode,
+                    productId: item.productId,
+                    batchId: item.batchId,
+                    batchNumber: item.batchNumber,
+                    expiryDate: item.expiryDate,
+                    mrp: item.mrp,
+                    challanId: challan.id,
+                    challanLine: entry.line,
+                };
+            });
+        if (items.length === 0) {
+            throw new Error('Nothing left to invoice on the selected challans');
+        }
+
+        const date = options.date ?? new Date();
+        return billService.createBill({
+            customerId: first.customerId,
+            customerName: first.customerName,
+            customerGstin: first.customerGstin,
+            customerAddress: first.customerAddress,
+            date,
+            dueDate: options.dueDate ?? date,
+            items,
+            placeOfSupply: first.placeOfSupply,
+            notes: `Against delivery challan ${challans.map(challan => challan.challanNumber).join(', ')}`,
+            companyId: first.companyId
+        }, userId, [this.statusQuery(ids)]);
+    }
+
+    // Challans referenced by a bill's lines
+    challanIdsOf(items: BillItem[]): string[] {
+        return [...new Set(items.flatMap(item => item.challanId ? [item.challanId] : []))];
+    }
+
+    // Re-derives the invoiced status of issued challans from the bills raised against them.
+    // Batched with any write that adds, removes, cancels or voids such a bill, after that write.
+    statusQuery(challanIds: string[]): BatchItem<'pg'> {
+        const invoicedLines = sql`SELECT (item->>'challanLine')::int AS line, SUM((item->>'quantity')::numeric) AS quantity
+            FROM ${bills}, jsonb_array_elements(${bills.items}) AS item
+            WHERE item->>'challanId' = ${deliveryChallans.id}::text AND ${bills.status} NOT IN ('cancelled', 'void')
+            GROUP BY 1`;
+        const invoicedTotal = sql`COALESCE((SELECT SUM(invoiced.quantity) FROM (${invoicedLines}) AS invoiced), 0)`;
+        const pendingTotal = sql`(SELECT COALESCE(SUM(GREATEST((delivered.item->>'quantity')::numeric - COALESCE(invoiced.quantity, 0), 0)), 0)
+            FROM jsonb_array_elements(${deliveryChallans.items}) WITH ORDINALITY AS delivered(item, position)
+            LEFT JOIN (${invoicedLines}) AS invoiced ON invoiced.line = delivered.position - 1)`;
+        return db.update(deliveryChallans)
+            .set({
+                status: sql`CASE WHEN ${invoicedTotal} = 0 THEN 'issued' WHEN ${pendingTotal} = 0 THEN 'invoiced' ELSE 'partially_invoiced' END`,
+                updatedAt: new Date()
+            })
+            .where(and(
+                inArray(deliveryChallans.id, challanIds),
+                notInArray(deliveryChallans.status, ['draft', 'cancelled'])
+            ));
+    }
+
+    async refreshStatuses(challanIds: string[]): Promise<void> {
+        if (challanIds.length === 0) return;
+        await db.batch([this.statusQuery(challanIds)]);
+    }
+
+    async getChallan(id: string): Promise<SelectDeliveryChallan> {
+        const [challan] = await db.select().from(deliveryChallans).where(eq(deliveryChallans.id, id)).limit(1);
+        if (!challan) {
+            throw new Error('Delivery challan not found');
+        }
+        return challan;
+    }
+
+    private itemColumns(lines: ChallanLineInput[]): Pick<InsertDeliveryChallan, 'items' | 'totalValue'> {
+        const items: ChallanItem[] = lines.map(line => ({ ...line, amount: roundCurrency(line.quantity * line.rate) }));
+        return {
+            items,
+            totalValue: roundCurrency(items.reduce((total, item) => total + item.amount, 0)).toString()
+        };
+    }
+
+    // Quantity per challan line ("challanId:line") on bills that are not cancelled or void
+    private async invoicedQuantities(challanIds: string[]): Promise<Map<string, number>> {
+        const rows = await db.select({ items: bills.items })
+            .from(bills)
+            .where(this.billsAgainst(challanIds));
+
+        const quantities = new Map<string, number>();
+        for (const item of rows.flatMap(row => row.items)) {
+            if (!item.challanId || !challanIds.includes(item.challanId)) continue;
+            const key = `${item.challanId}:${item.challanLine}`;
+            quantities.set(key, (quantities.get(key) ?? 0) + Number(item.quantity));
+        }
+        return quantities;
+    }
+
+    private billsAgainst(challanIds: string[]): SQL | undefined {
+        return and(
+            notInArray(bills.status, ['cancelled', 'void']),
+            sql`EXISTS (SELECT 1 FROM jsonb_array_elements(${bills.items}) AS item
+                WHERE item->>'challanId' IN (${sql.join(challanIds.map(id => sql`${id}`), sql`, `)}))`
+        );
+    }
+
+    // Moves the challan's quantities of the company's products out of stock or back in, and
+    // records it in the stock ledger: goods supplied on the challan as a sale, goods sent on
+    // approval, for job work or to an exhibition as a transfer. Goods leave the default
+    // warehouse and come back to the one they left, in the batch they left from.
+    private stockUpdate(challan: SelectDeliveryChallan, direction: 'out' | 'in', userId: number, guard?: SQL, reason?: string) {
+        const sign = direction === 'in' ? 1 : -1;
+        const lines = sql`SELECT item->>'productId' AS product_id, ${sign} * SUM((item->>'quantity')::numeric) AS quantity, NULL::numeric AS unit_cost,
+                item->>'batchId' AS batch_id
+            FROM ${deliveryChallans}, jsonb_array_elements(${deliveryChallans.items}) AS item
+            WHERE ${deliveryChallans.id} = ${challan.id} AND item->>'productId' IS NOT NULL
+            GROUP BY item->>'productId', item->>'batchId'`;
+        return inventoryService.movementQuery(lines, {
+            companyId: challan.companyId,
+            type: challan.reason === 'supply' ? 'sale' : 'transfer',
+            sourceType: 'delivery_challan',
+            sourceId: challan.id,
+            warehouseId: direction === 'in' ? inventoryService.sourceWarehouse('delivery_challan', challan.id) : null,
+            reference: challan.challanNumber,
+            reason,
+            userId
+        }, guard);
+    }
+}
+
+export const deliveryChallanService = new DeliveryChallanService();
@@ -0,0 +1,172 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import twilio from 'twilio';
+import { DeliveryChannel } from '../db/schema';
+
+export interface OutgoingAttachment {
+    filename: string;
+    content: Buffer;
+    contentType: string;
+}
+
+export interface OutgoingMessage {
+    channel: DeliveryChannel;
+    to: string;
+    subject?: string;
+    text: string;
+    html?: string;
+    attachments?: OutgoingAttachment[];
+    mediaUrl?: string;  // public link to the PDF for channels that cannot carry attachments
+}
+
+export interface DeliveryTransport {
+    readonly name: string;
+    send(message: OutgoingMessage): Promise<{ messageId?: string }>;
+}
+
+// Email through SMTP; falls back to the Gmail account used for OTP mails
+export class SmtpTransport implements DeliveryTransport {
+    readonly name = 'smtp';
+    private transporter?: Transporter;
+
+    async send(message: OutgoingMessage) {
+        const info = await this.getTransporter().sendMail({
+            from: process.env.EMAIL_FROM || process.env.EMAIL_USER,
+            to: message.to,
+            subject: message.subject,
+            text: message.text,
+            html: message.html,
+            attachments: message.attachments,
+        });
+        return { messageId: info.messageId };
+    }
+
+    private getTransporter(): Transporter {
+        if (!this.transporter) {
+            const auth = {
+                user: process.env.SMTP_USER || process.env.EMAIL_USER,
+                pass: process.env.SMTP_PASSWORD || process.env.EMAIL_APP_PASSWORD,
+            };
+            if (!auth.user || !auth.pass) {
+                throw new Error('Email delivery is not configured');
+            }
+            this.transporter = process.env.SMTP_HOST
+                ? nodemailer.createTransport({
+                    host: process.env.SMTP_HOST,
+                    port: Number(process.env.SMTP_PORT) || 587,
+                    secure: process.env.SMTP_PORT === '465',
+                    auth,
+                })
+                : nodemailer.createTransport({ service: 'gmail', auth });
+        }
+        return this.transporter;
+    }
+}
+
+// SMS and WhatsApp through Twilio; WhatsApp numbers use the whatsapp: address prefix
+export class TwilioTransport implements DeliveryTransport {
+    readonly name = 'twilio';
+    private client?: ReturnType<typeof twilio>;
+
+    constructor(private readonly whatsapp: boolean) {}
+
+    async send(message: OutgoingMessage) {
+        const from = this.whatsapp ? process.env.TWILIO_WHATSAPP_NUMBER : process.env.TWILIO_PHONE_NUMBER;
+        if (!from) {
+            throw new Error(`${this.whatsapp ? 'WhatsApp' : 'SMS'} delivery is not configured`);
+        }
+
+        const result = await this.getClient().messages.create({
+            from: this.address(from),
+            to: this.address(message.to),
+            body: message.text,
+            mediaUrl: this.whatsapp && message.mediaUrl ? [message.mediaUrl] : undefined,
+        });
+        return { messageId: result.sid };
+    }
+
+    private address(number: string): string {
+        return this.whatsapp && !number.startsWith('whatsapp:') ? `whatsapp:${number}` : number;
+    }
+
+    private getClient() {
+        if (!this.client) {
+            if (!process.env.TWILIO_ACCOUNT_SID || !process.env.TWILIO_AUTH_TOKEN) {
+                throw new Error('Twilio is not configured');
+            }
+            this.client = twilio(process.env.TWILIO_ACCOUNT_SID, process.env.TWILIO_AUTH_TOKEN);
+        }
+        return this.client;
+    }
+}
+
+// Writes each message (and its attachments) into an outbox directory for offline testing
+export class FileTransport implements DeliveryTransport {
+    readonly name = 'file';
+
+    constructor(private readonly directory: string) {}
+
+    async send(message: OutgoingMessage) {
+        const messageId = `${Date.now()}-${message.channel}-${Math.random().toString(36).slice(2, 8)}`;
+        await fs.mkdir(this.directory, { recursive: true });
+
+        const attachments = [];
+        for (const attachment of message.attachments ?? []) {
+            const fileName = `${messageId}-${attachment.filename}`;
+            await fs.writeFile(path.join(this.directory, fileName), attachment.content);
+            attachments.push(fileName);
+        }
+
+        const { attachments: _, ...envelope } = message;
+        await fs.writeFile(
+            path.join(this.directory, `${messageId}.json`),
+            JSON.stringify({ ...envelope, attachments }, null, 2)
+        );
+        return { messageId };
+    }
+}
+
+export class ConsoleTransport implements DeliveryTransport {
+    readonly name = 'console';
+
+    async send(message: OutgoingMessage) {
+        const attachments = (message.attachments ?? []).map(attachment => attachment.filename);
+        console.log(`[delivery:${message.channel}] to=${message.to}${message.subject ? ` subject="${message.subject}"` : ''}${attachments.length ? ` attachments=${attachments.join(',')}` : ''}\n${message.text}`);
+        return {};
+    }
+}
+
+// Picks the transport for each channel. DELIVERY_TRANSPORT=file|console routes every channel
+// to the offline transport; otherwise the live providers are used. Transports registered
+// with register() take precedence.
+export class DeliveryTransportRegistry {
+    private overrides = new Map<DeliveryChannel, DeliveryTransport>();
+    private live: Record<DeliveryChannel, DeliveryTransport> = {
+        email: new SmtpTransport(),
+        sms: new TwilioTransport(false),
+        whatsapp: new TwilioTransport(true),
+    };
+    private file?: FileTransport;
+    private console = new ConsoleTransport();
+
+    register(channel: DeliveryChannel, transport: DeliveryTransport): void {
+        this.overrides.set(channel, transport);
+    }
+
+    get(channel: DeliveryChannel): DeliveryTransport {
+        const override = this.overrides.get(channel);
+        if (override) return override;
+
+        switch (process.env.DELIVERY_TRANSPORT) {
+            case 'file':
+                return this.file ??= new FileTransport(process.env.DELIVERY_OUTBOX_DIR || path.join(process.cwd(), 'outbox'));
+            case 'console':
+                return this.console;
+            default:
+                return this.live[channel];
+        }
+    }
+}
+
+export const deliveryTransports = new DeliveryTransportRegistry();
@@ -0,0 +1,97 @@
+import { db } from '../db/drizzle';
+import { billReminders, bills, companies, SelectBillReminder } from '../db/schema';
+import { and, gt, gte, inArray, lte, eq } from 'drizzle-orm';
+import { notificationService } from './notificationService';
+import { OPEN_BILL_STATUSES } from './billLifecycleService';
+
+// Days relative to the due date: 3 days before, on the due date, then 7, 15 and 30 days late
+export const DEFAULT_DUNNING_SCHEDULE = [-3, 0, 7, 15, 30];
+
+// Bounds for a company's schedule steps
+export const DUNNING_MIN_OFFSET = -60;
+export const DUNNING_MAX_OFFSET = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class DunningService {
+    // Sorted, de-duplicated steps of the company's schedule
+    scheduleFor(company: { dunningSchedule: number[] | null }): number[] {
+        return [...new Set(company.dunningSchedule ?? DEFAULT_DUNNING_SCHEDULE)].sort((a, b) => a - b);
+    }
+
+    // Whole calendar days from the due date to now; negative before the due date
+    daysFromDue(dueDate: Date, now: Date = new Date()): number {
+        const day = (date: Date) => Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+        return Math.round((day(now) - day(dueDate)) / DAY_MS);
+    }
+
+    // Sends every unpaid sales bill the latest schedule step it has reached, once per step, to the
+    // company owner. Steps passed while the job was not running are skipped rather than sent late.
+    // Extending the due date starts the schedule again.
+    async sendDueReminders(now: Date = new Date()): Promise<number> {
+        const candidates = await db
+            .select({ bill: bills, ownerId: companies.userId, dunningSchedule: companies.dunningSchedule })
+            .from(bills)
+            .innerJoin(companies, eq(bills.companyId, companies.id))
+            .where(and(
+                eq(bills.type, 'sale'),
+                inArray(bills.status, [...OPEN_BILL_STATUSES, 'overdue']),
+                gt(bills.balanceDue, '0'),
+                lte(bills.dueDate, new Date(now.getTime() - (DUNNING_MIN_OFFSET - 1) * DAY_MS)),
+                gte(bills.dueDate, new Date(now.getTime() - (DUNNING_MAX_OFFSET + 1) * DAY_MS))
+            ));
+
+        const due = candidates
+            .map(({ bill, ownerId, dunningSchedule }) => {
+                const daysFromDue = this.daysFromDue(bill.dueDate, now);
+                const step = this.scheduleFor({ dunningSchedule }).filter(offset => offset <= daysFromDue).pop();
+                return { bill, ownerId, daysFromDue, step };
+            })
+            .filter(candidate => candidate.step !== undefined);
+        if (due.length === 0) return 0;
+
+        const sent = await db.select({ billId: billReminders.billId, dueDate: billReminders.dueDate, offsetDays: billReminders.offsetDays })
+            .from(billReminders)
+            .where(inArray(billReminders.billId, due.map(({ bill }) => bill.id)));
+        const alreadySent = new Set(sent.map(reminder => `${reminder.billId}:${reminder.dueDate.getTime()}:${reminder.offsetDays}`));
+
+        let count = 0;
+        for (const { bill, ownerId, daysFromDue, step } of due) {
+            if (alreadySent.has(`${bill.id}:${bill.dueDate.getTime()}:${step}`)) continue;
+            try {
+                // Claim the step first so overlapping runs never remind twice
+                const [claimed] = await db.insert(billReminders)
+                    .values({ billId: bill.id, companyId: bill.companyId, offsetDays: step!, dueDate: bill.dueDate })
+                    .onConflictDoNothing()
+                    .returning();
+                if (!claimed) continue;
+
+                await notificationService.sendBillReminder({
+                    userId: ownerId,
+                    companyId: bill.companyId,
+                    billId: bill.id,
+                    billNumber: bill.billNumber,
+                    customerId: bill.customerId,
+                    customerName: bill.customerName,
+                    amount: bill.balanceDue ?? '0',
+                    currency: bill.currency,
+                    dueDate: bill.dueDate,
+                    daysFromDue,
+                });
+                count++;
+            } catch (error) {
+                console.error(`Dunning reminder for bill ${bill.id} failed:`, error);
+            }
+        }
+        return count;
+    }
+
+    async listReminders(billId: string): Promise<SelectBillReminder[]> {
+        return db.select()
+            .from(billReminders)
+            .where(eq(billReminders.billId, billId))
+            .orderBy(billReminders.sentAt);
+    }
+}
+
+export const dunningService = new DunningService();
@@ -0,0 +1,168 @@
+import { db } from '../db/drizzle';
+import { estimates, SelectBill, SelectEstimate } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { numberingService } from './numberingService';
+import { billService } from './billService';
+import { BillChargeInput, BillLineInput, toLineInputs } from '../utils/billCalculator';
+
+export interface CreateEstimateInput {
+    customerId: string;
+    customerName: string;
+    customerGstin?: string;
+    customerAddress?: string;
+    customerPhone?: string;
+    customerEmail?: string;
+    date: Date;
+    validUntil: Date;
+    items: BillLineInput[];
+    charges?: BillChargeInput[];
+    placeOfSupply?: string;
+    notes?: string;
+    terms?: string;
+    discount?: number;
+    discountType?: 'percentage' | 'amount';
+    roundOff?: number | null;
+    companyId: string;
+}
+
+// Estimates can be edited, sent and answered until they are accepted, rejected or converted
+const OPEN_STATUSES = ['draft', 'sent'];
+
+export class EstimateService {
+    async createEstimate(input: CreateEstimateInput, userId: number): Promise<SelectEstimate> {
+        const calculation = await billService.calculate(input.companyId, input);
+        const allocation = await numberingService.prepareAllocation(input.companyId, 'estimate', input.date);
+
+        const [, [inserted]] = await db.batch([
+            allocation.increment,
+            db.insert(estimates).values({
+                ...input,
+                ...billService.toColumns(calculation),
+                estimateNumber: allocation.number,
+                discount: input.discount?.toString(),
+                status: 'draft',
+                createdBy: userId,
+                updatedBy: userId
+            }).returning()
+        ]);
+
+        return inserted;
+    }
+
+    async updateEstimate(id: string, changes: Partial<CreateEstimateInput>, userId: number): Promise<SelectEstimate> {
+        const estimate = await this.getOpenEstimate(id);
+        const discount = changes.discount ?? (Number(estimate.discount) || 0);
+        const calculation = await billService.calculate(estimate.companyId, {
+            items: changes.items ?? toLineInputs(estimate.items),
+            charges: changes.charges ?? estimate.charges,
+            discount,
+            discountType: changes.discountType ?? estimate.discountType,
+            roundOff: changes.roundOff !== undefined ? changes.roundOff : estimate.roundOffManual ? Number(estimate.roundOff) : null,
+            customerGstin: changes.customerGstin ?? estimate.customerGstin,
+            placeOfSupply: changes.placeOfSupply ?? estimate.placeOfSupply
+        });
+
+        const [updated] = await db.update(estimates)
+            .set({
+                ...changes,
+                ...billService.toColumns(calculation),
+                discount: discount.toString(),
+                updatedBy: userId,
+                updatedAt: new Date()
+            })
+            .where(eq(estimates.id, id))
+            .returning();
+
+        return updated;
+    }
+
+    async markSent(id: string, userId: number): Promise<SelectEstimate> {
+        await this.getOpenEstimate(id);
+        return this.setStatus(id, 'sent', userId);
+    }
+
+    async accept(id: string, userId: number): Promise<SelectEstimate> {
+        const estimate = await this.getOpenEstimate(id);
+        if (this.isExpired(estimate)) {
+            throw new Error(`Estimate expired on ${estimate.validUntil.toISOString().split('T')[0]}`);
+        }
+        return this.setStatus(id, 'accepted', userId);
+    }
+
+    async reject(id: string, reason: string | undefined, userId: number): Promise<SelectEstimate> {
+        await this.getOpenEstimate(id);
+        return this.setStatus(id, 'rejected', userId, reason);
+    }
+
+    // Creates a draft bill from the estimate's customer and items and marks the estimate converted.
+    // Open estimates are treated as accepted by the conversion; rejected or expired ones cannot be billed.
+    async convertToBill(id: string, dates: { date?: Date; dueDate?: Date }, userId: number): Promise<SelectBill> {
+        const estimate = await this.getEstimate(id);
+        if (estimate.status === 'converted') {
+            throw new Error('Estimate has already been converted into a bill');
+        }
+        if (estimate.status === 'rejected') {
+            throw new Error('A rejected estimate cannot be converted');
+        }
+        if (estimate.status !== 'accepted' && this.isExpired(estimate)) {
+            throw new Error(`Estimate expired on ${estimate.validUntil.toISOString().split('T')[0]}`);
+        }
+
+        const date = dates.date ?? new Date();
+        return billService.createBill({
+            customerId: estimate.customerId,
+            customerName: estimate.customerName,
+            customerGstin: estimate.customerGstin,
+            customerAddress: estimate.customerAddress,
+            customerPhone: estimate.customerPhone,
+            customerEmail: estimate.customerEmail,
+            date,
+            dueDate: dates.dueDate ?? date,
+            items: toLineInputs(estimate.items),
+            charges: estimate.charges,
+            placeOfSupply: estimate.placeOfSupply,
+            notes: estimate.notes,
+            terms: estimate.terms,
+            discount: Number(estimate.discount) || undefined,
+            discountType: estimate.discountType === 'percentage' ? 'percentage' : 'amount',
+            roundOff: estimate.roundOffManual ? Number(estimate.roundOff) : null,
+            companyId: estimate.companyId,
+            estimateId: estimate.id
+        }, userId, [
+            db.update(estimates)
+                .set({ status: 'converted', respondedAt: estimate.respondedAt ?? new Date(), updatedBy: userId, updatedAt: new Date() })
+                .where(eq(estimates.id, estimate.id))
+        ]);
+    }
+
+    isExpired(estimate: SelectEstimate): boolean {
+        return estimate.validUntil.getTime() < Date.now();
+    }
+
+    private async setStatus(id: string, status: string, userId: number, reason?: string): Promise<SelectEstimate> {
+        const [updated] = await db.update(estimates)
+            .set({ status, statusReason: reason, respondedAt: status === 'sent' ? undefined : new Date(), updatedBy: userId, updatedAt: new Date() })
+            .where(eq(estimates.id, id))
+            .returning();
+
+        return updated;
+    }
+
+    private async getEstimate(id: string): Promise<SelectEstimate> {
+        const [estimate] = await db.select().from(estimates).where(eq(estimates.id, id)).limit(1);
+        if (!estimate) {
+            throw new Error('Estimate not found');
+        }
+        return estimate;
+    }
+
+    private async getOpenEstimate(id: string): Promise<SelectEstimate> {
+        const estimate = await this.getEstimate(id);
+        if (!OPEN_STATUSES.includes(estimate.status)) {
+            throw new Error(`Estimate is already ${estimate.status}`);
+        }
+        return estimate;
+    }
+}
+
+export const estimateService = new EstimateService();
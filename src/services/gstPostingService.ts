@@ -0,0 +1,95 @@
+import { db } from '../db/drizzle';
+import { bills, gstTransactions } from '../db/schema';
+import { and, eq, inArray, isNull, notInArray, or, SQL, sql } from 'drizzle-orm';
+import { AnyPgColumn } from 'drizzle-orm/pg-core';
+import { BatchItem } from 'drizzle-orm/batch';
+import { GST_STATE_CODES } from '../utils/gst';
+import { BASE_CURRENCY } from '../utils/currency';
+
+// "27-Maharashtra" for the bill's place of supply, matching formatPlaceOfSupply
+const placeOfSupplyLabel = sql`(SELECT states.code || '-' || states.name
+    FROM (VALUES ${sql.join(Object.entries(GST_STATE_CODES).map(([code, name]) => sql`(${code}, ${name})`), sql`, `)}) AS states(code, name)
+    WHERE states.code = ${bills.placeOfSupply})`;
+
+// The ledger is kept in INR: bill amounts are converted at the bill's exchange rate
+const inBase = (column: SQL | AnyPgColumn) => sql`ROUND(COALESCE(${column}, 0) * ${bills.exchangeRate}, 2)`;
+
+// Lines followed by charges, with their values converted for bills in another currency
+const postedItems = sql`CASE WHEN ${bills.currency} = ${BASE_CURRENCY} THEN ${bills.items} || ${bills.charges} ELSE
+    (SELECT COALESCE(jsonb_agg(line || jsonb_build_object(
+        'amount', ROUND((line->>'amount')::numeric * ${bills.exchangeRate}, 2),
+        'taxAmount', ROUND((line->>'taxAmount')::numeric * ${bills.exchangeRate}, 2),
+        'total', ROUND((line->>'total')::numeric * ${bills.exchangeRate}, 2)) ORDER BY position), '[]'::jsonb)
+    FROM jsonb_array_elements(${bills.items} || ${bills.charges}) WITH ORDINALITY AS lines(line, position)) END`;
+
+// Bills whose invoice entry belongs in the GST ledger: issued and not cancelled or voided
+const postedBill = and(sql`${bills.finalizedAt} IS NOT NULL`, notInArray(bills.status, ['cancelled', 'void']));
+
+export class GstPostingService {
+    // Writes the bill's invoice entry (a sale or a purchase) to gst_transactions from the stored
+    // bill, replacing any earlier entry, so it can run in the same batch that finalizes or edits
+    // the bill. Charges are posted as items after the lines so they show up under their SAC in
+    // the HSN summary. Amounts are in INR. A no-op for drafts and cancelled or void bills.
+    invoiceQuery(billId: string): BatchItem<'pg'> {
+        return db.execute(sql`
+            INSERT INTO ${gstTransactions} (company_id, bill_id, document_type, type, date, party_name, party_gstin,
+                taxable_amount, total_tax, cgst, sgst, igst, cess, total, items, place_of_supply, reverse_charge)
+            SELECT ${bills.companyId}, ${bills.id}, 'invoice', ${bills.type}, ${bills.date}, ${bills.customerName}, ${bills.customerGstin},
+                ${inBase(bills.amount)}, ${inBase(bills.taxAmount)}, ${inBase(bills.cgst)}, ${inBase(bills.sgst)},
+                ${inBase(bills.igst)}, ${inBase(bills.cess)}, ${inBase(bills.totalAmount)}, ${postedItems}, ${placeOfSupplyLabel}, false
+            FROM ${bills}
+            WHERE ${bills.id} = ${billId} AND ${postedBill}
+            ON CONFLICT (bill_id) WHERE document_type = 'invoice' DO UPDATE SET
+                date = EXCLUDED.date,
+                party_name = EXCLUDED.party_name,
+                party_gstin = EXCLUDED.party_gstin,
+                taxable_amount = EXCLUDED.taxable_amount,
+                total_tax = EXCLUDED.total_tax,
+                cgst = EXCLUDED.cgst,
+                sgst = EXCLUDED.sgst,
+                igst = EXCLUDED.igst,
+                cess = EXCLUDED.cess,
+                total = EXCLUDED.total,
+                items = EXCLUDED.items,
+                place_of_supply = EXCLUDED.place_of_supply,
+                updated_at = now()
+        `);
+    }
+
+    // Drops the bill's invoice entry; its credit and debit note entries are left alone
+    reversalQuery(billId: string): BatchItem<'pg'> {
+        return db.delete(gstTransactions)
+            .where(and(eq(gstTransactions.billId, billId), eq(gstTransactions.documentType, 'invoice')));
+    }
+
+    // Brings the company's invoice entries in line with its bills: posts every issued bill
+    // (including ones finalized before automatic posting) and removes entries of bills that
+    // are drafts again or were cancelled or voided.
+    async repostCompany(companyId: string): Promise<{ posted: number; removed: number }> {
+        const issued = await db.select({ id: bills.id })
+            .from(bills)
+            .where(and(eq(bills.companyId, companyId), postedBill));
+
+        const stale = await db.select({ id: gstTransactions.id })
+            .from(gstTransactions)
+            .leftJoin(bills, eq(gstTransactions.billId, bills.id))
+            .where(and(
+                eq(gstTransactions.companyId, companyId),
+                eq(gstTransactions.documentType, 'invoice'),
+                sql`${gstTransactions.billId} IS NOT NULL`,
+                or(isNull(bills.finalizedAt), inArray(bills.status, ['cancelled', 'void']))
+            ));
+
+        const queries = [
+            ...issued.map(bill => this.invoiceQuery(bill.id)),
+            ...(stale.length > 0 ? [db.delete(gstTransactions).where(inArray(gstTransactions.id, stale.map(entry => entry.id)))] : []),
+        ];
+        for (let i = 0; i < queries.length; i += 100) {
+            const [first, ...rest] = queries.slice(i, i + 100);
+            await db.batch([first, ...rest]);
+        }
+        return { posted: issued.length, removed: stale.length };
+    }
+}
+
+export const gstPostingService = new GstPostingService();
@@ -0,0 +1,94 @@
+import { createHash } from 'crypto';
+import { db } from '../db/drizzle';
+import { idempotencyKeys, SelectIdempotencyKey } from '../db/schema';
+import { and, eq, isNull, lt, or } from 'drizzle-orm';
+
+// How long a key is remembered after its first use
+export const IDEMPOTENCY_RETENTION_HOURS = Number(process.env.IDEMPOTENCY_RETENTION_HOURS) || 24;
+
+// A first request that has not answered within this time is taken to have died, so a retry
+// runs again instead of waiting for a response that will never be stored
+const IN_FLIGHT_TIMEOUT_MS = 60 * 1000;
+
+export const IDEMPOTENCY_KEY_MAX_LENGTH = 255;
+
+export type IdempotencyClaim =
+    | { state: 'claimed'; record: SelectIdempotencyKey }      // first use: run the request
+    | { state: 'replay'; record: SelectIdempotencyKey }       // answered before: send the stored response
+    | { state: 'in_flight' }                                  // the first request is still running
+    | { state: 'mismatch' };                                  // the key was used for a different request
+
+export interface IdempotentRequest {
+    userId: number;
+    key: string;
+    method: string;
+    path: string;
+    body: unknown;
+}
+
+export class IdempotencyService {
+    fingerprint(method: string, path: string, body: unknown): string {
+        return createHash('sha256').update(`${method} ${path}\n${JSON.stringify(body ?? null)}`).digest('hex');
+    }
+
+    // Claims the user's key for this request, or reports what an earlier request with it left.
+    // The insert is the lock: of two concurrent requests with one key only one gets to run.
+    async claim(request: IdempotentRequest, now: Date = new Date()): Promise<IdempotencyClaim> {
+        const fingerprint = this.fingerprint(request.method, request.path, request.body);
+        const expiresAt = new Date(now.getTime() + IDEMPOTENCY_RETENTION_HOURS * 60 * 60 * 1000);
+
+        // Expired keys and abandoned first requests free the key up again
+        await db.delete(idempotencyKeys).where(and(
+            eq(idempotencyKeys.userId, request.userId),
+            eq(idempotencyKeys.key, request.key),
+            or(
+                lt(idempotencyKeys.expiresAt, now),
+                and(isNull(idempotencyKeys.statusCode), lt(idempotencyKeys.createdAt, new Date(now.getTime() - IN_FLIGHT_TIMEOUT_MS)))
+            )
+        ));
+
+        const [claimed] = await db.insert(idempotencyKeys)
+            .values({ userId: request.userId, key: request.key, method: request.method, path: request.path, fingerprint, createdAt: now, expiresAt })
+            .onConflictDoNothing()
+            .returning();
+        if (claimed) {
+            return { state: 'claimed', record: claimed };
+        }
+
+        const [existing] = await db.select()
+            .from(idempotencyKeys)
+            .where(and(eq(idempotencyKeys.userId, request.userId), eq(idempotencyKeys.key, request.key)))
+            .limit(1);
+        if (!existing) {
+            // Removed between the insert and the lookup; let the client retry
+            return { state: 'in_flight' };
+        }
+        if (existing.fingerprint !== fingerprint) {
+            return { state: 'mismatch' };
+        }
+        if (existing.statusCode === null) {
+            return { state: 'in_flight' };
+        }
+        return { state: 'replay', record: existing };
+    }
+
+    async complete(recordId: string, statusCode: number, responseBody: string): Promise<void> {
+        await db.update(idempotencyKeys)
+            .set({ statusCode, responseBody })
+            .where(eq(idempotencyKeys.id, recordId));
+    }
+
+    // Forgets a claimed key whose request failed on the server, so a retry runs again
+    async release(recordId: string): Promise<void> {
+        await db.delete(idempotencyKeys).where(eq(idempotencyKeys.id, recordId));
+    }
+
+    async purgeExpired(now: Date = new Date()): Promise<number> {
+        const purged = await db.delete(idempotencyKeys)
+            .where(lt(idempotencyKeys.expiresAt, now))
+            .returning({ id: idempotencyKeys.id });
+        return purged.length;
+    }
+}
+
+export const idempotencyService = new IdempotencyService();
@@ -0,0 +1,199 @@
+import { db } from '../db/drizzle';
+import { companies, inventoryTransactions, InventorySourceType, InventoryTransactionType, productBatches, products, warehouses, warehouseStock } from '../db/schema';
+import { and, eq, sql, SQL, SQLWrapper } from 'drizzle-orm';
+import { BatchItem } from 'drizzle-orm/batch';
+
+export interface MovementSource {
+    companyId: string;
+    type: InventoryTransactionType | SQL;   // or a query returning it
+    sourceType: InventorySourceType;
+    sourceId?: string;
+    warehouseId?: string | SQL | null;   // or a query returning it; the company's default when NULL
+    reference?: string | SQL;   // document number, or a query returning it
+    reason?: string;
+    userId?: number;
+}
+
+export interface ReconciledProduct {
+    productId: string;
+    type: InventoryTransactionType;
+    quantity: number;
+}
+
+// The company's default warehouse, NULL while it has none
+const defaultWarehouse = (companyId: string | SQLWrapper) =>
+    sql`(SELECT ${warehouses.id} FROM ${warehouses} WHERE ${warehouses.companyId} = ${companyId} AND ${warehouses.isDefault} LIMIT 1)`;
+
+// The stock ledger. Every change to products.stock goes through movementQuery, which writes
+// the ledger rows and moves the stock, in total, in the warehouse and in the batch, in one
+// statement, so they cannot drift apart. Stock written some other way (offline sync, rows from before the
+// ledger) is caught by reconcile.
+export class InventoryService {
+    // Records a movement and applies it to products.stock, the warehouse's stock and the
+    // batch's. `lines` selects product_id (text), a signed quantity (into stock is positive),
+    // unit_cost (NULL for the product's cost price) and batch_id (text, NULL without a batch),
+    // at most one row per product and batch. Lines are rounded to whole units; zero lines and
+    // products of other companies are skipped, and a batch of another product is ignored.
+    // `guard` may refer to the lines, products, held (the product's row in the warehouse, if
+    // any) and batch; the product rows are locked first, so it sees their latest stock.
+    movementQuery(lines: SQL, source: MovementSource, guard?: SQL): BatchItem<'pg'> {
+        const reference = source.reference ?? null;
+        const warehouseId = source.warehouseId ?? null;
+        return db.execute(sql`
+            WITH moved AS (
+                INSERT INTO ${inventoryTransactions} (company_id, product_id, warehouse_id, batch_id, type, quantity, unit_cost, source_type, source_id, reference, reason, created_by)
+                SELECT ${products.companyId}, ${products.id}, location.id, batch.id, ${source.type}::inventory_transaction_type_enum, ROUND(lines.quantity)::integer,
+                    COALESCE(lines.unit_cost, ${products.costPrice}), ${source.sourceType}, ${source.sourceId ?? null}::uuid,
+                    ${reference}, ${source.reason ?? null}, ${source.userId ?? null}::integer
+                FROM (${lines}) AS lines
+                JOIN ${products} ON ${products.id}::text = lines.product_id
+                CROSS JOIN (SELECT COALESCE(${warehouseId}::uuid, ${defaultWarehouse(source.companyId)}) AS id) AS location
+                LEFT JOIN ${warehouseStock} AS held ON held.warehouse_id = location.id AND held.product_id = ${products.id}
+                LEFT JOIN ${productBatches} AS batch ON batch.id::text = lines.batch_id AND batch.product_id = ${products.id}
+                WHERE ${products.companyId} = ${source.companyId} AND ROUND(lines.quantity) <> 0
+                    ${guard ? sql`AND ${guard}` : sql``}
+                FOR UPDATE OF ${products}
+                RETURNING company_id, product_id, warehouse_id, batch_id, quantity
+            ),
+            placed AS (${this.placeQuery(sql`moved`)}),
+            batched AS (
+                UPDATE ${productBatches}
+                SET quantity = ${productBatches.quantity} + moved.quantity, updated_at = now()
+                FROM (SELECT batch_id, SUM(quantity) AS quantity FROM moved WHERE batch_id IS NOT NULL GROUP BY batch_id) AS moved
+                WHERE ${productBatches.id} = moved.batch_id
+            )
+            UPDATE ${products}
+            SET stock = COALESCE(${products.stock}, 0) + moved.quantity,
+                updated_by = COALESCE(${source.userId ?? null}::integer, ${products.updatedBy}),
+                updated_at = now()
+            FROM (SELECT product_id, SUM(quantity) AS quantity FROM moved GROUP BY product_id) AS moved
+            WHERE ${products.id} = moved.product_id
+        `);
+    }
+
+    // The warehouse a document's earlier movement used, so that reversing it puts the stock
+    // back where it came from even if the default warehouse has changed since
+    sourceWarehouse(sourceType: InventorySourceType, sourceId: string): SQL {
+        return sql`(SELECT ${inventoryTransactions.warehouseId} FROM ${inventoryTransactions}
+            WHERE ${inventoryTransactions.sourceType} = ${sourceType} AND ${inventoryTransactions.sourceId} = ${sourceId}
+            ORDER BY ${inventoryTransactions.createdAt} LIMIT 1)`;
+    }
+
+    // Fails the batch it runs in when the document took a product below zero, in total, in the
+    // warehouse or in the batch, and the company blocks negative stock. Batched after the
+    // movement, it sees the stock other documents moved since any check made beforehand, so two
+    // documents finalized at once cannot both take the last units. Plain SQL cannot raise, so
+    // it fails on a cast; stockError turns that back into the error message.
+    negativeStockCheck(sourceType: InventorySourceType, sourceId: string, guard?: SQL): BatchItem<'pg'> {
+        return db.execute(sql`
+            SELECT (${'Insufficient stock: '}::text || ${products.name})::integer
+            FROM ${inventoryTransactions} AS moved
+            JOIN ${products} ON ${products.id} = moved.product_id
+            JOIN ${companies} ON ${companies.id} = ${products.companyId}
+            LEFT JOIN ${warehouseStock} AS held ON held.warehouse_id = moved.warehouse_id AND held.product_id = moved.product_id
+            LEFT JOIN ${productBatches} AS batch ON batch.id = moved.batch_id
+            WHERE moved.source_type = ${sourceType} AND moved.source_id = ${sourceId} AND moved.quantity < 0
+                AND NOT ${companies.allowNegativeStock}
+                AND (COALESCE(${products.stock}, 0) < 0 OR held.quantity < 0 OR batch.quantity < 0)
+                ${guard ? sql`AND ${guard}` : sql``}
+        `);
+    }
+
+    // The error of a batch that negativeStockCheck failed, or the error itself
+    stockError(error: any): Error {
+        const cause = error?.cause ?? error;
+        const shortage = cause?.code === '22P02' ? /"(Insufficient stock: [^"]*)"/.exec(cause.message ?? '') : null;
+        return shortage ? new Error(shortage[1]) : error;
+    }
+
+    // Lines for movementQuery from quantities worked out in code
+    lines(entries: { productId: string; quantity: number; unitCost?: number | null; batchId?: string | null }[]): SQL {
+        const rows = entries.map(entry => sql`(${entry.productId}, ${entry.quantity}::numeric, ${entry.unitCost ?? null}::numeric, ${entry.batchId ?? null}::text)`);
+        return sql`SELECT * FROM (VALUES ${sql.join(rows, sql`, `)}) AS entries(product_id, quantity, unit_cost, batch_id)`;
+    }
+
+    // A ledger row for stock that is already on the product, such as the opening stock of a
+    // product inserted with it; the stock is placed in the company's default warehouse
+    openingQuery(productId: string, companyId: string, quantity: number, unitCost: string | null, userId: number): BatchItem<'pg'> {
+        return db.execute(sql`
+            WITH moved AS (
+                INSERT INTO ${inventoryTransactions} (company_id, product_id, warehouse_id, type, quantity, unit_cost, source_type, source_id, reason, created_by)
+                VALUES (${companyId}, ${productId}, ${defaultWarehouse(companyId)}, 'opening', ${quantity}, ${unitCost}, 'product', ${productId}, 'Opening stock', ${userId})
+                RETURNING company_id, product_id, warehouse_id, quantity
+            )
+            ${this.placeQuery(sql`moved`)}
+        `);
+    }
+
+    // Movements of a product with the stock balance after each one, oldest first. The
+    // balance runs over the product's whole ledger, or the warehouse's part of it, so it is
+    // right whatever the other filters.
+    ledger(productId: string, filters: { warehouseId?: string; type?: InventoryTransactionType; from?: Date; to?: Date } = {}) {
+        const entries = db.select({
+            id: inventoryTransactions.id,
+            productId: inventoryTransactions.productId,
+            warehouseId: inventoryTransactions.warehouseId,
+            type: inventoryTransactions.type,
+            quantity: inventoryTransactions.quantity,
+            unitCost: inventoryTransactions.unitCost,
+            sourceType: inventoryTransactions.sourceType,
+            sourceId: inventoryTransactions.sourceId,
+            reference: inventoryTransactions.reference,
+            reason: inventoryTransactions.reason,
+            createdBy: inventoryTransactions.createdBy,
+            createdAt: inventoryTransactions.createdAt,
+            balance: sql<number>`(SUM(${inventoryTransactions.quantity}) OVER (ORDER BY ${inventoryTransactions.createdAt}, ${inventoryTransactions.id}))::integer`.as('balance'),
+        })
+            .from(inventoryTransactions)
+            .where(and(
+                eq(inventoryTransactions.productId, productId),
+                filters.warehouseId ? eq(inventoryTransactions.warehouseId, filters.warehouseId) : undefined
+            ))
+            .as('ledger');
+
+        return {
+            entries,
+            where: and(
+                filters.type ? eq(entries.type, filters.type) : undefined,
+                filters.from ? sql`${entries.createdAt} >= ${filters.from}` : undefined,
+                filters.to ? sql`${entries.createdAt} <= ${filters.to}` : undefined
+            ),
+        };
+    }
+
+    // Brings the ledger in line with products.stock: a product without ledger rows gets an
+    // opening entry for its stock, and any other difference is booked as an adjustment, in
+    // the company's default warehouse. products.stock is not changed.
+    async reconcile(companyId?: string): Promise<ReconciledProduct[]> {
+        const result = await db.execute<{ product_id: string; type: InventoryTransactionType; quantity: number }>(sql`
+            WITH moved AS (
+                INSERT INTO ${inventoryTransactions} (company_id, product_id, warehouse_id, type, quantity, unit_cost, source_type, reason)
+                SELECT ${products.companyId}, ${products.id}, ${defaultWarehouse(products.companyId)},
+                    (CASE WHEN ledger.product_id IS NULL THEN 'opening' ELSE 'adjustment' END)::inventory_transaction_type_enum,
+                    COALESCE(${products.stock}, 0) - COALESCE(ledger.balance, 0), ${products.costPrice}, 'reconciliation',
+                    CASE WHEN ledger.product_id IS NULL THEN 'Opening stock' ELSE 'Stock changed outside the ledger' END
+                FROM ${products}
+                LEFT JOIN (SELECT product_id, SUM(quantity) AS balance FROM ${inventoryTransactions} GROUP BY product_id) AS ledger
+                    ON ledger.product_id = ${products.id}
+                WHERE COALESCE(${products.stock}, 0) <> COALESCE(ledger.balance, 0)
+                    ${companyId ? sql`AND ${products.companyId} = ${companyId}` : sql``}
+                RETURNING company_id, product_id, warehouse_id, type, quantity
+            ),
+            placed AS (${this.placeQuery(sql`moved`)})
+            SELECT product_id, type, quantity FROM moved
+        `);
+        return result.rows.map(row => ({ productId: row.product_id, type: row.type, quantity: Number(row.quantity) }));
+    }
+
+    // Adds ledger rows (company_id, product_id, warehouse_id, quantity) to the warehouses' stock
+    private placeQuery(rows: SQL): SQL {
+        return sql`INSERT INTO ${warehouseStock} (company_id, warehouse_id, product_id, quantity)
+            SELECT company_id, warehouse_id, product_id, SUM(quantity) FROM ${rows}
+            WHERE warehouse_id IS NOT NULL
+            GROUP BY company_id, warehouse_id, product_id
+            ON CONFLICT (warehouse_id, product_id) DO UPDATE
+            SET quantity = ${warehouseStock}.quantity + EXCLUDED.quantity, updated_at = now()`;
+    }
+}
+
+export const inventoryService = new InventoryService();
@@ -0,0 +1,366 @@
+import PDFDocument from 'pdfkit';
+import { db } from '../db/drizzle';
+import { bills, companies, BillItem, SelectBill, SelectCompany } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { fileUploadService, UploadResult } from './fileUploadService';
+import { amountInWords } from '../utils/amountInWords';
+import { BASE_CURRENCY, CURRENCIES } from '../utils/currency';
+import { BillUpiPayment, upiPaymentService } from './upiPaymentService';
+import { formatPlaceOfSupply, getStateCodeFromGstin, isInterStateSupply, roundCurrency, splitTax, TaxSplit } from '../utils/gst';
+
+export interface InvoicePdf {
+    fileName: string;
+    buffer: Buffer;
+}
+
+interface TableColumn {
+    label: string;
+    width: number;
+    align: 'left' | 'right' | 'center';
+}
+
+const PAGE_MARGIN = 40;
+const FONT_REGULAR = 'Helvetica';
+const FONT_BOLD = 'Helvetica-Bold';
+
+// Standard PDF fonts have no rupee glyph, so amounts are printed without a symbol
+const formatMoney = (value: number | string | null | undefined): string =>
+    Number(value || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDate = (value: Date | string | null | undefined): string =>
+    value ? new Date(value).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' }) : '';
+
+export class InvoicePdfService {
+    private columns: TableColumn[] = [
+        { label: '#', width: 22, align: 'center' },
+        { label: 'Item', width: 135, align: 'left' },
+        { label: 'HSN/SAC', width: 52, align: 'left' },
+        { label: 'Qty', width: 40, align: 'right' },
+        { label: 'Rate', width: 58, align: 'right' },
+        { label: 'Taxable', width: 66, align: 'right' },
+        { label: 'GST %', width: 36, align: 'right' },
+        { label: 'Tax', width: 52, align: 'right' },
+        { label: 'Amount', width: 54, align: 'right' },
+    ];
+
+    async renderBill(billId: string): Promise<InvoicePdf> {
+        const { bill, company } = await this.loadBill(billId);
+        return {
+            fileName: this.fileNameFor(bill),
+            buffer: await this.render(bill, company),
+        };
+    }
+
+    async storeBillPdf(billId: string, userId: number): Promise<UploadResult> {
+        const { bill, company } = await this.loadBill(billId);
+        const buffer = await this.render(bill, company);
+        return fileUploadService.uploadFile(buffer, this.fileNameFor(bill), 'application/pdf', userId, bill.companyId, 'bill');
+    }
+
+    private async loadBill(billId: string): Promise<{ bill: SelectBill; company: SelectCompany }> {
+        const [row] = await db
+            .select({ bill: bills, company: companies })
+            .from(bills)
+            .innerJoin(companies, eq(bills.companyId, companies.id))
+            .where(eq(bills.id, billId))
+            .limit(1);
+
+        if (!row) {
+            throw new Error('Bill not found');
+        }
+        return row;
+    }
+
+    private fileNameFor(bill: SelectBill): string {
+        return `${bill.billNumber.replace(/[^A-Za-z0-9_-]/g, '_')}.pdf`;
+    }
+
+    // Uses the stored CGST/SGST/IGST columns when present, otherwise derives the split
+    // from the supplier and recipient states so older bills still print correctly.
+    private getTaxSplit(bill: SelectBill, company: SelectCompany): TaxSplit {
+        const cgst = Number(bill.cgst) || 0;
+        const sgst = Number(bill.sgst) || 0;
+        const igst = Number(bill.igst) || 0;
+        if (cgst || sgst || igst) {
+            return { cgst, sgst, igst };
+        }
+
+        const supplierState = getStateCodeFromGstin(company.gstin);
+        const placeOfSupply = bill.placeOfSupply || getStateCodeFromGstin(bill.customerGstin) || supplierState;
+        return splitTax(Number(bill.taxAmount) || 0, isInterStateSupply(supplierState, placeOfSupply));
+    }
+
+    private async render(bill: SelectBill, company: SelectCompany): Promise<Buffer> {
+        const upi = upiPaymentService.forBill(bill, company);
+        const upiQr = upi ? await upiPaymentService.qrPng(upi.intent) : null;
+
+        return new Promise((resolve, reject) => {
+            const doc = new PDFDocument({ size: 'A4', margin: PAGE_MARGIN, info: { Title: `Invoice ${bill.billNumber}`, Author: company.name } });
+            const chunks: Buffer[] = [];
+            doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+            doc.on('end', () => resolve(Buffer.concat(chunks)));
+            doc.on('error', reject);
+
+            try {
+                this.drawHeader(doc, bill, company);
+                this.drawParties(doc, bill, company);
+                this.drawItems(doc, (bill.items || []) as BillItem[]);
+                this.drawTotals(doc, bill, company);
+                if (upi && upiQr) {
+                    this.drawUpiPayment(doc, upi, upiQr);
+                }
+                this.drawFooter(doc, bill, company);
+                doc.end();
+            } catch (error) {
+                reject(error);
+            }
+        });
+    }
+
+    private drawHeader(doc: PDFKit.PDFDocument, bill: SelectBill, company: SelectCompany): void {
+        const width = doc.page.width - PAGE_MARGIN * 2;
+
+        doc.font(FONT_BOLD).fontSize(16).text('TAX INVOICE', PAGE_MARGIN, PAGE_MARGIN, { width, align: 'center' });
+        doc.moveDown(0.5);
+
+        doc.font(FONT_BOLD).fontSize(13).text(company.name, { width });
+        doc.font(FONT_REGULAR).fontSize(9);
+        if (company.address) doc.text(company.address, { width: width / 2 });
+        doc.text(`GSTIN: ${company.gstin}`);
+        const supplierState = formatPlaceOfSupply(getStateCodeFromGstin(company.gstin));
+        if (supplierState) doc.text(`State: ${supplierState}`);
+
+        const metaTop = PAGE_MARGIN + 28;
+        const metaX = PAGE_MARGIN + width / 2;
+        doc.font(FONT_REGULAR).fontSize(9);
+        doc.text(`Invoice No: ${bill.billNumber}`, metaX, metaTop, { width: width / 2, align: 'right' });
+        doc.text(`Invoice Date: ${formatDate(bill.date)}`, { width: width / 2, align: 'right' });
+        doc.text(`Due Date: ${formatDate(bill.dueDate)}`, { width: width / 2, align: 'right' });
+        if (bill.currency !== BASE_CURRENCY) {
+            doc.text(`Currency: ${bill.currency} (1 ${bill.currency} = INR ${Number(bill.exchangeRate)})`, { width: width / 2, align: 'right' });
+        }
+        if (bill.portCode) doc.text(`Port Code: ${bill.portCode}`, { width: width / 2, align: 'right' });
+        if (bill.shippingBillNumber) {
+            const dated = bill.shippingBillDate ? ` dated ${formatDate(bill.shippingBillDate)}` : '';
+            doc.text(`Shipping Bill: ${bill.shippingBillNumber}${dated}`, { width: width / 2, align: 'right' });
+        }
+
+        doc.x = PAGE_MARGIN;
+        doc.y = Math.max(doc.y, metaTop + 60);
+        this.drawRule(doc);
+    }
+
+    private drawParties(doc: PDFKit.PDFDocument, bill: SelectBill, company: SelectCompany): void {
+        const width = doc.page.width - PAGE_MARGIN * 2;
+        const top = doc.y + 8;
+        const placeOfSupply = formatPlaceOfSupply(bill.placeOfSupply || getStateCodeFromGstin(bill.customerGstin) || getStateCodeFromGstin(company.gstin));
+
+        doc.font(FONT_BOLD).fontSize(10).text('Bill To', PAGE_MARGIN, top);
+        doc.font(FONT_REGULAR).fontSize(9);
+        doc.text(bill.customerName, { width: width / 2 });
+        if (bill.customerAddress) doc.text(bill.customerAddress, { width: width / 2 });
+        if (bill.customerGstin) doc.text(`GSTIN: ${bill.customerGstin}`);
+        if (bill.customerPhone) doc.text(`Phone: ${bill.customerPhone}`);
+        if (bill.customerEmail) doc.text(`Email: ${bill.customerEmail}`);
+        const leftBottom = doc.y;
+
+        if (placeOfSupply) {
+            doc.font(FONT_BOLD).fontSize(10).text('Place of Supply', PAGE_MARGIN + width / 2, top, { width: width / 2, align: 'right' });
+            doc.font(FONT_REGULAR).fontSize(9).text(placeOfSupply, { width: width / 2, align: 'right' });
+        }
+
+        doc.x = PAGE_MARGIN;
+        doc.y = Math.max(leftBottom, doc.y) + 8;
+        this.drawRule(doc);
+    }
+
+    private drawItems(doc: PDFKit.PDFDocument, items: BillItem[]): void {
+        doc.y += 6;
+        this.drawRow(doc, this.columns.map(c => c.label), true);
+        this.drawRule(doc);
+
+        items.forEach((item, index) => {
+            const taxable = item.amount ?? item.quantity * item.rate;
+            const cells = [
+                String(index + 1),
+                item.description ? `${item.name}\n${item.description}` : item.name,
+                item.hsnCode || '',
+                `${item.quantity}${item.unit ? ` ${item.unit}` : ''}`,
+                formatMoney(item.rate),
+                formatMoney(taxable),
+                `${item.taxRate || 0}`,
+                formatMoney(item.taxAmount),
+                formatMoney(item.total ?? taxable + (item.taxAmount || 0)),
+            ];
+
+            const rowHeight = this.rowHeight(doc, cells);
+            if (doc.y + rowHeight > doc.page.height - PAGE_MARGIN - 40) {
+                doc.addPage();
+                this.drawRow(doc, this.columns.map(c => c.label), true);
+                this.drawRule(doc);
+            }
+            this.drawRow(doc, cells, false);
+        });
+
+        this.drawRule(doc);
+    }
+
+    private drawTotals(doc: PDFKit.PDFDocument, bill: SelectBill, company: SelectCompany): void {
+        const width = doc.page.width - PAGE_MARGIN * 2;
+        const split = this.getTaxSplit(bill, company);
+        const lines: [string, string][] = [];
+
+        // The bill-level discount is already in the line amounts; show it against the items' value
+        const billDiscount = roundCurrency(bill.items.reduce((total, item) => total + (item.billDiscount || 0), 0));
+        const discountLabel = bill.discountType === 'percentage' ? `Discount (${Number(bill.discount)}%)` : 'Discount';
+        if (billDiscount) {
+            const itemsValue = bill.items.reduce((total, item) => total + (item.amount || 0), 0);
+            lines.push(['Items', formatMoney(itemsValue + billDiscount)]);
+            lines.push([discountLabel, `-${formatMoney(billDiscount)}`]);
+        }
+        for (const charge of bill.charges || []) {
+            lines.push([charge.taxRate ? `${charge.name} (GST ${charge.taxRate}%)` : charge.name, formatMoney(charge.amount)]);
+        }
+        lines.push(['Taxable Value', formatMoney(bill.amount)]);
+
+        if (split.igst || bill.exportType) {
+            lines.push(['IGST', formatMoney(split.igst)]);
+        } else {
+            lines.push(['CGST', formatMoney(split.cgst)]);
+            lines.push(['SGST', formatMoney(split.sgst)]);
+        }
+        const cess = Number(bill.cess) || 0;
+        const roundOff = Number(bill.roundOff) || 0;
+        if (cess) {
+            lines.push(['Cess', formatMoney(cess)]);
+        }
+        // Bills priced before discounts moved ahead of tax took theirs off the total
+        if (Number(bill.discount) && !billDiscount) {
+            const discountAmount = roundCurrency(Number(bill.amount) + Number(bill.taxAmount) + cess + roundOff - Number(bill.totalAmount));
+            lines.push([discountLabel, `-${formatMoney(discountAmount)}`]);
+        }
+        if (roundOff) {
+            lines.push(['Round Off', `${roundOff < 0 ? '-' : ''}${formatMoney(Math.abs(roundOff))}`]);
+        }
+
+        if (doc.y + lines.length * 14 + 60 > doc.page.height - PAGE_MARGIN) {
+            doc.addPage();
+        }
+
+        const labelX = PAGE_MARGIN + width - 220;
+        doc.y += 6;
+        doc.font(FONT_REGULAR).fontSize(9);
+        for (const [label, value] of lines) {
+            const y = doc.y;
+            doc.text(label, labelX, y, { width: 120 });
+            doc.text(value, labelX + 120, y, { width: 100, align: 'right' });
+        }
+
+        const y = doc.y + 4;
+        doc.font(FONT_BOLD).fontSize(11);
+        doc.text(`Total (${bill.currency})`, labelX, y, { width: 120 });
+        doc.text(formatMoney(bill.totalAmount), labelX + 120, y, { width: 100, align: 'right' });
+        if (bill.currency !== BASE_CURRENCY) {
+            const baseY = doc.y + 2;
+            doc.font(FONT_REGULAR).fontSize(9);
+            doc.text('Total (INR)', labelX, baseY, { width: 120 });
+            doc.text(formatMoney(bill.baseTotalAmount), labelX + 120, baseY, { width: 100, align: 'right' });
+        }
+
+        const currency = CURRENCIES[bill.currency] ?? CURRENCIES[BASE_CURRENCY];
+        doc.x = PAGE_MARGIN;
+        doc.moveDown(0.8);
+        doc.font(FONT_BOLD).fontSize(9).text('Amount in words: ', PAGE_MARGIN, doc.y, { continued: true });
+        doc.font(FONT_REGULAR).text(amountInWords(Number(bill.totalAmount), currency.name, currency.subunit), { width });
+        if (bill.exportType) {
+            doc.moveDown(0.3);
+            doc.font(FONT_BOLD).text(this.exportDeclaration(bill, company).toUpperCase(), PAGE_MARGIN, doc.y, { width });
+        }
+        doc.moveDown(0.5);
+        this.drawRule(doc);
+    }
+
+    // Export invoices state how IGST was dealt with
+    private exportDeclaration(bill: SelectBill, company: SelectCompany): string {
+        if (bill.exportType === 'with_payment') {
+            return 'Supply meant for export on payment of integrated tax';
+        }
+        const lut = company.lutNumber ? ` (LUT ARN ${company.lutNumber})` : '';
+        return `Supply meant for export under bond or letter of undertaking without payment of integrated tax${lut}`;
+    }
+
+    // Scan-to-pay block for the balance due
+    private drawUpiPayment(doc: PDFKit.PDFDocument, upi: BillUpiPayment, qr: Buffer): void {
+        const qrSize = 90;
+        if (doc.y + qrSize + 20 > doc.page.height - PAGE_MARGIN) {
+            doc.addPage();
+        }
+
+        const top = doc.y + 6;
+        const textX = PAGE_MARGIN + qrSize + 12;
+        doc.image(qr, PAGE_MARGIN, top, { width: qrSize });
+        doc.font(FONT_BOLD).fontSize(10).text('Scan to pay with UPI', textX, top + 8);
+        doc.font(FONT_REGULAR).fontSize(9);
+        doc.text(`UPI ID: ${upi.vpa}`, textX);
+        doc.text(`Payee: ${upi.payeeName}`, textX);
+        doc.text(`Amount: INR ${formatMoney(upi.amount)}`, textX);
+        doc.text(`Reference: ${upi.reference}`, textX);
+
+        doc.x = PAGE_MARGIN;
+        doc.y = top + qrSize + 6;
+        this.drawRule(doc);
+    }
+
+    private drawFooter(doc: PDFKit.PDFDocument, bill: SelectBill, company: SelectCompany): void {
+        const width = doc.page.width - PAGE_MARGIN * 2;
+        doc.y += 6;
+
+        if (bill.notes) {
+            doc.font(FONT_BOLD).fontSize(9).text('Notes', PAGE_MARGIN);
+            doc.font(FONT_REGULAR).text(bill.notes, { width });
+            doc.moveDown(0.5);
+        }
+        if (bill.terms) {
+            doc.font(FONT_BOLD).fontSize(9).text('Terms & Conditions', PAGE_MARGIN);
+            doc.font(FONT_REGULAR).text(bill.terms, { width });
+            doc.moveDown(0.5);
+        }
+
+        if (doc.y + 60 > doc.page.height - PAGE_MARGIN) {
+            doc.addPage();
+        }
+        doc.moveDown(1.5);
+        doc.font(FONT_BOLD).fontSize(9).text(`For ${company.name}`, PAGE_MARGIN, doc.y, { width, align: 'right' });
+        doc.moveDown(2.5);
+        doc.font(FONT_REGULAR).text('Authorised Signatory', { width, align: 'right' });
+    }
+
+    private rowHeight(doc: PDFKit.PDFDocument, cells: string[]): number {
+        doc.font(FONT_REGULAR).fontSize(8);
+        return Math.max(...cells.map((cell, i) => doc.heightOfString(cell, { width: this.columns[i].width - 4 }))) + 6;
+    }
+
+    private drawRow(doc: PDFKit.PDFDocument, cells: string[], header: boolean): void {
+        const top = doc.y;
+        const height = this.rowHeight(doc, cells);
+        doc.font(header ? FONT_BOLD : FONT_REGULAR).fontSize(8);
+
+        let x = PAGE_MARGIN;
+        cells.forEach((cell, i) => {
+            const column = this.columns[i];
+            doc.text(cell, x + 2, top + 3, { width: column.width - 4, align: column.align });
+            x += column.width;
+        });
+
+        doc.x = PAGE_MARGIN;
+        doc.y = top + height;
+    }
+
+    private drawRule(doc: PDFKit.PDFDocument): void {
+        const y = doc.y;
+        doc.moveTo(PAGE_MARGIN, y).lineTo(doc.page.width - PAGE_MARGIN, y).lineWidth(0.5).strokeColor('#999999').stroke();
+        doc.y = y + 1;
+    }
+}
+
+export const invoicePdfService = new InvoicePdfService();
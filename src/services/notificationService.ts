@@ -1,11 +1,12 @@
 import { db } from '../db/drizzle';
 import { notifications, users } from '../db/schema';
 import { eq, and, desc } from 'drizzle-orm';
+import { formatCurrencyAmount } from '../utils/currency';
 
 export interface NotificationData {
     userId: number;
     companyId?: string;
-    type: 'bill_reminder' | 'payment_received' | 'subscription_expiry' | 'system_update' | 'promotional';
+    type: 'bill_reminder' | 'payment_received' | 'subscription_expiry' | 'system_update' | 'promotional' | 'recurring_invoice_failed' | 'stock_expiry';
     title: string;
     message: string;
     data?: any;
@@ -13,6 +14,19 @@ export interface NotificationData {
     scheduledFor?: Date;
 }
 
+export interface BillReminderData {
+    userId: number;         // company owner who receives the reminder
+    companyId: string;
+    billId: string;
+    billNumber: string;
+    customerId: string;
+    customerName: string;
+    amount: string;         // balance due
+    currency: string;
+    dueDate: Date;
+    daysFromDue: number;    // negative before the due date
+}
+
 export interface PushNotificationPayload {
     title: string;
     body: string;
@@ -163,20 +177,31 @@ export class NotificationService {
         }
     }
 
-    async sendBillReminder(billId: string, customerId: string, amount: string, dueDate: Date): Promise<void> {
+    async sendBillReminder(reminder: BillReminderData): Promise<void> {
         try {
-            // This would integrate with your bill and customer data
-            // For now, creating a basic notification
+            const amount = formatCurrencyAmount(reminder.amount, reminder.currency);
+            const days = Math.abs(reminder.daysFromDue);
+            const when = reminder.daysFromDue < 0
+                ? `is due in ${days} day${days === 1 ? '' : 's'} on ${reminder.dueDate.toLocaleDateString()}`
+                : reminder.daysFromDue === 0
+                    ? 'is due today'
+                    : `is ${days} day${days === 1 ? '' : 's'} overdue (due ${reminder.dueDate.toLocaleDateString()})`;
+
             await this.createNotification({
-                userId: 1, // This should be the actual user ID
+                userId: reminder.userId,
+                companyId: reminder.companyId,
                 type: 'bill_reminder',
-                title: 'Bill Payment Reminder',
-                message: `Bill payment of ₹${amount} is due on ${dueDate.toLocaleDateString()}`,
+                title: reminder.daysFromDue > 0 ? 'Overdue Bill Reminder' : 'Bill Payment Reminder',
+                message: `Bill ${reminder.billNumber} for ${reminder.customerName} (${amount} outstanding) ${when}`,
                 data: {
-                    billId,
-                    customerId,
-                    amount,
-                    dueDate: dueDate.toISOString(),
+                    billId: reminder.billId,
+                    billNumber: reminder.billNumber,
+                    customerId: reminder.customerId,
+                    customerName: reminder.customerName,
+                    amount: reminder.amount,
+                    currency: reminder.currency,
+                    dueDate: reminder.dueDate.toISOString(),
+                    daysFromDue: reminder.daysFromDue,
                 },
             });
         } catch (error) {
@@ -202,6 +227,51 @@ export class NotificationService {
         }
     }
 
+    async sendRecurringInvoiceFailure(userId: number, companyId: string, profileId: string, profileName: string, period: string, reason: string): Promise<void> {
+        try {
+            await this.createNotification({
+                userId,
+                companyId,
+                type: 'recurring_invoice_failed',
+                title: 'Recurring Invoice Failed',
+                message: `Could not generate the ${period} invoice for "${profileName}": ${reason}`,
+                data: {
+                    profileId,
+                    period,
+                    reason,
+                },
+            });
+        } catch (error) {
+            console.error('Send recurring invoice failure notification error:', error);
+        }
+    }
+
+    async sendStockExpiry(
+        userId: number,
+        companyId: string,
+        batches: { productName: string; batchNumber: string; expiryDate: Date; daysToExpiry: number; quantity: number }[]
+    ): Promise<void> {
+        try {
+            const [first] = batches;
+            const message = batches.length === 1
+                ? `Batch ${first.batchNumber} of ${first.productName} (${first.quantity} in stock) ${first.daysToExpiry < 0 ? 'expired' : 'expires'} on ${first.expiryDate.toLocaleDateString()}`
+                : `${batches.length} batches in stock expire soon, the first being ${first.batchNumber} of ${first.productName} on ${first.expiryDate.toLocaleDateString()}`;
+
+            await this.createNotification({
+                userId,
+                companyId,
+                type: 'stock_expiry',
+                title: 'Stock Nearing Expiry',
+                message,
+                data: {
+                    batches: batches.map(batch => ({ ...batch, expiryDate: batch.expiryDate.toISOString() })),
+                },
+            });
+        } catch (error) {
+            console.error('Send stock expiry notification error:', error);
+        }
+    }
+
     async sendSubscriptionExpiry(userId: number, expiryDate: Date): Promise<void> {
         try {
             await this.createNotification({
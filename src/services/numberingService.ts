@@ -0,0 +1,109 @@
+import { db } from '../db/drizzle';
+import { numberSeries, numberSeriesCounters, SelectNumberSeries, VoucherType } from '../db/schema';
+import { and, eq, sql } from 'drizzle-orm';
+import { FinancialYear, getFinancialYear } from '../utils/financialYear';
+
+export interface NumberSeriesSettings {
+    prefix?: string;
+    suffix?: string;
+    padding?: number;
+    startNumber?: number;
+    resetYearly?: boolean;
+}
+
+const DEFAULT_PREFIXES: Record<VoucherType, string> = {
+    invoice: 'INV/{FY}/',
+    credit_note: 'CN/{FY}/',
+    debit_note: 'DN/{FY}/',
+    estimate: 'EST/{FY}/',
+    purchase_bill: 'PB/{FY}/',
+    delivery_challan: 'DC/{FY}/',
+    stock_transfer: 'ST/{FY}/',
+};
+
+export class NumberingService {
+    async getSeries(companyId: string, voucherType: VoucherType): Promise<SelectNumberSeries> {
+        // Create the default series on first use
+        await db.insert(numberSeries)
+            .values({ companyId, voucherType, prefix: DEFAULT_PREFIXES[voucherType] })
+            .onConflictDoNothing();
+
+        const [series] = await db.select()
+            .from(numberSeries)
+            .where(and(eq(numberSeries.companyId, companyId), eq(numberSeries.voucherType, voucherType)))
+            .limit(1);
+
+        return series;
+    }
+
+    async listSeries(companyId: string): Promise<SelectNumberSeries[]> {
+        await this.getSeries(companyId, 'invoice');
+        return db.select().from(numberSeries).where(eq(numberSeries.companyId, companyId));
+    }
+
+    async updateSeries(companyId: string, voucherType: VoucherType, settings: NumberSeriesSettings, userId: number): Promise<SelectNumberSeries> {
+        const series = await this.getSeries(companyId, voucherType);
+        const [updated] = await db.update(numberSeries)
+            .set({ ...settings, updatedBy: userId, updatedAt: new Date() })
+            .where(eq(numberSeries.id, series.id))
+            .returning();
+
+        return updated;
+    }
+
+    async previewNextNumber(companyId: string, voucherType: VoucherType, date: Date = new Date()): Promise<string> {
+        const series = await this.getSeries(companyId, voucherType);
+        const fy = getFinancialYear(date);
+        const [counter] = await db.select()
+            .from(numberSeriesCounters)
+            .where(and(
+                eq(numberSeriesCounters.seriesId, series.id),
+                eq(numberSeriesCounters.financialYear, this.counterYear(series, fy))
+            ))
+            .limit(1);
+
+        const next = counter ? counter.lastNumber + 1 : series.startNumber;
+        return this.format(series, fy, next);
+    }
+
+    // Prepares a gap-free number allocation. `increment` and the insert that uses `number`
+    // must run in the same db.batch() so they commit or roll back together; the row lock
+    // taken by the increment serialises concurrent allocations on the same series.
+    async prepareAllocation(companyId: string, voucherType: VoucherType, date: Date = new Date()) {
+        const series = await this.getSeries(companyId, voucherType);
+        const fy = getFinancialYear(date);
+        const financialYear = this.counterYear(series, fy);
+
+        await db.insert(numberSeriesCounters)
+            .values({ seriesId: series.id, financialYear, lastNumber: series.startNumber - 1 })
+            .onConflictDoNothing();
+
+        const counterFilter = and(
+            eq(numberSeriesCounters.seriesId, series.id),
+            eq(numberSeriesCounters.financialYear, financialYear)
+        );
+        const prefix = this.applyTokens(series.prefix, fy);
+        const suffix = this.applyTokens(series.suffix, fy);
+
+        return {
+            increment: db.update(numberSeriesCounters)
+                .set({ lastNumber: sql`${numberSeriesCounters.lastNumber} + 1`, updatedAt: new Date() })
+                .where(counterFilter),
+            number: sql<string>`(SELECT ${prefix}::text || lpad(${numberSeriesCounters.lastNumber}::text, greatest(${series.padding}::int, length(${numberSeriesCounters.lastNumber}::text)), '0') || ${suffix}::text FROM ${numberSeriesCounters} WHERE ${counterFilter})`,
+        };
+    }
+
+    format(series: SelectNumberSeries, fy: FinancialYear, sequence: number): string {
+        return `${this.applyTokens(series.prefix, fy)}${String(sequence).padStart(series.padding, '0')}${this.applyTokens(series.suffix, fy)}`;
+    }
+
+    private counterYear(series: SelectNumberSeries, fy: FinancialYear): string {
+        return series.resetYearly ? fy.label : 'ALL';
+    }
+
+    private applyTokens(template: string, fy: FinancialYear): string {
+        return template.replace(/\{FY\}/g, fy.shortLabel);
+    }
+}
+
+export const numberingService = new NumberingService();
@@ -1,6 +1,16 @@
 import { db } from '../db/drizzle';
 import { offlineSync, bills, customers, products, payments, SyncStatusEnum } from '../db/schema';
 import { eq, and, desc } from 'drizzle-orm';
+import { billBalanceService } from './billBalanceService';
+import { billLifecycleService } from './billLifecycleService';
+import { gstPostingService } from './gstPostingService';
+import { billService } from './billService';
+import { stockService } from './stockService';
+
+// Bill columns the server owns: numbering, totals, payments and the lifecycle
+const SERVER_BILL_COLUMNS = ['id', 'billNumber', 'type', 'companyId', 'status', 'paymentStatus', 'amountPaid', 'balanceDue', 'amount', 'taxAmount',
+    'cgst', 'sgst', 'igst', 'cess', 'totalAmount', 'roundOffManual', 'baseTotalAmount', 'baseAmountPaid', 'baseBalanceDue', 'finalizedAt', 'sentAt',
+    'cancelledAt', 'cancelledBy', 'statusReason', 'createdBy', 'createdAt', 'updatedAt'];
 
 export interface SyncOperation {
     id: string;
@@ -102,7 +112,7 @@ export class OfflineSyncService {
 
             for (const operation of pendingOperations) {
                 try {
-                    const syncSuccess = await this.syncSingleOperation(operation);
+                    const syncSuccess = await this.syncSingleOperation(operation, userId);
                     
                     if (syncSuccess.success) {
                         await this.updateSyncStatus(operation.id, 'synced');
@@ -131,7 +141,7 @@ export class OfflineSyncService {
         return result;
     }
 
-    private async syncSingleOperation(operation: SyncOperation): Promise<{
+    private async syncSingleOperation(operation: SyncOperation, userId: number): Promise<{
         success: boolean;
         conflict?: boolean;
         conflictData?: any;
@@ -140,7 +150,7 @@ export class OfflineSyncService {
         try {
             switch (operation.tableName) {
                 case 'bills':
-                    return await this.syncBill(operation);
+                    return await this.syncBill(operation, userId);
                 case 'customers':
                     return await this.syncCustomer(operation);
                 case 'products':
@@ -155,7 +165,7 @@ export class OfflineSyncService {
         }
     }
 
-    private async syncBill(operation: SyncOperation): Promise<{
+    private async syncBill(operation: SyncOperation, userId: number): Promise<{
         success: boolean;
         conflict?: boolean;
         conflictData?: any;
@@ -164,7 +174,16 @@ export class OfflineSyncService {
         try {
             switch (operation.operation) {
                 case 'create':
-                    await db.insert(bills).values(operation.data);
+                    // Created like any other bill: numbered and priced on the server, as a draft
+                    if (operation.data.status !== undefined && operation.data.status !== 'draft') {
+                        return { success: false, error: 'Bills are created offline as drafts; finalize them through the bill endpoints' };
+                    }
+                    await billService.createBill({
+                        ...operation.data,
+                        date: new Date(operation.data.date),
+                        dueDate: new Date(operation.data.dueDate),
+                        shippingBillDate: operation.data.shippingBillDate ? new Date(operation.data.shippingBillDate) : undefined,
+                    }, userId);
                     return { success: true };
 
                 case 'update':
@@ -191,14 +210,41 @@ export class OfflineSyncService {
                         };
                     }
 
-                    await db
-                        .update(bills)
-                        .set(operation.data)
-                        .where(eq(bills.id, operation.recordId));
+                    // Lifecycle changes go through the bill endpoints, which apply their stock and GST effects
+                    if (operation.data.status !== undefined && operation.data.status !== existingBill[0].status) {
+                        return { success: false, error: 'Bill status changes cannot be synced offline' };
+                    }
+                    billLifecycleService.assertEditable(existingBill[0], operation.data);
+
+                    // Priced columns are recomputed from the synced fields
+                    const changes = Object.fromEntries(Object.entries(operation.data).filter(([field]) => !SERVER_BILL_COLUMNS.includes(field)));
+                    await db.batch([
+                        db.update(bills)
+                            .set({
+                                ...changes,
+                                ...await billService.pricingUpdate(existingBill[0], changes, userId),
+                                updatedBy: userId,
+                                updatedAt: new Date()
+                            })
+                            .where(eq(bills.id, operation.recordId)),
+                        gstPostingService.invoiceQuery(operation.recordId)
+                    ]);
+                    await billBalanceService.recalculateBill(operation.recordId);
+                    if (existingBill[0].status === 'draft' && changes.items !== undefined) {
+                        await stockService.refreshBillReservation(operation.recordId, userId);
+                    }
                     return { success: true };
 
                 case 'delete':
-                    await db.delete(bills).where(eq(bills.id, operation.recordId));
+                    const [billToDelete] = await db.select().from(bills).where(eq(bills.id, operation.recordId)).limit(1);
+                    if (billToDelete && billToDelete.status !== 'draft') {
+                        return { success: false, error: 'Only draft bills can be deleted' };
+                    }
+
+                    const [deletedBill] = await db.delete(bills).where(eq(bills.id, operation.recordId)).returning();
+                    if (deletedBill) {
+                        await billBalanceService.recalculateCustomer(deletedBill.customerId);
+                    }
                     return { success: true };
 
                 default:
@@ -322,7 +368,8 @@ export class OfflineSyncService {
         try {
             switch (operation.operation) {
                 case 'create':
-                    await db.insert(payments).values(operation.data);
+                    const [createdPayment] = await db.insert(payments).values(operation.data).returning();
+                    await billBalanceService.recalculateBill(createdPayment.billId);
                     return { success: true };
 
                 case 'update':
@@ -347,14 +394,22 @@ export class OfflineSyncService {
                         };
                     }
 
-                    await db
+                    const [updatedPayment] = await db
                         .update(payments)
                         .set(operation.data)
-                        .where(eq(payments.id, operation.recordId));
+                        .where(eq(payments.id, operation.recordId))
+                        .returning();
+                    await billBalanceService.recalculateBill(updatedPayment.billId);
+                    if (updatedPayment.billId !== existingPayment[0].billId) {
+                        await billBalanceService.recalculateBill(existingPayment[0].billId);
+                    }
                     return { success: true };
 
                 case 'delete':
-                    await db.delete(payments).where(eq(payments.id, operation.recordId));
+                    const [deletedPayment] = await db.delete(payments).where(eq(payments.id, operation.recordId)).returning();
+                    if (deletedPayment) {
+                        await billBalanceService.recalculateBill(deletedPayment.billId);
+                    }
                     return { success: true };
 
                 default:
@@ -420,7 +475,7 @@ export class OfflineSyncService {
                         status: 'pending',
                     };
                     
-                    const result = await this.syncSingleOperation(operation);
+                    const result = await this.syncSingleOperation(operation, syncRecord.userId);
                     if (result.success) {
                         await this.updateSyncStatus(syncId, 'synced');
                     } else {
@@ -443,7 +498,7 @@ export class OfflineSyncService {
                         status: 'pending',
                     };
                     
-                    const mergeResult = await this.syncSingleOperation(mergeOperation);
+                    const mergeResult = await this.syncSingleOperation(mergeOperation, syncRecord.userId);
                     if (mergeResult.success) {
                         await this.updateSyncStatus(syncId, 'synced');
                     } else {
@@ -0,0 +1,319 @@
+import { db } from '../db/drizzle';
+import { randomUUID } from 'crypto';
+import { companies, InventoryTransactionType, productBatches, products, SelectProduct, warehouseStock } from '../db/schema';
+import { and, asc, eq, isNotNull, ne, sql, SQL } from 'drizzle-orm';
+import { inventoryService } from './inventoryService';
+import { warehouseService } from './warehouseService';
+import { batchService } from './batchService';
+import { roundCurrency } from '../utils/gst';
+
+export interface ProductInput {
+    name: string;
+    description?: string;
+    sku?: string;
+    barcode?: string;
+    category?: string;
+    unit?: string;
+    sellingPrice: number;
+    costPrice?: number;
+    mrp?: number;
+    stock?: number;
+    minStock?: number;
+    maxStock?: number;
+    taxRate?: number;
+    hsnCode?: string;
+    images?: string[];
+    trackBatches?: boolean;
+    trackSerials?: boolean;
+    warrantyMonths?: number | null;
+    isActive?: boolean;
+    companyId: string;
+}
+
+export interface ProductListFilters {
+    companyId: string;
+    search?: string;
+    category?: string;
+    isActive?: boolean;
+}
+
+export type StockAdjustment = 'add' | 'subtract' | 'set';
+
+// A product with the stock of the warehouse a report was filtered by
+export type WarehouseProduct = SelectProduct & { warehouseStock?: number };
+
+export interface StockValuationLine {
+    productId: string;
+    name: string;
+    sku: string | null;
+    unit: string | null;
+    quantity: number;
+    costPrice: number;
+    value: number;
+}
+
+export interface StockValuation {
+    items: StockValuationLine[];
+    totalQuantity: number;
+    totalValue: number;
+}
+
+// Movement types a user can book by hand; bills, credit notes and challans book the rest
+export const MANUAL_MOVEMENT_TYPES = ['opening', 'adjustment', 'transfer', 'damage'] as const satisfies readonly InventoryTransactionType[];
+
+export interface StockAdjustmentInput {
+    quantity: number;
+    type: StockAdjustment;
+    movementType?: typeof MANUAL_MOVEMENT_TYPES[number];
+    unitCost?: number;
+    reference?: string;
+    reason?: string;
+    warehouseId?: string;   // the default warehouse when absent
+    batchId?: string;
+}
+
+const UNIQUE_CONSTRAINTS: Record<string, string> = {
+    products_company_sku_idx: 'SKU',
+    products_company_barcode_idx: 'Barcode',
+};
+
+// The company's product catalogue. SKUs and barcodes are unique within a company; products
+// without one may share the blank.
+export class ProductService {
+    listFilter(filters: ProductListFilters): SQL | undefined {
+        const conditions = [eq(products.companyId, filters.companyId)];
+        if (filters.category) conditions.push(eq(products.category, filters.category));
+        if (filters.isActive !== undefined) conditions.push(eq(products.isActive, filters.isActive));
+        if (filters.search) {
+            const pattern = `%${filters.search}%`;
+            conditions.push(sql`(${products.name} ILIKE ${pattern} OR ${products.sku} ILIKE ${pattern} OR ${products.barcode} ILIKE ${pattern})`);
+        }
+        return and(...conditions);
+    }
+
+    // A product of one of the user's companies
+    async getProduct(id: string, userId: number): Promise<SelectProduct> {
+        const [found] = await db.select({ product: products })
+            .from(products)
+            .innerJoin(companies, eq(companies.id, products.companyId))
+            .where(and(eq(products.id, id), eq(companies.userId, userId)))
+            .limit(1);
+        if (!found) {
+            throw new Error('Product not found');
+        }
+        return found.product;
+    }
+
+    // Stock the product starts with is booked as its opening stock
+    async createProduct(input: ProductInput, userId: number): Promise<SelectProduct> {
+        const columns = this.toColumns(input);
+        await this.assertUnique(input.companyId, columns.sku, columns.barcode);
+
+        const id = randomUUID();
+        const opening = input.stock ? [inventoryService.openingQuery(id, input.companyId, input.stock, columns.costPrice ?? null, userId)] : [];
+        try {
+            const [[inserted]] = await db.batch([
+                db.insert(products).values({
+                    ...columns,
+                    id,
+                    name: input.name,
+                    sellingPrice: input.sellingPrice.toString(),
+                    companyId: input.companyId,
+                    createdBy: userId,
+                    updatedBy: userId
+                }).returning(),
+                ...opening
+            ]);
+            return inserted;
+        } catch (error) {
+            throw this.duplicateError(error, columns) ?? error;
+        }
+    }
+
+    // Stock is changed through adjustStock, which books it in the stock ledger
+    async updateProduct(id: string, changes: Partial<Omit<ProductInput, 'companyId' | 'stock'>>, userId: number): Promise<SelectProduct> {
+        const product = await this.getProduct(id, userId);
+        const columns = this.toColumns(changes);
+        await this.assertUnique(product.companyId, columns.sku, columns.barcode, id);
+
+        try {
+            const [updated] = await db.update(products)
+                .set({ ...columns, updatedBy: userId, updatedAt: new Date() })
+                .where(eq(products.id, id))
+                .returning();
+            return updated;
+        } catch (error) {
+            throw this.duplicateError(error, columns) ?? error;
+        }
+    }
+
+    async deleteProduct(id: string, userId: number): Promise<void> {
+        await this.getProduct(id, userId);
+        await db.delete(products).where(eq(products.id, id));
+    }
+
+    // Name, SKU, barcode and description matches, by name
+    async search(companyId: string, query: string, limit: number): Promise<SelectProduct[]> {
+        const pattern = `%${query}%`;
+        return db.select()
+            .from(products)
+            .where(and(
+                eq(products.companyId, companyId),
+                sql`(${products.name} ILIKE ${pattern} OR ${products.sku} ILIKE ${pattern} OR ${products.barcode} ILIKE ${pattern} OR ${products.description} ILIKE ${pattern})`
+            ))
+            .orderBy(asc(products.name), asc(products.id))
+            .limit(limit);
+    }
+
+    async categories(companyId: string): Promise<string[]> {
+        const rows = await db.selectDistinct({ category: products.category })
+            .from(products)
+            .where(and(eq(products.companyId, companyId), isNotNull(products.category), ne(products.category, '')))
+            .orderBy(asc(products.category));
+        return rows.map(row => row.category!);
+    }
+
+    // Active products at or below the threshold, or below their own minimum stock without one.
+    // With a warehouse, its stock is compared instead of the company's.
+    async lowStock(companyId: string, threshold?: number, warehouseId?: string): Promise<WarehouseProduct[]> {
+        const stock = warehouseId ? sql`COALESCE(${warehouseStock.quantity}, 0)` : sql`COALESCE(${products.stock}, 0)`;
+        const rows = await db.select({ product: products, warehouseStock: sql<number>`${stock}` })
+            .from(products)
+            .leftJoin(warehouseStock, and(eq(warehouseStock.productId, products.id), warehouseId ? eq(warehouseStock.warehouseId, warehouseId) : sql`false`))
+            .where(and(
+                eq(products.companyId, companyId),
+                eq(products.isActive, true),
+                threshold !== undefined ? sql`${stock} <= ${threshold}` : sql`${stock} <= COALESCE(${products.minStock}, 0)`
+            ))
+            .orderBy(asc(stock), asc(products.name));
+        return rows.map(row => warehouseId ? { ...row.product, warehouseStock: Number(row.warehouseStock) } : row.product);
+    }
+
+    // Stock on hand at cost price, of the company or of one warehouse, by product name
+    async valuation(companyId: string, warehouseId?: string): Promise<StockValuation> {
+        const quantity = warehouseId ? sql<number>`COALESCE(${warehouseStock.quantity}, 0)` : sql<number>`COALESCE(${products.stock}, 0)`;
+        const rows = await db.select({
+            productId: products.id,
+            name: products.name,
+            sku: products.sku,
+            unit: products.unit,
+            quantity,
+            costPrice: products.costPrice,
+        })
+            .from(products)
+            .leftJoin(warehouseStock, and(eq(warehouseStock.productId, products.id), warehouseId ? eq(warehouseStock.warehouseId, warehouseId) : sql`false`))
+            .where(and(eq(products.companyId, companyId), eq(products.isActive, true), sql`${quantity} <> 0`))
+            .orderBy(asc(products.name), asc(products.id));
+
+        const items = rows.map(row => {
+            const costPrice = Number(row.costPrice ?? 0);
+            return { ...row, quantity: Number(row.quantity), costPrice, value: roundCurrency(Number(row.quantity) * costPrice) };
+        });
+        return {
+            items,
+            totalQuantity: items.reduce((total, item) => total + item.quantity, 0),
+            totalValue: roundCurrency(items.reduce((total, item) => total + item.value, 0)),
+        };
+    }
+
+    // Manual stock movement, booked in the stock ledger with its reason. Applied in one
+    // statement, so concurrent adjustments and bill postings are not lost; stock never goes
+    // below zero here, in total, in the warehouse or in the batch. With a batch, 'set' sets the
+    // batch's stock, and otherwise with a warehouse, the warehouse's.
+    async adjustStock(id: string, input: StockAdjustmentInput, userId: number): Promise<SelectProduct> {
+        const product = await this.getProduct(id, userId);
+        const movementType = input.movementType ?? 'adjustment';
+        if (movementType === 'damage' && input.type !== 'subtract') {
+            throw new Error('Damaged stock can only be subtracted');
+        }
+        if (input.warehouseId) {
+            await warehouseService.assertWarehouse(product.companyId, input.warehouseId);
+        }
+        const batch = input.batchId ? await batchService.getBatch(id, input.batchId) : undefined;
+        const stock = batch ? batch.quantity : await this.stockIn(product, input.warehouseId);
+        if (input.type === 'set' && input.quantity === stock) {
+            return product;
+        }
+
+        // 'set' books the difference from the stock at the time of the update
+        const current = batch
+            ? sql`(SELECT ${productBatches.quantity} FROM ${productBatches} WHERE ${productBatches.id} = ${batch.id})`
+            : input.warehouseId ? sql`COALESCE(${warehouseStock.quantity}, 0)` : sql`COALESCE(${products.stock}, 0)`;
+        const quantity = input.type === 'set'
+            ? sql`${input.quantity} - ${current}`
+            : sql`${input.type === 'add' ? input.quantity : -input.quantity}::numeric`;
+        const lines = sql`SELECT ${products.id}::text AS product_id, ${quantity} AS quantity, ${input.unitCost ?? null}::numeric AS unit_cost,
+                ${batch?.id ?? null}::text AS batch_id
+            FROM ${products}
+            LEFT JOIN ${warehouseStock} ON ${warehouseStock.productId} = ${products.id} AND ${warehouseStock.warehouseId} = ${input.warehouseId ?? null}::uuid
+            WHERE ${products.id} = ${id}`;
+
+        const [result] = await db.batch([inventoryService.movementQuery(lines, {
+            companyId: product.companyId,
+            type: movementType,
+            sourceType: 'product',
+            sourceId: id,
+            warehouseId: input.warehouseId,
+            reference: input.reference ?? batch?.batchNumber,
+            reason: input.reason,
+            userId
+        }, sql`COALESCE(${products.stock}, 0) + ROUND(lines.quantity) >= 0
+            AND (location.id IS NULL OR COALESCE(held.quantity, 0) + ROUND(lines.quantity) >= 0)
+            AND (batch.id IS NULL OR batch.quantity + ROUND(lines.quantity) >= 0)`)]);
+        if (!result.rowCount) {
+            throw new Error('Stock cannot be negative');
+        }
+        return this.getProduct(id, userId);
+    }
+
+    // The product's stock, or its stock in the warehouse
+    private async stockIn(product: SelectProduct, warehouseId?: string): Promise<number> {
+        if (!warehouseId) return product.stock ?? 0;
+        const [held] = await db.select({ quantity: warehouseStock.quantity })
+            .from(warehouseStock)
+            .where(and(eq(warehouseStock.warehouseId, warehouseId), eq(warehouseStock.productId, product.id)))
+            .limit(1);
+        return held?.quantity ?? 0;
+    }
+
+    private async assertUnique(companyId: string, sku?: string | null, barcode?: string | null, excludeId?: string): Promise<void> {
+        const checks: [string, SQL][] = [];
+        if (sku) checks.push(['SKU', sql`${products.sku} = ${sku}`]);
+        if (barcode) checks.push(['Barcode', sql`${products.barcode} = ${barcode}`]);
+
+        for (const [label, condition] of checks) {
+            const [existing] = await db.select({ name: products.name })
+                .from(products)
+                .where(and(eq(products.companyId, companyId), condition, excludeId ? ne(products.id, excludeId) : undefined))
+                .limit(1);
+            if (existing) {
+                throw new Error(`${label} ${label === 'SKU' ? sku : barcode} is already used by ${existing.name}`);
+            }
+        }
+    }
+
+    // A product saved by a concurrent request between the check and the write
+    private duplicateError(error: any, columns: { sku?: string | null; barcode?: string | null }): Error | undefined {
+        const cause = error?.cause ?? error;
+        const label = cause?.code === '23505' ? UNIQUE_CONSTRAINTS[cause?.constraint] : undefined;
+        if (!label) return undefined;
+        return new Error(`${label} ${label === 'SKU' ? columns.sku : columns.barcode} is already used by another product`);
+    }
+
+    // Numeric columns are stored as strings; blank SKUs and barcodes are stored as NULL
+    private toColumns(input: Partial<ProductInput>) {
+        const { sellingPrice, costPrice, mrp, taxRate, sku, barcode, companyId, ...rest } = input;
+        const code = (value: string | undefined) => value === undefined ? undefined : value.trim() || null;
+        return {
+            ...rest,
+            sku: code(sku),
+            barcode: code(barcode),
+            sellingPrice: sellingPrice?.toString(),
+            costPrice: costPrice?.toString(),
+            mrp: mrp?.toString(),
+            taxRate: taxRate?.toString(),
+        };
+    }
+}
+
+export const productService = new ProductService();
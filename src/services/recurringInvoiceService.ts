@@ -0,0 +1,285 @@
+import { randomUUID } from 'crypto';
+import { db } from '../db/drizzle';
+import { customers, recurringProfiles, recurringRuns, RecurringFrequency, SelectRecurringProfile, SelectRecurringRun } from '../db/schema';
+import { and, desc, eq, lte, sql } from 'drizzle-orm';
+import { billService } from './billService';
+import { billLifecycleService } from './billLifecycleService';
+import { stockService } from './stockService';
+import { serialService } from './serialService';
+import { inventoryService } from './inventoryService';
+import { billDeliveryService } from './billDeliveryService';
+import { BillChargeInput, BillLineInput, toLineInputs } from '../utils/billCalculator';
+import { notificationService } from './notificationService';
+
+export interface RecurringProfileInput {
+    companyId: string;
+    customerId: string;
+    name: string;
+    frequency: RecurringFrequency;
+    startDate: Date;
+    endDate?: Date | null;
+    dayOfMonth?: number | null;
+    items: BillLineInput[];
+    charges?: BillChargeInput[];
+    notes?: string;
+    terms?: string;
+    discount?: number;
+    discountType?: 'percentage' | 'amount';
+    paymentTermsDays?: number | null;
+    autoSend?: boolean;
+    isActive?: boolean;
+}
+
+const MONTHS_PER_PERIOD: Record<Exclude<RecurringFrequency, 'weekly'>, number> = {
+    monthly: 1,
+    quarterly: 3,
+    half_yearly: 6,
+    yearly: 12,
+};
+
+export class RecurringInvoiceService {
+    async createProfile(input: RecurringProfileInput, userId: number): Promise<SelectRecurringProfile> {
+        // Validates the lines up front; tax is recomputed for each generated bill
+        const { items, charges } = await billService.calculate(input.companyId, input);
+        const [profile] = await db.insert(recurringProfiles)
+            .values({
+                ...input,
+                items,
+                charges,
+                discount: input.discount?.toString(),
+                nextRunDate: this.firstOccurrence(input.startDate, input.frequency, input.dayOfMonth),
+                createdBy: userId,
+                updatedBy: userId
+            })
+            .returning();
+
+        return profile;
+    }
+
+    async updateProfile(id: string, changes: Partial<Omit<RecurringProfileInput, 'companyId'>>, userId: number): Promise<SelectRecurringProfile> {
+        const profile = await this.getProfile(id);
+        const { items, charges } = changes.items || changes.charges
+            ? await billService.calculate(profile.companyId, { items: changes.items ?? toLineInputs(profile.items), charges: changes.charges ?? profile.charges })
+            : { items: undefined, charges: undefined };
+        const schedule = {
+            startDate: changes.startDate ?? profile.startDate,
+            frequency: changes.frequency ?? profile.frequency,
+            dayOfMonth: changes.dayOfMonth !== undefined ? changes.dayOfMonth : profile.dayOfMonth,
+        };
+
+        // A schedule change restarts from the start date but never re-bills a period already generated
+        let nextRunDate = profile.nextRunDate;
+        if (changes.startDate || changes.frequency || changes.dayOfMonth !== undefined) {
+            const [lastSuccess] = await db.select()
+                .from(recurringRuns)
+                .where(and(eq(recurringRuns.profileId, id), eq(recurringRuns.status, 'success')))
+                .orderBy(desc(recurringRuns.period))
+                .limit(1);
+
+            nextRunDate = this.firstOccurrence(schedule.startDate, schedule.frequency, schedule.dayOfMonth);
+            while (lastSuccess && this.periodKey(nextRunDate) <= lastSuccess.period) {
+                nextRunDate = this.nextOccurrence(nextRunDate, schedule.frequency, schedule.dayOfMonth ?? schedule.startDate.getDate());
+            }
+        }
+
+        const [updated] = await db.update(recurringProfiles)
+            .set({
+                ...changes,
+                items: changes.items ? items : undefined,
+                charges: changes.charges ? charges : undefined,
+                discount: changes.discount?.toString(),
+                nextRunDate,
+                updatedBy: userId,
+                updatedAt: new Date()
+            })
+            .where(eq(recurringProfiles.id, id))
+            .returning();
+
+        return updated;
+    }
+
+    async getProfile(id: string): Promise<SelectRecurringProfile> {
+        const [profile] = await db.select().from(recurringProfiles).where(eq(recurringProfiles.id, id)).limit(1);
+        if (!profile) {
+            throw new Error('Recurring profile not found');
+        }
+        return profile;
+    }
+
+    // Entry point for the scheduler: generates every occurrence that has fallen due
+    async runDueProfiles(now: Date = new Date()): Promise<void> {
+        const dueProfiles = await db.select()
+            .from(recurringProfiles)
+            .where(and(eq(recurringProfiles.isActive, true), lte(recurringProfiles.nextRunDate, now)));
+
+        for (const profile of dueProfiles) {
+            await this.processProfile(profile, now);
+        }
+    }
+
+    // Generates bills for the profile's due occurrences, oldest first, and returns the runs recorded.
+    // Stops at the first failure so the period is retried on the next tick.
+    async processProfile(profile: SelectRecurringProfile, now: Date = new Date()): Promise<SelectRecurringRun[]> {
+        const runs: SelectRecurringRun[] = [];
+        const dayOfMonth = profile.dayOfMonth ?? profile.startDate.getDate();
+        let occurrence = profile.nextRunDate;
+
+        while (occurrence <= now) {
+            if (profile.endDate && occurrence > profile.endDate) {
+                await db.update(recurringProfiles)
+                    .set({ isActive: false, updatedAt: new Date() })
+                    .where(eq(recurringProfiles.id, profile.id));
+                break;
+            }
+
+            const next = this.nextOccurrence(occurrence, profile.frequency, dayOfMonth);
+            const run = await this.generate(profile, occurrence, next);
+            if (run) runs.push(run);
+            if (run?.status === 'failed') break;
+            occurrence = next;
+        }
+
+        return runs;
+    }
+
+    private async generate(profile: SelectRecurringProfile, occurrence: Date, next: Date): Promise<SelectRecurringRun | undefined> {
+        const period = this.periodKey(occurrence);
+        const advance = db.update(recurringProfiles)
+            .set({ nextRunDate: next, lastRunAt: new Date(), updatedAt: new Date() })
+            .where(eq(recurringProfiles.id, profile.id));
+
+        const [existing] = await db.select()
+            .from(recurringRuns)
+            .where(and(eq(recurringRuns.profileId, profile.id), eq(recurringRuns.period, period), eq(recurringRuns.status, 'success')))
+            .limit(1);
+        if (existing) {
+            // Already generated (e.g. by another instance); just move the schedule on
+            await advance;
+            return undefined;
+        }
+
+        const runId = randomUUID();
+        try {
+            const [customer] = await db.select().from(customers).where(eq(customers.id, profile.customerId)).limit(1);
+            if (!customer) {
+                throw new Error('Customer not found');
+            }
+            // Auto-sent bills are finalized right away, so they need what finalizing needs now:
+            // the stock, the batches the lines name and a serial per unit
+            if (profile.autoSend) {
+                await serialService.assertSerials(profile.companyId, 'sale', profile.items, true);
+                await stockService.assertAvailable(profile.companyId, stockService.linesFor(profile.items));
+                await stockService.assertBatchesHeld(profile.companyId, profile.items);
+            }
+
+            const billId = randomUUID();
+            const userId = profile.createdBy ?? customer.userId;
+            const dueDate = new Date(occurrence);
+            dueDate.setDate(dueDate.getDate() + (profile.paymentTermsDays ?? customer.paymentTerms ?? 0));
+
+            await billService.createBill({
+                id: billId,
+                customerId: customer.id,
+                customerName: customer.name,
+                customerGstin: customer.gstin,
+                customerAddress: this.formatAddress(customer.address),
+                customerPhone: customer.phone,
+                customerEmail: customer.email,
+                date: occurrence,
+                dueDate,
+                items: toLineInputs(profile.items),
+                charges: profile.charges,
+                notes: profile.notes,
+                terms: profile.terms,
+                discount: Number(profile.discount) || undefined,
+                discountType: profile.discountType === 'percentage' ? 'percentage' : 'amount',
+                companyId: profile.companyId
+            }, userId, [
+                db.insert(recurringRuns).values({ id: runId, profileId: profile.id, period, status: 'success', billId }),
+                advance,
+                ...(profile.autoSend ? billLifecycleService.finalizeQueries(billId, profile.companyId, userId) : [])
+            ]);
+
+            // Delivery failures end up in the bill's delivery log and do not fail the run
+            if (profile.autoSend && customer.email) {
+                await billDeliveryService.send(billId, { channel: 'email' }, userId)
+                    .catch(error => console.error(`Recurring profile ${profile.id}: failed to send bill ${billId}`, error));
+            }
+
+            const [run] = await db.select().from(recurringRuns).where(eq(recurringRuns.id, runId)).limit(1);
+            return run;
+        } catch (error: any) {
+            if (this.isDuplicatePeriod(error)) {
+                return undefined;
+            }
+            return this.recordFailure(profile, period, inventoryService.stockError(error).message || 'Unknown error');
+        }
+    }
+
+    // A period has one failed run, counting its attempts and keeping the latest error
+    private async recordFailure(profile: SelectRecurringProfile, period: string, reason: string): Promise<SelectRecurringRun> {
+        const [run] = await db.insert(recurringRuns)
+            .values({ profileId: profile.id, period, status: 'failed', error: reason })
+            .onConflictDoUpdate({
+                target: [recurringRuns.profileId, recurringRuns.period],
+                targetWhere: sql`${recurringRuns.status} = 'failed'`,
+                set: { error: reason, attempts: sql`${recurringRuns.attempts} + 1`, runAt: new Date() }
+            })
+            .returning();
+
+        // Retries happen every tick; only the first failure of a period is notified
+        if (run.attempts === 1 && profile.createdBy) {
+            await notificationService.sendRecurringInvoiceFailure(profile.createdBy, profile.companyId, profile.id, profile.name, period, reason);
+        }
+        return run;
+    }
+
+    private isDuplicatePeriod(error: any): boolean {
+        const cause = error?.cause ?? error;
+        return cause?.code === '23505' && cause?.constraint === 'recurring_runs_profile_period_idx';
+    }
+
+    firstOccurrence(startDate: Date, frequency: RecurringFrequency, dayOfMonth?: number | null): Date {
+        if (frequency === 'weekly' || !dayOfMonth) {
+            return new Date(startDate);
+        }
+        const candidate = this.onDay(startDate.getFullYear(), startDate.getMonth(), dayOfMonth);
+        return candidate < this.startOfDay(startDate)
+            ? this.onDay(startDate.getFullYear(), startDate.getMonth() + 1, dayOfMonth)
+            : candidate;
+    }
+
+    nextOccurrence(date: Date, frequency: RecurringFrequency, dayOfMonth: number): Date {
+        if (frequency === 'weekly') {
+            const next = new Date(date);
+            next.setDate(next.getDate() + 7);
+            return next;
+        }
+        return this.onDay(date.getFullYear(), date.getMonth() + MONTHS_PER_PERIOD[frequency], dayOfMonth);
+    }
+
+    // Date in the given month, clamping the day to the month's length (31 -> 30 Apr, 28/29 Feb)
+    private onDay(year: number, month: number, day: number): Date {
+        const lastDay = new Date(year, month + 1, 0).getDate();
+        return new Date(year, month, Math.min(day, lastDay));
+    }
+
+    private startOfDay(date: Date): Date {
+        return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    }
+
+    private periodKey(date: Date): string {
+        return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+    }
+
+    private formatAddress(address: unknown): string | null {
+        if (!address) return null;
+        if (typeof address === 'string') return address;
+        if (typeof address === 'object') {
+            return Object.values(address as Record<string, unknown>).filter(Boolean).join(', ');
+        }
+        return null;
+    }
+}
+
+export const recurringInvoiceService = new RecurringInvoiceService();
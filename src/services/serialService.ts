@@ -0,0 +1,360 @@
+import { db } from '../db/drizzle';
+import { randomUUID } from 'crypto';
+import { BillItem, bills, ChallanItem, CreditNoteItem, creditNotes, productSerialEvents, productSerials, products, SalesType, SelectBill, SelectProduct, SelectProductSerial, SerialEventType, SerialStatus } from '../db/schema';
+import { and, asc, eq, inArray, sql, SQL } from 'drizzle-orm';
+import { BatchItem } from 'drizzle-orm/batch';
+
+export interface SerialListFilters {
+    status?: SerialStatus;
+    search?: string;
+}
+
+export interface SerialHistoryEntry {
+    type: SerialEventType;
+    date: Date;
+    billId: string | null;
+    billNumber: string | null;
+    billType: SalesType | null;
+    partyName: string | null;       // supplier of a purchase, customer of a sale
+    creditNoteId: string | null;
+    noteNumber: string | null;
+    warrantyEndsAt: Date | null;
+    reversedAt: Date | null;        // when a sold unit came back
+}
+
+export interface SerialHistory {
+    serial: SelectProductSerial;
+    productName: string;
+    purchasedFrom: SerialHistoryEntry | null;   // the purchase it last came in on
+    soldTo: SerialHistoryEntry | null;          // the sale, while the unit is with the customer
+    events: SerialHistoryEntry[];               // oldest first
+}
+
+type SerialLine = Pick<BillItem, 'productId' | 'challanId' | 'quantity' | 'serialNumbers'>;
+
+// Serial and IMEI numbers of serial-tracked products. Purchase bills register their units and
+// sales bills name the units they sell; both move with the bill's stock, when it is finalized,
+// cancelled or returned through a credit note. A unit can only be sold again once it is back.
+export class SerialService {
+    async listSerials(productId: string, filters: SerialListFilters = {}): Promise<SelectProductSerial[]> {
+        return db.select()
+            .from(productSerials)
+            .where(and(
+                eq(productSerials.productId, productId),
+                filters.status ? eq(productSerials.status, filters.status) : undefined,
+                filters.search ? sql`${productSerials.serialNumber} ILIKE ${`%${filters.search}%`}` : undefined
+            ))
+            .orderBy(asc(productSerials.serialNumber));
+    }
+
+    // Registers serials of units the product already holds, such as stock counted before the
+    // product was tracked. The stock itself does not move.
+    async registerSerials(product: SelectProduct, serialNumbers: string[], userId: number): Promise<SelectProductSerial[]> {
+        if (!product.trackSerials) {
+            throw new Error(`${product.name} does not track serial numbers`);
+        }
+        const numbers = this.normalize(serialNumbers);
+        const [{ inStock }] = await db.select({ inStock: sql<number>`COUNT(*)::integer` })
+            .from(productSerials)
+            .where(and(eq(productSerials.productId, product.id), eq(productSerials.status, 'in_stock')));
+        const stock = product.stock ?? 0;
+        if (inStock + numbers.length > stock) {
+            throw new Error(`${product.name} has ${stock} in stock and ${inStock} registered serials; register at most ${Math.max(stock - inStock, 0)} more`);
+        }
+        await this.assertUnregistered(product.companyId, numbers);
+
+        const now = new Date();
+        const values = numbers.map(serialNumber => ({ id: randomUUID(), companyId: product.companyId, productId: product.id, serialNumber, createdBy: userId }));
+        try {
+            const [registered] = await db.batch([
+                db.insert(productSerials).values(values).returning(),
+                db.insert(productSerialEvents).values(values.map(value => ({
+                    companyId: product.companyId,
+                    serialId: value.id,
+                    type: 'opening' as const,
+                    date: now,
+                    createdBy: userId
+                })))
+            ]);
+            return registered;
+        } catch (error: any) {
+            const cause = error?.cause ?? error;
+            if (cause?.code === '23505' && cause?.constraint === 'product_serials_company_serial_number_idx') {
+                throw new Error('One of the serial numbers was just registered; try again');
+            }
+            throw error;
+        }
+    }
+
+    // The serial with everything that happened to it, by its number within the company
+    async history(companyId: string, serialNumber: string): Promise<SerialHistory> {
+        const [found] = await db.select({ serial: productSerials, productName: products.name })
+            .from(productSerials)
+            .innerJoin(products, eq(products.id, productSerials.productId))
+            .where(and(eq(productSerials.companyId, companyId), eq(productSerials.serialNumber, serialNumber.trim())))
+            .limit(1);
+        if (!found) {
+            throw new Error('Serial not found');
+        }
+
+        const events: SerialHistoryEntry[] = await db.select({
+            type: productSerialEvents.type,
+            date: productSerialEvents.date,
+            billId: productSerialEvents.billId,
+            billNumber: bills.billNumber,
+            billType: bills.type,
+            partyName: bills.customerName,
+            creditNoteId: productSerialEvents.creditNoteId,
+            noteNumber: creditNotes.noteNumber,
+            warrantyEndsAt: productSerialEvents.warrantyEndsAt,
+            reversedAt: productSerialEvents.reversedAt,
+        })
+            .from(productSerialEvents)
+            .leftJoin(bills, eq(bills.id, productSerialEvents.billId))
+            .leftJoin(creditNotes, eq(creditNotes.id, productSerialEvents.creditNoteId))
+            .where(eq(productSerialEvents.serialId, found.serial.id))
+            .orderBy(asc(productSerialEvents.createdAt), asc(productSerialEvents.date));
+
+        const { serial } = found;
+        return {
+            serial,
+            productName: found.productName,
+            purchasedFrom: [...events].reverse().find(event => event.type === 'purchase' && event.billId === serial.purchaseBillId) ?? null,
+            soldTo: events.find(event => event.type === 'sale' && !event.reversedAt && event.billId === serial.saleBillId) ?? null,
+            events,
+        };
+    }
+
+    // Checks the serial numbers on a bill's lines: only serial-tracked products carry them, one
+    // per unit and each once. A sale needs the product's units in stock; a purchase registers
+    // units not in stock. Drafts may leave serials out; `complete` requires all of them, as
+    // finalizing does. Lines invoiced from a delivery challan are left alone.
+    async assertSerials(companyId: string, type: SalesType, items: SerialLine[], complete = false): Promise<void> {
+        const lines = items.filter(item => item.productId && !item.challanId);
+        if (lines.length === 0) return;
+
+        const lineProducts = await db.select({ id: products.id, name: products.name, trackSerials: products.trackSerials })
+            .from(products)
+            .where(and(eq(products.companyId, companyId), inArray(products.id, [...new Set(lines.map(item => item.productId!))])));
+
+        const numbers: string[] = [];
+        for (const item of lines) {
+            const product = lineProducts.find(entry => entry.id === item.productId);
+            if (!product) continue;
+            const serials = item.serialNumbers ?? [];
+            if (!product.trackSerials) {
+                if (serials.length > 0) {
+                    throw new Error(`${product.name} does not track serial numbers`);
+                }
+                continue;
+            }
+            if (serials.length > item.quantity || (complete && serials.length !== item.quantity)) {
+                throw new Error(`${product.name} needs ${item.quantity} serial numbers, one per unit; ${serials.length} given`);
+            }
+            for (const serialNumber of serials) {
+                if (numbers.includes(serialNumber)) {
+                    throw new Error(`Serial ${serialNumber} appears more than once on the bill`);
+                }
+                numbers.push(serialNumber);
+            }
+        }
+        if (numbers.length === 0) return;
+
+        const registered = await db.select()
+            .from(productSerials)
+            .where(and(eq(productSerials.companyId, companyId), inArray(productSerials.serialNumber, numbers)));
+        for (const item of lines) {
+            const product = lineProducts.find(entry => entry.id === item.productId);
+            for (const serialNumber of product?.trackSerials ? item.serialNumbers ?? [] : []) {
+                const serial = registered.find(entry => entry.serialNumber === serialNumber);
+                if (serial && serial.productId !== product!.id) {
+                    throw new Error(`Serial ${serialNumber} belongs to another product`);
+                }
+                if (type === 'sale' && !serial) {
+                    throw new Error(`Serial ${serialNumber} of ${product!.name} not found`);
+                }
+                if (type === 'sale' && serial!.status !== 'in_stock') {
+                    throw new Error(`Serial ${serialNumber} of ${product!.name} is ${serial!.status === 'sold' ? 'already sold' : 'not in stock'}`);
+                }
+                if (type === 'purchase' && serial?.status === 'in_stock') {
+                    throw new Error(`Serial ${serialNumber} of ${product!.name} is already in stock`);
+                }
+            }
+        }
+    }
+
+    // Delivery challans do not record serials, so serial-tracked products go out on a sales
+    // bill instead
+    async assertNotOnChallan(companyId: string, items: Pick<ChallanItem, 'productId'>[]): Promise<void> {
+        const productIds = [...new Set(items.flatMap(item => item.productId ? [item.productId] : []))];
+        if (productIds.length === 0) return;
+
+        const [tracked] = await db.select({ name: products.name })
+            .from(products)
+            .where(and(eq(products.companyId, companyId), inArray(products.id, productIds), eq(products.trackSerials, true)))
+            .limit(1);
+        if (tracked) {
+            throw new Error(`${tracked.name} tracks serial numbers and cannot go on a delivery challan; raise a sales bill instead`);
+        }
+    }
+
+    // Moves the serials on a bill with its stock: applying a purchase registers its units and
+    // applying a sale marks its units sold, with the warranty running from the bill date;
+    // reversing takes them back. Reads the serials from the stored bill, so it runs in the same
+    // batch as the stock update and under the same guard. A second sale of a unit fails on the
+    // open-sale index, rolling back the whole batch.
+    billQueries(billId: string, direction: 'apply' | 'reverse', userId: number, guard?: SQL): BatchItem<'pg'>[] {
+        const lines = sql`SELECT ${bills.companyId} AS company_id, ${bills.type}::text AS bill_type, ${bills.date} AS bill_date,
+                item->>'productId' AS product_id, serial_number
+            FROM ${bills}, jsonb_array_elements(${bills.items}) AS item,
+                jsonb_array_elements_text(COALESCE(item->'serialNumbers', '[]'::jsonb)) AS serial_number
+            WHERE ${bills.id} = ${billId} AND item->>'productId' IS NOT NULL AND item->>'challanId' IS NULL
+                ${guard ? sql`AND ${guard}` : sql``}`;
+
+        if (direction === 'apply') {
+            return [
+                db.execute(sql`
+                    INSERT INTO ${productSerials} (company_id, product_id, serial_number, status, purchase_bill_id, created_by)
+                    SELECT lines.company_id, lines.product_id::uuid, lines.serial_number, 'in_stock', ${billId}::uuid, ${userId}::integer
+                    FROM (${lines}) AS lines
+                    WHERE lines.bill_type = 'purchase'
+                    ON CONFLICT (company_id, serial_number) DO UPDATE
+                    SET status = 'in_stock', purchase_bill_id = EXCLUDED.purchase_bill_id, sale_bill_id = NULL, warranty_ends_at = NULL, updated_at = now()
+                    WHERE ${productSerials.status} <> 'in_stock'
+                `),
+                db.execute(sql`
+                    INSERT INTO ${productSerialEvents} (company_id, serial_id, type, date, bill_id, warranty_ends_at, created_by)
+                    SELECT lines.company_id, serial.id, lines.bill_type, lines.bill_date, ${billId}::uuid,
+                        CASE WHEN lines.bill_type = 'sale' THEN lines.bill_date + make_interval(months => ${products.warrantyMonths}) END,
+                        ${userId}::integer
+                    FROM (${lines}) AS lines
+                    JOIN ${productSerials} AS serial ON serial.company_id = lines.company_id AND serial.serial_number = lines.serial_number
+                    JOIN ${products} ON ${products.id} = serial.product_id
+                `),
+                db.execute(sql`
+                    UPDATE ${productSerials}
+                    SET status = 'sold', sale_bill_id = ${billId}, warranty_ends_at = sale.warranty_ends_at, updated_at = now()
+                    FROM ${productSerialEvents} AS sale
+                    WHERE sale.serial_id = ${productSerials.id} AND sale.bill_id = ${billId} AND sale.type = 'sale' AND sale.reversed_at IS NULL
+                `),
+            ];
+        }
+
+        // Units a cancelled purchase brought in go out again unless they were sold since
+        return [
+            db.execute(sql`
+                INSERT INTO ${productSerialEvents} (company_id, serial_id, type, date, bill_id, created_by)
+                SELECT ${productSerials.companyId}, ${productSerials.id}, 'cancellation', now(), ${billId}::uuid, ${userId}::integer
+                FROM ${productSerials}
+                WHERE ${productSerials.saleBillId} = ${billId}
+                    OR (${productSerials.purchaseBillId} = ${billId} AND ${productSerials.status} = 'in_stock')
+            `),
+            db.execute(sql`
+                UPDATE ${productSerialEvents} SET reversed_at = now()
+                WHERE ${productSerialEvents.billId} = ${billId} AND ${productSerialEvents.type} = 'sale' AND ${productSerialEvents.reversedAt} IS NULL
+            `),
+            db.update(productSerials)
+                .set({ status: 'in_stock', saleBillId: null, warrantyEndsAt: null, updatedAt: new Date() })
+                .where(eq(productSerials.saleBillId, billId)),
+            db.update(productSerials)
+                .set({ status: 'removed', updatedAt: new Date() })
+                .where(and(eq(productSerials.purchaseBillId, billId), eq(productSerials.status, 'in_stock'))),
+        ];
+    }
+
+    // Serial numbers for the returned quantity of a bill line: the ones named, or all that are
+    // left when the whole remainder comes back. Lines without serials return none.
+    returnSerials(original: BillItem, alreadyReturned: string[], quantity: number, requested?: string[]): string[] | undefined {
+        if (!original.serialNumbers?.length) {
+            if (requested?.length) {
+                throw new Error(`${original.name} has no serial numbers on the bill`);
+            }
+            return undefined;
+        }
+        const remaining = original.serialNumbers.filter(serialNumber => !alreadyReturned.includes(serialNumber));
+        const serials = requested?.length ? this.normalize(requested) : quantity === remaining.length ? remaining : [];
+        if (serials.length !== quantity) {
+            throw new Error(`Name the ${quantity} serial numbers of ${original.name} being returned`);
+        }
+        const unknown = serials.find(serialNumber => !remaining.includes(serialNumber));
+        if (unknown) {
+            throw new Error(`Serial ${unknown} is not on ${original.name} or was already returned`);
+        }
+        return serials;
+    }
+
+    // Serials returned through a credit note: units a customer returns are back in stock when
+    // restocked and out of it otherwise; units returned to the supplier leave stock, which they
+    // must still be in
+    async returnQueries(bill: SelectBill, noteId: string, items: CreditNoteItem[], restock: boolean, date: Date, userId: number): Promise<BatchItem<'pg'>[]> {
+        const numbers = items.flatMap(item => item.serialNumbers ?? []);
+        if (numbers.length === 0 || (bill.type === 'purchase' && !restock)) return [];
+
+        const serials = await db.select()
+            .from(productSerials)
+            .where(and(eq(productSerials.companyId, bill.companyId), inArray(productSerials.serialNumber, numbers)));
+        for (const serialNumber of numbers) {
+            const serial = serials.find(entry => entry.serialNumber === serialNumber);
+            if (bill.type === 'purchase' && serial?.status !== 'in_stock') {
+                throw new Error(`Serial ${serialNumber} is no longer in stock`);
+            }
+            if (bill.type === 'sale' && serial?.saleBillId !== bill.id) {
+                throw new Error(`Serial ${serialNumber} is not sold on bill ${bill.billNumber}`);
+            }
+        }
+
+        const ids = serials.map(serial => serial.id);
+        const now = new Date();
+        const queries: BatchItem<'pg'>[] = [
+            db.insert(productSerialEvents).values(serials.map(serial => ({
+                companyId: bill.companyId,
+                serialId: serial.id,
+                type: 'return' as const,
+                date,
+                billId: bill.id,
+                creditNoteId: noteId,
+                createdBy: userId
+            })))
+        ];
+        if (bill.type === 'purchase') {
+            queries.push(db.update(productSerials)
+                .set({ status: 'removed', updatedAt: now })
+                .where(and(inArray(productSerials.id, ids), eq(productSerials.status, 'in_stock'))));
+        } else {
+            queries.push(
+                db.update(productSerialEvents)
+                    .set({ reversedAt: now })
+                    .where(and(inArray(productSerialEvents.serialId, ids), eq(productSerialEvents.billId, bill.id), eq(productSerialEvents.type, 'sale'), sql`${productSerialEvents.reversedAt} IS NULL`)),
+                db.update(productSerials)
+                    .set({ status: restock ? 'in_stock' : 'removed', saleBillId: null, warrantyEndsAt: null, updatedAt: now })
+                    .where(and(inArray(productSerials.id, ids), eq(productSerials.saleBillId, bill.id)))
+            );
+        }
+        return queries;
+    }
+
+    private async assertUnregistered(companyId: string, numbers: string[]): Promise<void> {
+        const [existing] = await db.select({ serialNumber: productSerials.serialNumber })
+            .from(productSerials)
+            .where(and(eq(productSerials.companyId, companyId), inArray(productSerials.serialNumber, numbers)))
+            .limit(1);
+        if (existing) {
+            throw new Error(`Serial ${existing.serialNumber} is already registered`);
+        }
+    }
+
+    // Trimmed, non-empty and each once
+    private normalize(serialNumbers: string[]): string[] {
+        const numbers = serialNumbers.map(serialNumber => serialNumber.trim());
+        if (numbers.some(serialNumber => !serialNumber)) {
+            throw new Error('Serial numbers cannot be empty');
+        }
+        const repeated = numbers.find((serialNumber, index) => numbers.indexOf(serialNumber) !== index);
+        if (repeated) {
+            throw new Error(`Serial ${repeated} appears more than once`);
+        }
+        return numbers;
+    }
+}
+
+export const serialService = new SerialService();
@@ -0,0 +1,265 @@
+import { db } from '../db/drizzle';
+import { BillItem, bills, companies, productBatches, products, SelectBill, SelectStockReservation, stockReservations, warehouses, warehouseStock } from '../db/schema';
+import { and, desc, eq, gt, inArray, isNull, ne, or, sql } from 'drizzle-orm';
+import { BatchItem } from 'drizzle-orm/batch';
+import { serialService } from './serialService';
+
+export interface StockLine {
+    productId: string;
+    quantity: number;
+}
+
+export interface ProductAvailability {
+    productId: string;
+    name: string;
+    stock: number;
+    reserved: number;   // held by draft bills and sales orders
+    available: number;  // stock - reserved
+}
+
+export interface SalesOrderReservationInput {
+    companyId: string;
+    reference: string;  // sales order number
+    items: StockLine[];
+    expiresAt?: Date;
+}
+
+export interface ReservationFilters {
+    productId?: string;
+    billId?: string;
+    reference?: string;
+}
+
+// Available stock and reservations. products.stock only moves when a bill is finalized
+// or reversed (billLifecycleService); reservations hold stock without moving it.
+export class StockService {
+    // Quantity per product across the bill's lines, rounded like the stock update. Lines
+    // invoiced from a delivery challan are left out: their stock left with the challan.
+    linesFor(items: Pick<BillItem, 'productId' | 'quantity' | 'challanId'>[]): StockLine[] {
+        const quantities = new Map<string, number>();
+        for (const item of items) {
+            if (!item.productId || item.challanId) continue;
+            quantities.set(item.productId, (quantities.get(item.productId) ?? 0) + Number(item.quantity));
+        }
+        return [...quantities].map(([productId, quantity]) => ({ productId, quantity: Math.round(quantity) }));
+    }
+
+    async availability(companyId: string, productIds?: string[], excludeBillId?: string): Promise<ProductAvailability[]> {
+        const reserved = sql<string>`COALESCE((SELECT SUM(${stockReservations.quantity}) FROM ${stockReservations}
+            WHERE ${stockReservations.productId} = ${products.id} AND ${this.counted(excludeBillId)}), 0)`;
+        const rows = await db.select({ productId: products.id, name: products.name, stock: products.stock, reserved })
+            .from(products)
+            .where(and(eq(products.companyId, companyId), productIds ? inArray(products.id, productIds) : undefined));
+
+        return rows.map(row => {
+            const stock = row.stock ?? 0;
+            return { productId: row.productId, name: row.name, stock, reserved: Number(row.reserved), available: stock - Number(row.reserved) };
+        });
+    }
+
+    // Throws for products outside the company and, when the company blocks negative stock,
+    // for lines that need more than is available. Stock reserved elsewhere is not available.
+    // Stock must also be held in the warehouse it leaves from: the given one or the default.
+    async assertAvailable(companyId: string, lines: StockLine[], excludeBillId?: string, warehouseId?: string | null): Promise<void> {
+        if (lines.length === 0) return;
+
+        const [company] = await db.select({ allowNegativeStock: companies.allowNegativeStock })
+            .from(companies)
+            .where(eq(companies.id, companyId))
+            .limit(1);
+        if (!company) {
+            throw new Error('Company not found');
+        }
+
+        const availability = await this.availability(companyId, lines.map(line => line.productId), excludeBillId);
+        const shortages: string[] = [];
+        for (const line of lines) {
+            const product = availability.find(entry => entry.productId === line.productId);
+            if (!product) {
+                throw new Error(`Product ${line.productId} not found`);
+            }
+            if (!company.allowNegativeStock && product.available < line.quantity) {
+                shortages.push(`${product.name} (${product.available} available, ${line.quantity} needed)`);
+            }
+        }
+        if (shortages.length > 0) {
+            throw new Error(`Insufficient stock: ${shortages.join(', ')}`);
+        }
+        if (!company.allowNegativeStock) {
+            await this.assertHeld(companyId, lines, availability, warehouseId);
+        }
+    }
+
+    // Checks the stock a sales bill will take out when it leaves draft, including the stock of
+    // the batches its lines name. The bill's own reservation counts towards it. Sales and
+    // purchases alike need every serial of serial-tracked products; already finalized bills
+    // always pass.
+    async assertCanFinalize(bill: SelectBill): Promise<void> {
+        if (bill.finalizedAt) return;
+        await serialService.assertSerials(bill.companyId, bill.type, bill.items, true);
+        if (bill.type !== 'sale') return;
+        await this.assertAvailable(bill.companyId, this.linesFor(bill.items), bill.id, bill.warehouseId);
+        await this.assertBatchesHeld(bill.companyId, bill.items);
+    }
+
+    // Checks the batches the lines name hold their quantities. Batches are not reserved; a
+    // batch only needs the quantity itself.
+    async assertBatchesHeld(companyId: string, items: Pick<BillItem, 'batchId' | 'challanId' | 'quantity'>[]): Promise<void> {
+        const quantities = new Map<string, number>();
+        for (const item of items) {
+            if (!item.batchId || item.challanId) continue;
+            quantities.set(item.batchId, (quantities.get(item.batchId) ?? 0) + Math.round(Number(item.quantity)));
+        }
+        if (quantities.size === 0) return;
+
+        const [company] = await db.select({ allowNegativeStock: companies.allowNegativeStock })
+            .from(companies)
+            .where(eq(companies.id, companyId))
+            .limit(1);
+        if (company?.allowNegativeStock) return;
+
+        const batches = await db.select({ id: productBatches.id, batchNumber: productBatches.batchNumber, quantity: productBatches.quantity, name: products.name })
+            .from(productBatches)
+            .innerJoin(products, eq(products.id, productBatches.productId))
+            .where(inArray(productBatches.id, [...quantities.keys()]));
+        const shortages = batches
+            .filter(batch => batch.quantity < quantities.get(batch.id)!)
+            .map(batch => `${batch.name} batch ${batch.batchNumber} (${batch.quantity} in batch, ${quantities.get(batch.id)} needed)`);
+        if (shortages.length > 0) {
+            throw new Error(`Insufficient stock: ${shortages.join(', ')}`);
+        }
+    }
+
+    // Holds the draft sales bill's quantities until it is finalized, deleted or cancelled.
+    // Replaces any earlier hold for the bill.
+    async reserveForBill(billId: string, userId: number, expiresAt?: Date): Promise<SelectStockReservation[]> {
+        const [bill] = await db.select().from(bills).where(eq(bills.id, billId)).limit(1);
+        if (!bill) {
+            throw new Error('Bill not found');
+        }
+        if (bill.type !== 'sale') {
+            throw new Error('Only sales bills reserve stock');
+        }
+        if (bill.status !== 'draft') {
+            throw new Error(`Bill ${bill.billNumber} is ${bill.status}; only drafts hold reservations`);
+        }
+
+        const lines = this.linesFor(bill.items);
+        if (lines.length === 0) {
+            throw new Error(`Bill ${bill.billNumber} has no product lines to reserve`);
+        }
+        await this.assertAvailable(bill.companyId, lines, bill.id, bill.warehouseId);
+
+        const [, reservations] = await db.batch([
+            this.releaseBillQuery(bill.id),
+            db.insert(stockReservations).values(lines.map(line => ({
+                companyId: bill.companyId,
+                productId: line.productId,
+                quantity: line.quantity,
+                sourceType: 'bill' as const,
+                billId: bill.id,
+                expiresAt,
+                createdBy: userId,
+            }))).returning(),
+        ]);
+        return reservations;
+    }
+
+    // Re-reserves a draft whose items changed, if it was holding stock
+    async refreshBillReservation(billId: string, userId: number): Promise<void> {
+        const [held] = await db.select({ expiresAt: stockReservations.expiresAt })
+            .from(stockReservations)
+            .where(eq(stockReservations.billId, billId))
+            .limit(1);
+        if (!held) return;
+
+        const [bill] = await db.select({ items: bills.items }).from(bills).where(eq(bills.id, billId)).limit(1);
+        if (!bill || this.linesFor(bill.items).length === 0) {
+            await this.releaseBill(billId);
+            return;
+        }
+        await this.reserveForBill(billId, userId, held.expiresAt ?? undefined);
+    }
+
+    async releaseBill(billId: string): Promise<void> {
+        await db.delete(stockReservations).where(eq(stockReservations.billId, billId));
+    }
+
+    // Batched with finalizing or cancelling the bill
+    releaseBillQuery(billId: string): BatchItem<'pg'> {
+        return db.delete(stockReservations).where(eq(stockReservations.billId, billId));
+    }
+
+    async reserveForSalesOrder(input: SalesOrderReservationInput, userId: number): Promise<SelectStockReservation[]> {
+        const lines = this.linesFor(input.items);
+        await this.assertAvailable(input.companyId, lines);
+
+        return db.insert(stockReservations).values(lines.map(line => ({
+            companyId: input.companyId,
+            productId: line.productId,
+            quantity: line.quantity,
+            sourceType: 'sales_order' as const,
+            reference: input.reference,
+            expiresAt: input.expiresAt,
+            createdBy: userId,
+        }))).returning();
+    }
+
+    async listReservations(companyId: string, filters: ReservationFilters = {}): Promise<SelectStockReservation[]> {
+        return db.select()
+            .from(stockReservations)
+            .where(and(
+                eq(stockReservations.companyId, companyId),
+                filters.productId ? eq(stockReservations.productId, filters.productId) : undefined,
+                filters.billId ? eq(stockReservations.billId, filters.billId) : undefined,
+                filters.reference ? eq(stockReservations.reference, filters.reference) : undefined,
+                this.counted()
+            ))
+            .orderBy(desc(stockReservations.createdAt));
+    }
+
+    async release(reservationId: string): Promise<SelectStockReservation> {
+        const [released] = await db.delete(stockReservations)
+            .where(eq(stockReservations.id, reservationId))
+            .returning();
+        if (!released) {
+            throw new Error('Reservation not found');
+        }
+        return released;
+    }
+
+    // Reservations are held company-wide, so a warehouse only needs the quantity itself.
+    // Companies without warehouses have nothing to check.
+    private async assertHeld(companyId: string, lines: StockLine[], products: ProductAvailability[], warehouseId?: string | null): Promise<void> {
+        const [warehouse] = await db.select({ id: warehouses.id, name: warehouses.name })
+            .from(warehouses)
+            .where(and(eq(warehouses.companyId, companyId), warehouseId ? eq(warehouses.id, warehouseId) : eq(warehouses.isDefault, true)))
+            .limit(1);
+        if (!warehouse) return;
+
+        const held = await db.select({ productId: warehouseStock.productId, quantity: warehouseStock.quantity })
+            .from(warehouseStock)
+            .where(and(eq(warehouseStock.warehouseId, warehouse.id), inArray(warehouseStock.productId, lines.map(line => line.productId))));
+        const shortages: string[] = [];
+        for (const line of lines) {
+            const quantity = held.find(entry => entry.productId === line.productId)?.quantity ?? 0;
+            if (quantity < line.quantity) {
+                const name = products.find(entry => entry.productId === line.productId)?.name ?? line.productId;
+                shortages.push(`${name} (${quantity} in ${warehouse.name}, ${line.quantity} needed)`);
+            }
+        }
+        if (shortages.length > 0) {
+            throw new Error(`Insufficient stock: ${shortages.join(', ')}`);
+        }
+    }
+
+    // Reservations that still hold stock: not expired, optionally leaving out one bill's own
+    private counted(excludeBillId?: string) {
+        return and(
+            or(isNull(stockReservations.expiresAt), gt(stockReservations.expiresAt, new Date())),
+            excludeBillId ? or(isNull(stockReservations.billId), ne(stockReservations.billId, excludeBillId)) : undefined
+        );
+    }
+}
+
+export const stockService = new StockService();
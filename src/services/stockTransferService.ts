@@ -0,0 +1,173 @@
+import { db } from '../db/drizzle';
+import { randomUUID } from 'crypto';
+import { companies, products, SelectStockTransfer, StockTransferItem, stockTransfers, StockTransferStatus, warehouseStock } from '../db/schema';
+import { and, desc, eq, gte, inArray, lte, or, sql, SQL } from 'drizzle-orm';
+import { numberingService } from './numberingService';
+import { inventoryService } from './inventoryService';
+import { warehouseService } from './warehouseService';
+
+export interface StockTransferInput {
+    companyId: string;
+    fromWarehouseId: string;
+    toWarehouseId: string;
+    date?: Date;
+    items: { productId: string; quantity: number }[];
+    notes?: string;
+}
+
+export interface StockTransferFilters {
+    companyId: string;
+    warehouseId?: string;   // transfers out of or into the warehouse
+    status?: StockTransferStatus;
+    startDate?: Date;
+    endDate?: Date;
+}
+
+// Transfers between a company's warehouses. A transfer moves its stock when it is created, out
+// of one warehouse and into the other, so products.stock is unchanged; cancelling it moves the
+// stock back. The source always needs the stock, whatever the company's negative-stock policy.
+export class StockTransferService {
+    async createTransfer(input: StockTransferInput, userId: number): Promise<SelectStockTransfer> {
+        if (input.fromWarehouseId === input.toWarehouseId) {
+            throw new Error('A transfer needs two different warehouses');
+        }
+        const from = await warehouseService.assertWarehouse(input.companyId, input.fromWarehouseId);
+        await warehouseService.assertWarehouse(input.companyId, input.toWarehouseId);
+
+        const quantities = new Map<string, number>();
+        for (const item of input.items) {
+            quantities.set(item.productId, (quantities.get(item.productId) ?? 0) + Math.round(item.quantity));
+        }
+        const items = await this.itemsFor(input.companyId, quantities);
+        await this.assertHeld(input.fromWarehouseId, items, from.name);
+
+        const id = randomUUID();
+        const date = input.date ?? new Date();
+        const allocation = await numberingService.prepareAllocation(input.companyId, 'stock_transfer', date);
+        const [, [inserted]] = await db.batch([
+            allocation.increment,
+            db.insert(stockTransfers).values({
+                id,
+                transferNumber: allocation.number,
+                companyId: input.companyId,
+                fromWarehouseId: input.fromWarehouseId,
+                toWarehouseId: input.toWarehouseId,
+                date,
+                items,
+                status: 'completed',
+                notes: input.notes,
+                createdBy: userId,
+                updatedBy: userId
+            }).returning(),
+            ...this.stockUpdates(id, input.companyId, input.fromWarehouseId, input.toWarehouseId, items, allocation.number, userId)
+        ]);
+
+        return inserted;
+    }
+
+    // A transfer of one of the user's companies
+    async getTransfer(id: string, userId: number): Promise<SelectStockTransfer> {
+        const [found] = await db.select({ transfer: stockTransfers })
+            .from(stockTransfers)
+            .innerJoin(companies, eq(companies.id, stockTransfers.companyId))
+            .where(and(eq(stockTransfers.id, id), eq(companies.userId, userId)))
+            .limit(1);
+        if (!found) {
+            throw new Error('Stock transfer not found');
+        }
+        return found.transfer;
+    }
+
+    async listTransfers(filters: StockTransferFilters): Promise<SelectStockTransfer[]> {
+        return db.select()
+            .from(stockTransfers)
+            .where(and(
+                eq(stockTransfers.companyId, filters.companyId),
+                filters.warehouseId
+                    ? or(eq(stockTransfers.fromWarehouseId, filters.warehouseId), eq(stockTransfers.toWarehouseId, filters.warehouseId))
+                    : undefined,
+                filters.status ? eq(stockTransfers.status, filters.status) : undefined,
+                filters.startDate ? gte(stockTransfers.date, filters.startDate) : undefined,
+                filters.endDate ? lte(stockTransfers.date, filters.endDate) : undefined
+            ))
+            .orderBy(desc(stockTransfers.date), desc(stockTransfers.createdAt));
+    }
+
+    // Moves the goods back to the source warehouse; the destination must still hold them
+    async cancel(id: string, reason: string, userId: number): Promise<SelectStockTransfer> {
+        const transfer = await this.getTransfer(id, userId);
+        if (transfer.status === 'cancelled') {
+            throw new Error(`Stock transfer ${transfer.transferNumber} is already cancelled`);
+        }
+        if (!reason?.trim()) {
+            throw new Error('A reason is required to cancel a stock transfer');
+        }
+        const to = await warehouseService.getWarehouse(transfer.toWarehouseId, userId);
+        await this.assertHeld(transfer.toWarehouseId, transfer.items, to.name);
+
+        // Only the request whose update cancelled the transfer moves the stock back
+        const now = new Date();
+        const cancelledNow = sql`EXISTS (SELECT 1 FROM ${stockTransfers} WHERE ${and(eq(stockTransfers.id, id), eq(stockTransfers.cancelledAt, now))})`;
+        const [[cancelled]] = await db.batch([
+            db.update(stockTransfers)
+                .set({ status: 'cancelled', statusReason: reason.trim(), cancelledAt: now, cancelledBy: userId, updatedBy: userId, updatedAt: now })
+                .where(and(eq(stockTransfers.id, id), eq(stockTransfers.status, 'completed')))
+                .returning(),
+            ...this.stockUpdates(id, transfer.companyId, transfer.toWarehouseId, transfer.fromWarehouseId, transfer.items, transfer.transferNumber, userId, cancelledNow, reason.trim())
+        ]);
+        if (!cancelled) {
+            throw new Error(`Stock transfer ${transfer.transferNumber} is already cancelled`);
+        }
+        return cancelled;
+    }
+
+    // The lines with their product names; every product must belong to the company
+    private async itemsFor(companyId: string, quantities: Map<string, number>): Promise<StockTransferItem[]> {
+        const lines = [...quantities].filter(([, quantity]) => quantity > 0);
+        if (lines.length === 0) {
+            throw new Error('A transfer needs at least one product with a quantity');
+        }
+        const found = await db.select({ id: products.id, name: products.name })
+            .from(products)
+            .where(and(eq(products.companyId, companyId), inArray(products.id, lines.map(([productId]) => productId))));
+
+        return lines.map(([productId, quantity]) => {
+            const product = found.find(entry => entry.id === productId);
+            if (!product) {
+                throw new Error(`Product ${productId} not found`);
+            }
+            return { productId, name: product.name, quantity };
+        });
+    }
+
+    private async assertHeld(warehouseId: string, items: StockTransferItem[], warehouseName: string): Promise<void> {
+        const held = await db.select({ productId: warehouseStock.productId, quantity: warehouseStock.quantity })
+            .from(warehouseStock)
+            .where(and(eq(warehouseStock.warehouseId, warehouseId), inArray(warehouseStock.productId, items.map(item => item.productId))));
+
+        const shortages: string[] = [];
+        for (const item of items) {
+            const quantity = held.find(entry => entry.productId === item.productId)?.quantity ?? 0;
+            if (quantity < item.quantity) {
+                shortages.push(`${item.name} (${quantity} held, ${item.quantity} needed)`);
+            }
+        }
+        if (shortages.length > 0) {
+            throw new Error(`Insufficient stock in ${warehouseName}: ${shortages.join(', ')}`);
+        }
+    }
+
+    // Out of one warehouse and into the other, booked as transfers in the stock ledger
+    private stockUpdates(id: string, companyId: string, fromWarehouseId: string, toWarehouseId: string,
+        items: StockTransferItem[], transferNumber: string | SQL, userId: number, guard?: SQL, reason?: string) {
+        const source = { companyId, type: 'transfer' as const, sourceType: 'stock_transfer' as const, sourceId: id, reference: transferNumber, reason, userId };
+        return [
+            inventoryService.movementQuery(inventoryService.lines(items.map(item => ({ productId: item.productId, quantity: -item.quantity }))),
+                { ...source, warehouseId: fromWarehouseId }, guard),
+            inventoryService.movementQuery(inventoryService.lines(items.map(item => ({ productId: item.productId, quantity: item.quantity }))),
+                { ...source, warehouseId: toWarehouseId }, guard),
+        ];
+    }
+}
+
+export const stockTransferService = new StockTransferService();
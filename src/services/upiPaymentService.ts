@@ -0,0 +1,103 @@
+import QRCode from 'qrcode';
+import { db } from '../db/drizzle';
+import { bills, companies, SelectBill, SelectCompany } from '../db/schema';
+import { and, desc, eq, notInArray, sql } from 'drizzle-orm';
+import { buildUpiIntent, normalizeUpiReference } from '../utils/upi';
+import { BASE_CURRENCY } from '../utils/currency';
+import { VOIDED_BILL_STATUSES } from './billLifecycleService';
+
+export interface BillUpiPayment {
+    vpa: string;
+    payeeName: string;
+    amount: number;
+    reference: string;
+    intent: string;
+}
+
+export class UpiPaymentService {
+    // UPI details for collecting a sales bill's balance; null when the company has no UPI ID,
+    // the bill is cancelled or nothing is left to pay
+    forBill(bill: SelectBill, company: SelectCompany): BillUpiPayment | null {
+        const amount = Number(bill.balanceDue) || 0;
+        if (!company.upiVpa || bill.type !== 'sale' || bill.currency !== BASE_CURRENCY || amount <= 0 || VOIDED_BILL_STATUSES.includes(bill.status)) {
+            return null;
+        }
+
+        const payeeName = company.upiPayeeName || company.name;
+        const reference = normalizeUpiReference(bill.billNumber);
+        return {
+            vpa: company.upiVpa,
+            payeeName,
+            amount,
+            reference,
+            intent: buildUpiIntent({ vpa: company.upiVpa, payeeName, amount, reference, note: `Invoice ${bill.billNumber}` }),
+        };
+    }
+
+    // Same as forBill, but explains why a bill cannot be paid by UPI
+    async getBillPayment(billId: string): Promise<BillUpiPayment> {
+        const [row] = await db
+            .select({ bill: bills, company: companies })
+            .from(bills)
+            .innerJoin(companies, eq(bills.companyId, companies.id))
+            .where(eq(bills.id, billId))
+            .limit(1);
+        if (!row) {
+            throw new Error('Bill not found');
+        }
+        if (row.bill.type !== 'sale') {
+            throw new Error('UPI collection is only available on sales bills');
+        }
+        if (row.bill.currency !== BASE_CURRENCY) {
+            throw new Error(`UPI collects ${BASE_CURRENCY} only; bill ${row.bill.billNumber} is in ${row.bill.currency}`);
+        }
+        if (!row.company.upiVpa) {
+            throw new Error('Set a UPI ID on the company to collect payments by UPI');
+        }
+
+        const upi = this.forBill(row.bill, row.company);
+        if (!upi) {
+            throw new Error(`Nothing is payable on ${row.bill.status} bill ${row.bill.billNumber}`);
+        }
+        return upi;
+    }
+
+    qrPng(intent: string): Promise<Buffer> {
+        return QRCode.toBuffer(intent, { type: 'png', errorCorrectionLevel: 'M', margin: 1, width: 240 });
+    }
+
+    qrDataUrl(intent: string): Promise<string> {
+        return QRCode.toDataURL(intent, { errorCorrectionLevel: 'M', margin: 1, width: 240 });
+    }
+
+    // Finds the company's bill whose number is carried in a payment reference, e.g. the UPI
+    // transaction reference or a bank narration such as "UPI/412345/INV24250007".
+    // Returns null when nothing or more than one bill matches equally well.
+    async matchBill(companyId: string, reference: string): Promise<SelectBill | null> {
+        const normalized = normalizeUpiReference(reference);
+        if (!normalized) return null;
+
+        const billReference = sql`regexp_replace(upper(${bills.billNumber}), '[^A-Z0-9]', '', 'g')`;
+        const candidates = await db.select()
+            .from(bills)
+            .where(and(
+                eq(bills.companyId, companyId),
+                eq(bills.type, 'sale'),
+                eq(bills.currency, BASE_CURRENCY),
+                notInArray(bills.status, VOIDED_BILL_STATUSES),
+                sql`length(${billReference}) > 0`,
+                sql`strpos(${normalized}, ${billReference}) > 0`
+            ))
+            .orderBy(desc(sql`length(${billReference})`))
+            .limit(2);
+
+        const [best, next] = candidates;
+        if (!best) return null;
+        if (next && normalizeUpiReference(next.billNumber).length === normalizeUpiReference(best.billNumber).length) {
+            return null;
+        }
+        return best;
+    }
+}
+
+export const upiPaymentService = new UpiPaymentService();
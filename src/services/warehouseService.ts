@@ -0,0 +1,213 @@
+import { db } from '../db/drizzle';
+import { randomUUID } from 'crypto';
+import { bills, companies, inventoryTransactions, products, SelectWarehouse, stockTransfers, warehouses, warehouseStock } from '../db/schema';
+import { and, asc, desc, eq, ne, or, sql } from 'drizzle-orm';
+import { inventoryService } from './inventoryService';
+
+export interface WarehouseInput {
+    name: string;
+    code?: string;
+    address?: string;
+    isActive?: boolean;
+    companyId: string;
+}
+
+export interface WarehouseStockFilters {
+    search?: string;
+    inStock?: boolean;      // only products the warehouse holds
+}
+
+export interface WarehouseProductStock {
+    productId: string;
+    name: string;
+    sku: string | null;
+    unit: string | null;
+    quantity: number;
+    totalStock: number;     // across the company's warehouses
+}
+
+// A company's warehouses (godowns). The first one becomes the default and takes over the stock
+// booked before the company had warehouses; movements that name no warehouse use the default.
+export class WarehouseService {
+    async list(companyId: string, includeInactive = false): Promise<SelectWarehouse[]> {
+        return db.select()
+            .from(warehouses)
+            .where(and(eq(warehouses.companyId, companyId), includeInactive ? undefined : eq(warehouses.isActive, true)))
+            .orderBy(desc(warehouses.isDefault), asc(warehouses.name));
+    }
+
+    // A warehouse of one of the user's companies
+    async getWarehouse(id: string, userId: number): Promise<SelectWarehouse> {
+        const [found] = await db.select({ warehouse: warehouses })
+            .from(warehouses)
+            .innerJoin(companies, eq(companies.id, warehouses.companyId))
+            .where(and(eq(warehouses.id, id), eq(companies.userId, userId)))
+            .limit(1);
+        if (!found) {
+            throw new Error('Warehouse not found');
+        }
+        return found.warehouse;
+    }
+
+    // Throws unless the warehouse belongs to the company and can take new documents
+    async assertWarehouse(companyId: string, id: string): Promise<SelectWarehouse> {
+        const [found] = await db.select()
+            .from(warehouses)
+            .where(and(eq(warehouses.id, id), eq(warehouses.companyId, companyId)))
+            .limit(1);
+        if (!found) {
+            throw new Error('Warehouse not found');
+        }
+        if (!found.isActive) {
+            throw new Error(`Warehouse ${found.name} is inactive`);
+        }
+        return found;
+    }
+
+    async createWarehouse(input: WarehouseInput, userId: number): Promise<SelectWarehouse> {
+        await this.assertUniqueName(input.companyId, input.name);
+        const [existing] = await db.select({ id: warehouses.id }).from(warehouses).where(eq(warehouses.companyId, input.companyId)).limit(1);
+        const values = { ...input, id: randomUUID(), isActive: true, createdBy: userId, updatedBy: userId };
+
+        try {
+            if (existing) {
+                const [inserted] = await db.insert(warehouses).values(values).returning();
+                return inserted;
+            }
+
+            // The first warehouse: book any stock the ledger is missing, then move the ledger
+            // rows that have no warehouse into this one and seed its stock from them
+            await inventoryService.reconcile(input.companyId);
+            const [[inserted]] = await db.batch([
+                db.insert(warehouses).values({ ...values, isDefault: true }).returning(),
+                db.update(inventoryTransactions)
+                    .set({ warehouseId: values.id })
+                    .where(and(eq(inventoryTransactions.companyId, input.companyId), sql`${inventoryTransactions.warehouseId} IS NULL`)),
+                db.execute(sql`
+                    INSERT INTO ${warehouseStock} (company_id, warehouse_id, product_id, quantity)
+                    SELECT company_id, warehouse_id, product_id, SUM(quantity) FROM ${inventoryTransactions}
+                    WHERE warehouse_id = ${values.id}
+                    GROUP BY company_id, warehouse_id, product_id
+                `)
+            ]);
+            return inserted;
+        } catch (error: any) {
+            const cause = error?.cause ?? error;
+            if (cause?.code === '23505') {
+                throw new Error(cause.constraint === 'warehouses_company_default_idx'
+                    ? 'Another warehouse was just created for the company; try again'
+                    : `Warehouse ${input.name} already exists`);
+            }
+            throw error;
+        }
+    }
+
+    // The default warehouse cannot be deactivated, nor can one that still holds stock
+    async updateWarehouse(id: string, changes: Partial<Omit<WarehouseInput, 'companyId'>>, userId: number): Promise<SelectWarehouse> {
+        const warehouse = await this.getWarehouse(id, userId);
+        if (changes.name && changes.name !== warehouse.name) {
+            await this.assertUniqueName(warehouse.companyId, changes.name, id);
+        }
+        if (changes.isActive === false && warehouse.isActive) {
+            if (warehouse.isDefault) {
+                throw new Error(`Warehouse ${warehouse.name} is the default; make another warehouse the default first`);
+            }
+            if (await this.holdsStock(id)) {
+                throw new Error(`Warehouse ${warehouse.name} still holds stock; transfer it out first`);
+            }
+        }
+
+        const [updated] = await db.update(warehouses)
+            .set({ ...changes, updatedBy: userId, updatedAt: new Date() })
+            .where(eq(warehouses.id, id))
+            .returning();
+        return updated;
+    }
+
+    async setDefault(id: string, userId: number): Promise<SelectWarehouse> {
+        const warehouse = await this.getWarehouse(id, userId);
+        if (warehouse.isDefault) return warehouse;
+        if (!warehouse.isActive) {
+            throw new Error(`Warehouse ${warehouse.name} is inactive`);
+        }
+
+        const now = new Date();
+        const [, [updated]] = await db.batch([
+            db.update(warehouses)
+                .set({ isDefault: false, updatedBy: userId, updatedAt: now })
+                .where(and(eq(warehouses.companyId, warehouse.companyId), eq(warehouses.isDefault, true))),
+            db.update(warehouses)
+                .set({ isDefault: true, updatedBy: userId, updatedAt: now })
+                .where(eq(warehouses.id, id))
+                .returning()
+        ]);
+        return updated;
+    }
+
+    // Only warehouses nothing refers to can be deleted; others are deactivated instead
+    async deleteWarehouse(id: string, userId: number): Promise<void> {
+        const warehouse = await this.getWarehouse(id, userId);
+        if (warehouse.isDefault) {
+            throw new Error(`Warehouse ${warehouse.name} is the default; make another warehouse the default first`);
+        }
+
+        const [moved] = await db.select({ id: inventoryTransactions.id })
+            .from(inventoryTransactions)
+            .where(eq(inventoryTransactions.warehouseId, id))
+            .limit(1);
+        const [billed] = await db.select({ id: bills.id }).from(bills).where(eq(bills.warehouseId, id)).limit(1);
+        const [transferred] = await db.select({ id: stockTransfers.id })
+            .from(stockTransfers)
+            .where(or(eq(stockTransfers.fromWarehouseId, id), eq(stockTransfers.toWarehouseId, id)))
+            .limit(1);
+        if (moved || billed || transferred) {
+            throw new Error(`Warehouse ${warehouse.name} has stock movements or documents; deactivate it instead`);
+        }
+        await db.delete(warehouses).where(eq(warehouses.id, id));
+    }
+
+    // The warehouse's stock of each active product, by name
+    async stock(id: string, userId: number, filters: WarehouseStockFilters = {}): Promise<WarehouseProductStock[]> {
+        const warehouse = await this.getWarehouse(id, userId);
+        const pattern = filters.search ? `%${filters.search}%` : undefined;
+        const rows = await db.select({
+            productId: products.id,
+            name: products.name,
+            sku: products.sku,
+            unit: products.unit,
+            quantity: sql<number>`COALESCE(${warehouseStock.quantity}, 0)`,
+            totalStock: products.stock,
+        })
+            .from(products)
+            .leftJoin(warehouseStock, and(eq(warehouseStock.productId, products.id), eq(warehouseStock.warehouseId, id)))
+            .where(and(
+                eq(products.companyId, warehouse.companyId),
+                eq(products.isActive, true),
+                filters.inStock ? sql`COALESCE(${warehouseStock.quantity}, 0) <> 0` : undefined,
+                pattern ? sql`(${products.name} ILIKE ${pattern} OR ${products.sku} ILIKE ${pattern} OR ${products.barcode} ILIKE ${pattern})` : undefined
+            ))
+            .orderBy(asc(products.name), asc(products.id));
+
+        return rows.map(row => ({ ...row, quantity: Number(row.quantity), totalStock: row.totalStock ?? 0 }));
+    }
+
+    private async holdsStock(id: string): Promise<boolean> {
+        const [held] = await db.select({ id: warehouseStock.id })
+            .from(warehouseStock)
+            .where(and(eq(warehouseStock.warehouseId, id), sql`${warehouseStock.quantity} <> 0`))
+            .limit(1);
+        return !!held;
+    }
+
+    private async assertUniqueName(companyId: string, name: string, excludeId?: string): Promise<void> {
+        const [existing] = await db.select({ id: warehouses.id })
+            .from(warehouses)
+            .where(and(eq(warehouses.companyId, companyId), eq(warehouses.name, name), excludeId ? ne(warehouses.id, excludeId) : undefined))
+            .limit(1);
+        if (existing) {
+            throw new Error(`Warehouse ${name} already exists`);
+        }
+    }
+}
+
+export const warehouseService = new WarehouseService();
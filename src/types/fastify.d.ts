@@ -7,10 +7,12 @@ declare module "fastify" {
     interface FastifyInstance {
         authenticate: (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
         requireRole: (role: RoleType) => (req: FastifyRequest, reply: FastifyReply) => Promise<void>;
+        idempotent: (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
     }
     interface FastifyRequest {
         user?: AuthJwtPayload;
         company?: SelectCompanies;
+        idempotencyRecordId?: string; // set by fastify.idempotent for a request that claimed its key
         subscription?: {
             plan: SubscriptionPlanType;
             status: SubscriptionStatusType;
@@ -0,0 +1,52 @@
+const ONES = [
+    "", "One", "Two", "Three", "Four", "Five", "Six", "Seven", "Eight", "Nine",
+    "Ten", "Eleven", "Twelve", "Thirteen", "Fourteen", "Fifteen", "Sixteen",
+    "Seventeen", "Eighteen", "Nineteen"
+];
+const TENS = ["", "", "Twenty", "Thirty", "Forty", "Fifty", "Sixty", "Seventy", "Eighty", "Ninety"];
+
+function twoDigits(n: number): string {
+    if (n < 20) return ONES[n];
+    return `${TENS[Math.floor(n / 10)]}${n % 10 ? ` ${ONES[n % 10]}` : ""}`;
+}
+
+function threeDigits(n: number): string {
+    const hundred = Math.floor(n / 100);
+    const rest = n % 100;
+    const parts = [];
+    if (hundred) parts.push(`${ONES[hundred]} Hundred`);
+    if (rest) parts.push(twoDigits(rest));
+    return parts.join(" ");
+}
+
+// Converts a whole number to words using the Indian numbering system (lakh, crore)
+export function numberToWords(value: number): string {
+    let n = Math.floor(Math.abs(value));
+    if (n === 0) return "Zero";
+
+    const parts = [];
+    const crore = Math.floor(n / 10000000);
+    n %= 10000000;
+    const lakh = Math.floor(n / 100000);
+    n %= 100000;
+    const thousand = Math.floor(n / 1000);
+    n %= 1000;
+
+    if (crore) parts.push(`${numberToWords(crore)} Crore`);
+    if (lakh) parts.push(`${twoDigits(lakh)} Lakh`);
+    if (thousand) parts.push(`${twoDigits(thousand)} Thousand`);
+    if (n) parts.push(threeDigits(n));
+
+    return parts.join(" ");
+}
+
+// e.g. 1234.5 -> "Indian Rupees One Thousand Two Hundred Thirty Four and Fifty Paise Only"
+export function amountInWords(amount: number, currency: string = "Indian Rupees", subunit: string = "Paise"): string {
+    const rounded = Math.round(Math.abs(amount) * 100);
+    const whole = Math.floor(rounded / 100);
+    const fraction = rounded % 100;
+
+    let words = `${currency} ${numberToWords(whole)}`;
+    if (fraction) words += ` and ${twoDigits(fraction)} ${subunit}`;
+    return `${words} Only`;
+}
@@ -0,0 +1,233 @@
+import { BillCharge, BillItem, ExportType } from '../db/schema';
+import { EXPORT_PLACE_OF_SUPPLY, getStateCodeFromGstin, isInterStateSupply, roundCurrency, splitTax } from './gst';
+import { BASE_CURRENCY } from './currency';
+
+// Client-sent line values may differ from the server's by rounding; anything beyond this is rejected
+const CLIENT_TOLERANCE = 1;
+
+// A hand-set round-off may move the total by at most this much either way
+export const MAX_ROUND_OFF = 1;
+
+export interface BillLineInput {
+    name: string;
+    description?: string;
+    quantity: number;
+    rate: number;
+    unit?: string;
+    taxRate: number;
+    cessRate?: number;
+    discount?: number;
+    discountType?: 'percentage' | 'amount';
+    hsnCode?: string;
+    productId?: string;
+    challanId?: string;     // set on lines invoiced from a delivery challan
+    challanLine?: number;
+    batchId?: string;       // picked earliest expiry first on sales when absent
+    batchNumber?: string;   // on purchases, creates the batch when it is new
+    manufacturingDate?: string;
+    expiryDate?: string;
+    mrp?: number;
+    serialNumbers?: string[];   // the units sold or bought, for serial-tracked products
+    // Optional client-computed values, checked against the server computation
+    amount?: number;
+    taxAmount?: number;
+    total?: number;
+}
+
+export interface BillChargeInput {
+    name: string;
+    hsnCode?: string;
+    amount: number;
+    taxRate: number;
+}
+
+export interface BillCalculationInput {
+    items: BillLineInput[];
+    charges?: BillChargeInput[] | null;
+    discount?: number | null;       // bill-level discount, shared across the lines before tax
+    discountType?: string | null;
+    roundOff?: number | null;       // set by hand; rounds to the nearest rupee when null or missing
+    currency?: string | null;       // totals in other currencies are not rounded to a whole unit
+    exportType?: ExportType | null; // exports are inter-state; without_payment is zero-rated
+    supplierGstin?: string | null;
+    customerGstin?: string | null;
+    placeOfSupply?: string | null;  // state code; defaults to the customer's GSTIN state, then the supplier's
+}
+
+export interface BillCalculation {
+    items: BillItem[];
+    charges: BillCharge[];
+    amount: number;        // taxable value of lines and charges after discounts
+    taxAmount: number;     // CGST + SGST + IGST
+    cgst: number;
+    sgst: number;
+    igst: number;
+    cess: number;
+    discount: number;      // bill-level discount, included in the lines' taxable values
+    roundOff: number;
+    roundOffManual: boolean;
+    totalAmount: number;
+    placeOfSupply?: string;
+    interState: boolean;
+}
+
+// Computes line taxable values after line discounts and the bill-level discount (shared across
+// lines in proportion to their value, so GST is charged on the discounted amount), adds taxable
+// charges, splits GST and cess, then rounds the total to the nearest rupee unless a round-off
+// is given. Exports are supplied to place of supply 96 as IGST, or with no tax under LUT.
+// Throws when client-sent line values disagree beyond rounding.
+export function calculateBill(input: BillCalculationInput): BillCalculation {
+    const supplierState = getStateCodeFromGstin(input.supplierGstin);
+    const placeOfSupply = input.exportType
+        ? EXPORT_PLACE_OF_SUPPLY
+        : input.placeOfSupply || getStateCodeFromGstin(input.customerGstin) || supplierState;
+    const interState = Boolean(input.exportType) || isInterStateSupply(supplierState, placeOfSupply);
+    // Zero-rated lines keep their rate for GSTR-1 but carry no tax
+    const taxable = input.exportType !== 'without_payment';
+
+    const netValues = input.items.map((line, index) => {
+        const gross = line.quantity * line.rate;
+        const lineDiscount = line.discount
+            ? (line.discountType === 'percentage' ? gross * line.discount / 100 : line.discount)
+            : 0;
+        if (lineDiscount < 0 || lineDiscount > gross + 0.005) {
+            throw new Error(`Item ${index + 1} (${line.name}): discount cannot exceed the line value`);
+        }
+        return roundCurrency(gross - lineDiscount);
+    });
+
+    const itemsValue = roundCurrency(netValues.reduce((total, value) => total + value, 0));
+    let discount = 0;
+    if (input.discount) {
+        discount = roundCurrency(input.discountType === 'percentage' ? itemsValue * input.discount / 100 : input.discount);
+    }
+    if (discount < 0 || discount > itemsValue) {
+        throw new Error('Discount cannot exceed the value of the items');
+    }
+    const billDiscounts = apportion(discount, netValues);
+
+    const items = input.items.map((line, index) => {
+        const amount = roundCurrency(netValues[index] - billDiscounts[index]);
+        const taxAmount = taxable ? roundCurrency(amount * line.taxRate / 100) : 0;
+        const cessAmount = taxable ? roundCurrency(amount * (line.cessRate || 0) / 100) : 0;
+        const split = splitTax(taxAmount, interState);
+        const item: BillItem = {
+            name: line.name,
+            description: line.description,
+            quantity: line.quantity,
+            rate: line.rate,
+            unit: line.unit,
+            discount: line.discount,
+            discountType: line.discountType,
+            taxRate: line.taxRate,
+            taxAmount,
+            cessRate: line.cessRate,
+            cessAmount,
+            cgst: split.cgst,
+            sgst: split.sgst,
+            igst: split.igst,
+            billDiscount: billDiscounts[index] || undefined,
+            amount,
+            hsnCode: line.hsnCode,
+            total: roundCurrency(amount + taxAmount + cessAmount),
+            productId: line.productId,
+            challanId: line.challanId,
+            challanLine: line.challanLine,
+            batchId: line.batchId,
+            batchNumber: line.batchNumber,
+            expiryDate: line.expiryDate,
+            mrp: line.mrp,
+            serialNumbers: line.serialNumbers,
+        };
+
+        checkClientValue(index, line, 'amount', item.amount);
+        checkClientValue(index, line, 'taxAmount', item.taxAmount);
+        checkClientValue(index, line, 'total', item.total);
+        return item;
+    });
+
+    const charges = (input.charges ?? []).map((charge, index) => {
+        if (!charge.name?.trim()) {
+            throw new Error(`Charge ${index + 1}: name is required`);
+        }
+        if (!(charge.amount >= 0) || !(charge.taxRate >= 0)) {
+            throw new Error(`Charge ${index + 1} (${charge.name}): amount and tax rate cannot be negative`);
+        }
+        const amount = roundCurrency(charge.amount);
+        const taxAmount = taxable ? roundCurrency(amount * charge.taxRate / 100) : 0;
+        const split = splitTax(taxAmount, interState);
+        const computed: BillCharge = {
+            name: charge.name,
+            hsnCode: charge.hsnCode,
+            amount,
+            taxRate: charge.taxRate,
+            taxAmount,
+            cgst: split.cgst,
+            sgst: split.sgst,
+            igst: split.igst,
+            total: roundCurrency(amount + taxAmount),
+        };
+        return computed;
+    });
+
+    const lines: { amount: number; taxAmount: number; cessAmount?: number; cgst?: number; sgst?: number; igst?: number }[] = [...items, ...charges];
+    const sum = (pick: (line: typeof lines[number]) => number | undefined) => roundCurrency(lines.reduce((total, line) => total + (pick(line) || 0), 0));
+    const amount = sum(line => line.amount);
+    const taxAmount = sum(line => line.taxAmount);
+    const cess = sum(line => line.cessAmount);
+    const exactTotal = roundCurrency(amount + taxAmount + cess);
+
+    const roundOffManual = input.roundOff !== undefined && input.roundOff !== null;
+    if (roundOffManual && Math.abs(input.roundOff!) > MAX_ROUND_OFF) {
+        throw new Error(`Round off must be between -${MAX_ROUND_OFF} and ${MAX_ROUND_OFF}`);
+    }
+    const roundToWhole = (input.currency ?? BASE_CURRENCY) === BASE_CURRENCY;
+    const totalAmount = roundOffManual ? roundCurrency(exactTotal + input.roundOff!) : roundToWhole ? Math.round(exactTotal) : exactTotal;
+
+    return {
+        items,
+        charges,
+        amount,
+        taxAmount,
+        cgst: sum(line => line.cgst),
+        sgst: sum(line => line.sgst),
+        igst: sum(line => line.igst),
+        cess,
+        discount,
+        roundOff: roundCurrency(totalAmount - exactTotal),
+        roundOffManual,
+        totalAmount,
+        placeOfSupply,
+        interState,
+    };
+}
+
+// Stored lines as calculator input. The computed values they carry depend on the bill-level
+// discount, so they are dropped rather than checked when a bill is re-priced.
+export function toLineInputs(items: BillItem[]): BillLineInput[] {
+    return items.map(({ amount, taxAmount, total, ...line }) => line);
+}
+
+// Splits a bill-level amount across lines in proportion to their values; the last line with
+// a value takes the rounding difference
+function apportion(total: number, values: number[]): number[] {
+    const base = values.reduce((sum, value) => sum + value, 0);
+    if (!total || !base) return values.map(() => 0);
+
+    const last = values.map(value => value > 0).lastIndexOf(true);
+    let remaining = total;
+    return values.map((value, index) => {
+        if (index === last) return roundCurrency(remaining);
+        const share = roundCurrency(total * value / base);
+        remaining -= share;
+        return share;
+    });
+}
+
+function checkClientValue(index: number, line: BillLineInput, field: 'amount' | 'taxAmount' | 'total', computed: number) {
+    const sent = line[field];
+    if (sent === undefined) return;
+    if (Math.abs(sent - computed) > CLIENT_TOLERANCE) {
+        throw new Error(`Item ${index + 1} (${line.name}): ${field} ${sent} does not match the computed ${computed}`);
+    }
+}
@@ -0,0 +1,17 @@
+export type CsvValue = string | number | boolean | Date | null | undefined;
+
+// Quotes fields with separators, quotes or line breaks. Text that a spreadsheet would read as a
+// formula (=, +, -, @) is prefixed with an apostrophe; numbers are written as they are.
+function csvField(value: CsvValue): string {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) return value.toISOString().split('T')[0];
+    if (typeof value !== 'string') return String(value);
+
+    const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// CSV with a UTF-8 byte order mark so spreadsheet apps keep non-ASCII names intact
+export function toCsv(rows: CsvValue[][]): string {
+    return '\uFEFF' + rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,31 @@
+import { roundCurrency } from './gst';
+
+// Bills are kept in their own currency; GST postings and reports use the INR value at the
+// exchange rate captured on the bill
+export const BASE_CURRENCY = 'INR';
+
+// Currencies bills can be raised in, with the words used for amounts on invoices
+export const CURRENCIES: Record<string, { name: string; subunit: string }> = {
+    INR: { name: 'Indian Rupees', subunit: 'Paise' },
+    USD: { name: 'US Dollars', subunit: 'Cents' },
+    EUR: { name: 'Euros', subunit: 'Cents' },
+    GBP: { name: 'Pounds Sterling', subunit: 'Pence' },
+    AED: { name: 'UAE Dirhams', subunit: 'Fils' },
+    SAR: { name: 'Saudi Riyals', subunit: 'Halalas' },
+    SGD: { name: 'Singapore Dollars', subunit: 'Cents' },
+    AUD: { name: 'Australian Dollars', subunit: 'Cents' },
+    CAD: { name: 'Canadian Dollars', subunit: 'Cents' },
+    CHF: { name: 'Swiss Francs', subunit: 'Rappen' },
+};
+
+export const CURRENCY_CODES = Object.keys(CURRENCIES) as [string, ...string[]];
+
+export function toBaseCurrency(amount: number, exchangeRate: number): number {
+    return roundCurrency(amount * exchangeRate);
+}
+
+// "₹1,234.50" for rupees, "USD 1,234.50" otherwise
+export function formatCurrencyAmount(amount: number | string, currency: string = BASE_CURRENCY): string {
+    const formatted = Number(amount || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    return currency === BASE_CURRENCY ? `₹${formatted}` : `${currency} ${formatted}`;
+}
@@ -0,0 +1,54 @@
+import { DeliveryChannel } from '../db/schema';
+
+export interface MessageTemplate {
+    subject?: string;
+    body: string;
+}
+
+// Placeholders available to templates, e.g. {{billNumber}}
+export interface BillTemplateContext {
+    companyName: string;
+    customerName: string;
+    billNumber: string;
+    billDate: string;
+    dueDate: string;
+    totalAmount: string;
+    balanceDue: string;
+    pdfUrl: string;
+}
+
+export const DEFAULT_BILL_TEMPLATES: Record<DeliveryChannel, MessageTemplate> = {
+    email: {
+        subject: 'Invoice {{billNumber}} from {{companyName}}',
+        body: 'Dear {{customerName}},\n\n'
+            + 'Please find attached invoice {{billNumber}} dated {{billDate}} for {{totalAmount}}. '
+            + 'The balance of {{balanceDue}} is due by {{dueDate}}.\n\n'
+            + 'You can also download it from {{pdfUrl}}\n\n'
+            + 'Thank you for your business.\n{{companyName}}',
+    },
+    sms: {
+        body: '{{companyName}}: Invoice {{billNumber}} for {{totalAmount}}, due {{dueDate}}. Download: {{pdfUrl}}',
+    },
+    whatsapp: {
+        body: 'Hello {{customerName}}, here is invoice *{{billNumber}}* from {{companyName}} for {{totalAmount}}, '
+            + 'due on {{dueDate}}.\nDownload: {{pdfUrl}}',
+    },
+};
+
+// Replaces {{name}} placeholders; unknown names render as empty strings
+export function renderTemplate(template: string, context: BillTemplateContext): string {
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) =>
+        (context as unknown as Record<string, string | undefined>)[key] ?? ''
+    );
+}
+
+// Minimal HTML version of a plain-text message for email clients
+export function textToHtml(text: string): string {
+    const escaped = text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+    const linked = escaped.replace(/(https?:\/\/[^\s<]+)/g, '<a href="$1">$1</a>');
+    return `<div style="font-family: Arial, sans-serif; max-width: 600px;">${linked.replace(/\n/g, '<br>')}</div>`;
+}
@@ -0,0 +1,18 @@
+export interface FinancialYear {
+    label: string;      // e.g. 2024-25
+    shortLabel: string; // e.g. 24-25
+    startDate: Date;
+    endDate: Date;
+}
+
+// Indian financial year runs from 1 April to 31 March
+export function getFinancialYear(date: Date = new Date()): FinancialYear {
+    const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+    const endYear = startYear + 1;
+    return {
+        label: `${startYear}-${String(endYear).slice(-2)}`,
+        shortLabel: `${String(startYear).slice(-2)}-${String(endYear).slice(-2)}`,
+        startDate: new Date(startYear, 3, 1),
+        endDate: new Date(endYear, 2, 31, 23, 59, 59, 999),
+    };
+}
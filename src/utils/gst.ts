@@ -0,0 +1,90 @@
+// GST state codes as used in the first two digits of a GSTIN
+export const GST_STATE_CODES: Record<string, string> = {
+    "01": "Jammu and Kashmir",
+    "02": "Himachal Pradesh",
+    "03": "Punjab",
+    "04": "Chandigarh",
+    "05": "Uttarakhand",
+    "06": "Haryana",
+    "07": "Delhi",
+    "08": "Rajasthan",
+    "09": "Uttar Pradesh",
+    "10": "Bihar",
+    "11": "Sikkim",
+    "12": "Arunachal Pradesh",
+    "13": "Nagaland",
+    "14": "Manipur",
+    "15": "Mizoram",
+    "16": "Tripura",
+    "17": "Meghalaya",
+    "18": "Assam",
+    "19": "West Bengal",
+    "20": "Jharkhand",
+    "21": "Odisha",
+    "22": "Chhattisgarh",
+    "23": "Madhya Pradesh",
+    "24": "Gujarat",
+    "26": "Dadra and Nagar Haveli and Daman and Diu",
+    "27": "Maharashtra",
+    "29": "Karnataka",
+    "30": "Goa",
+    "31": "Lakshadweep",
+    "32": "Kerala",
+    "33": "Tamil Nadu",
+    "34": "Puducherry",
+    "35": "Andaman and Nicobar Islands",
+    "36": "Telangana",
+    "37": "Andhra Pradesh",
+    "38": "Ladakh",
+    "96": "Other Countries",
+    "97": "Other Territory",
+    "99": "Centre Jurisdiction",
+};
+
+// Place of supply of exports
+export const EXPORT_PLACE_OF_SUPPLY = "96";
+
+// Six-character customs port codes as reported in GSTR-1, e.g. INNSA1 (Nhava Sheva)
+export const PORT_CODE_PATTERN = /^[A-Z]{2}[A-Z0-9]{4}$/;
+
+export function getStateCodeFromGstin(gstin?: string | null): string | undefined {
+    if (!gstin || gstin.length < 2) return undefined;
+    const code = gstin.substring(0, 2);
+    return GST_STATE_CODES[code] ? code : undefined;
+}
+
+export function getStateName(stateCode?: string | null): string | undefined {
+    return stateCode ? GST_STATE_CODES[stateCode] : undefined;
+}
+
+// Formats a state code as "27-Maharashtra", the way place of supply is printed on invoices
+export function formatPlaceOfSupply(stateCode?: string | null): string | undefined {
+    const name = getStateName(stateCode);
+    return name ? `${stateCode}-${name}` : undefined;
+}
+
+// Supply is inter-state when the supplier and recipient states differ.
+// Unregistered recipients without a known state are treated as intra-state.
+export function isInterStateSupply(supplierStateCode?: string | null, placeOfSupply?: string | null): boolean {
+    if (!supplierStateCode || !placeOfSupply) return false;
+    return supplierStateCode !== placeOfSupply;
+}
+
+export function roundCurrency(value: number): number {
+    return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+export interface TaxSplit {
+    cgst: number;
+    sgst: number;
+    igst: number;
+}
+
+// Inter-state tax is levied entirely as IGST; intra-state tax is shared equally as CGST and SGST
+export function splitTax(taxAmount: number, interState: boolean): TaxSplit {
+    if (interState) {
+        return { cgst: 0, sgst: 0, igst: roundCurrency(taxAmount) };
+    }
+    const half = roundCurrency(taxAmount / 2);
+    return { cgst: half, sgst: roundCurrency(taxAmount - half), igst: 0 };
+}
@@ -0,0 +1,118 @@
+import { and, asc, desc, or, sql, SQL } from 'drizzle-orm';
+import { AnyPgColumn } from 'drizzle-orm/pg-core';
+import { z } from 'zod';
+
+export const DEFAULT_PAGE_SIZE = 10;
+export const MAX_PAGE_SIZE = 100;
+
+export type SortOrder = 'asc' | 'desc';
+type CursorValue = string | number | null;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// A sort key of a list endpoint: the column to order by and how to read it back from a row
+export interface SortField<T> {
+    column: AnyPgColumn;
+    value: (row: T) => Date | string | number | null;
+}
+
+export interface PaginationParams {
+    sortBy: string;
+    sortOrder: SortOrder;
+    limit: number;
+    cursor?: string;
+    page?: number;          // offset pagination, kept for older clients; ignores cursor
+}
+
+export interface Page<T> {
+    items: T[];
+    nextCursor: string | null;
+    hasMore: boolean;
+}
+
+export interface PageQuery<T> {
+    where?: SQL;            // rows after the cursor, to be combined with the endpoint's filters
+    orderBy: SQL[];
+    limit: number;          // one more than the page size, to tell whether a next page exists
+    offset: number;
+    size: number;
+    page(rows: T[]): Page<T>;
+}
+
+// Query string fields shared by paginated list endpoints
+export function paginationQuery<K extends string>(fields: Record<K, unknown>, defaultSort: K, defaultOrder: SortOrder) {
+    return {
+        cursor: z.string().optional(),
+        limit: z.string().optional().transform(val => val ? Math.min(Math.max(parseInt(val) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE) : DEFAULT_PAGE_SIZE),
+        page: z.string().optional().transform(val => val ? Math.max(parseInt(val) || 1, 1) : undefined),
+        includeTotal: z.string().optional().transform(val => val === 'true'),
+        sortBy: z.enum(Object.keys(fields) as [K, ...K[]]).optional().default(defaultSort),
+        sortOrder: z.enum(['asc', 'desc']).optional().default(defaultOrder),
+    };
+}
+
+// Keyset pagination: rows are ordered by the sort key and then the id, and the opaque cursor
+// holds both values of the last row returned. Rows inserted or deleted between requests never
+// shift the next page, so a list read while a sync is writing has no duplicates or gaps.
+// Timestamps are compared at millisecond precision, the precision a cursor can carry.
+export function pageQuery<T extends { id: string }>(fields: Record<string, SortField<T>>, idColumn: AnyPgColumn, params: PaginationParams): PageQuery<T> {
+    const field = fields[params.sortBy];
+    const key = field.column.dataType === 'date' ? sql`date_trunc('milliseconds', ${field.column})` : sql`${field.column}`;
+    const descending = params.sortOrder === 'desc';
+    const size = params.limit;
+    const cursor = params.cursor && !params.page ? decodeCursor(params.cursor, params) : undefined;
+
+    return {
+        where: cursor ? after(key, idColumn, cursor, descending) : undefined,
+        orderBy: descending ? [desc(key), desc(idColumn)] : [asc(key), asc(idColumn)],
+        limit: size + 1,
+        offset: params.page ? (params.page - 1) * size : 0,
+        size,
+        page(rows: T[]): Page<T> {
+            const items = rows.slice(0, size);
+            const hasMore = rows.length > size;
+            const last = items[items.length - 1];
+            return {
+                items,
+                hasMore,
+                nextCursor: hasMore && last ? encodeCursor(params, field.value(last), last.id) : null,
+            };
+        },
+    };
+}
+
+// Rows after the cursor in sort order. As in Postgres, NULLs sort after every value when
+// ascending and before every value when descending.
+function after(key: SQL, idColumn: AnyPgColumn, cursor: { value: CursorValue; id: string }, descending: boolean): SQL {
+    const beyond = sql.raw(descending ? '<' : '>');
+    const sameKeyAfter = sql`${idColumn} ${beyond} ${cursor.id}`;
+    if (cursor.value === null) {
+        return descending
+            ? or(and(sql`${key} IS NULL`, sameKeyAfter), sql`${key} IS NOT NULL`)!
+            : and(sql`${key} IS NULL`, sameKeyAfter)!;
+    }
+    return or(
+        sql`${key} ${beyond} ${cursor.value}`,
+        and(sql`${key} = ${cursor.value}`, sameKeyAfter),
+        descending ? undefined : sql`${key} IS NULL`
+    )!;
+}
+
+function encodeCursor(params: PaginationParams, value: Date | string | number | null, id: string): string {
+    const stored: CursorValue = value instanceof Date ? value.toISOString() : value;
+    return Buffer.from(JSON.stringify([params.sortBy, params.sortOrder, stored, id])).toString('base64url');
+}
+
+// A cursor only continues the listing it came from: the same sort key and order
+function decodeCursor(cursor: string, params: PaginationParams): { value: CursorValue; id: string } {
+    try {
+        const [sortBy, sortOrder, value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+        if (sortBy === params.sortBy && sortOrder === params.sortOrder && typeof id === 'string' && UUID_PATTERN.test(id)
+            && (value === null || typeof value === 'string' || typeof value === 'number')) {
+            return { value, id };
+        }
+    } catch {
+        // fall through
+    }
+    throw new Error('Invalid cursor');
+}
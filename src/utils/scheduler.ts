@@ -0,0 +1,44 @@
+export interface ScheduledJob {
+    name: string;
+    intervalMs: number;
+    run: () => Promise<void>;
+}
+
+// Minimal in-process scheduler for periodic background work. A job never overlaps
+// with itself: a tick is skipped while the previous run is still in progress.
+export class Scheduler {
+    private jobs: ScheduledJob[] = [];
+    private timers: NodeJS.Timeout[] = [];
+    private running = new Set<string>();
+
+    register(job: ScheduledJob): void {
+        this.jobs.push(job);
+    }
+
+    start(): void {
+        if (process.env.DISABLE_SCHEDULER === 'true') return;
+        for (const job of this.jobs) {
+            this.tick(job);
+            this.timers.push(setInterval(() => this.tick(job), job.intervalMs));
+        }
+    }
+
+    stop(): void {
+        this.timers.forEach(timer => clearInterval(timer));
+        this.timers = [];
+    }
+
+    private async tick(job: ScheduledJob): Promise<void> {
+        if (this.running.has(job.name)) return;
+        this.running.add(job.name);
+        try {
+            await job.run();
+        } catch (error) {
+            console.error(`Scheduled job ${job.name} failed:`, error);
+        } finally {
+            this.running.delete(job.name);
+        }
+    }
+}
+
+export const scheduler = new Scheduler();
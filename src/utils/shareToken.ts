@@ -0,0 +1,41 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import dotenv from "dotenv";
+dotenv.config();
+
+export interface ShareTokenPayload {
+    linkId: string;
+    expiresAt: Date;
+}
+
+function getSecret(): string {
+    const secret = process.env.SHARE_LINK_SECRET || process.env.JWT_SECRET;
+    if (!secret) {
+        throw new Error("SHARE_LINK_SECRET or JWT_SECRET must be set to sign share links");
+    }
+    return secret;
+}
+
+function signature(body: string): string {
+    return createHmac("sha256", getSecret()).update(body).digest("base64url");
+}
+
+// <linkId>.<expiry in epoch seconds>.<HMAC of both>
+export function signShareToken(payload: ShareTokenPayload): string {
+    const body = `${payload.linkId}.${Math.floor(payload.expiresAt.getTime() / 1000)}`;
+    return `${body}.${signature(body)}`;
+}
+
+// Returns null for malformed, tampered or expired tokens
+export function verifyShareToken(token: string): ShareTokenPayload | null {
+    const parts = token.split(".");
+    if (parts.length !== 3) return null;
+
+    const [linkId, expires, sig] = parts;
+    const expected = Buffer.from(signature(`${linkId}.${expires}`));
+    const actual = Buffer.from(sig);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+    const expiresAt = new Date(Number(expires) * 1000);
+    if (isNaN(expiresAt.getTime()) || expiresAt <= new Date()) return null;
+    return { linkId, expiresAt };
+}
@@ -0,0 +1,29 @@
+// UPI deep links (NPCI "upi://pay" intent) for collecting invoice payments
+
+export const UPI_VPA_PATTERN = /^[a-zA-Z0-9._-]{2,256}@[a-zA-Z][a-zA-Z0-9.-]{1,63}$/;
+
+export interface UpiIntentParams {
+    vpa: string;
+    payeeName: string;
+    amount: number;
+    reference: string;   // tr: echoed back by the payer's app and bank statement
+    note?: string;       // tn: shown to the payer
+}
+
+// Payment references only keep letters and digits (UPI apps drop the rest), upper-cased.
+// INV/24-25/0007 becomes INV24250007.
+export function normalizeUpiReference(value: string): string {
+    return value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+export function buildUpiIntent(params: UpiIntentParams): string {
+    const query = [
+        ['pa', params.vpa],
+        ['pn', params.payeeName],
+        ['am', params.amount.toFixed(2)],
+        ['cu', 'INR'],
+        ['tr', normalizeUpiReference(params.reference).slice(0, 35)],
+        ...(params.note ? [['tn', params.note.slice(0, 80)]] : []),
+    ];
+    return `upi://pay?${query.map(([key, value]) => `${key}=${encodeURIComponent(value).replace(/%40/g, '@')}`).join('&')}`;
+}
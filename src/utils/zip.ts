@@ -0,0 +1,113 @@
+import { promises as fs } from 'fs';
+import { crc32, deflateRawSync } from 'zlib';
+
+// Minimal ZIP writer (deflate, UTF-8 names, no ZIP64). Entries are appended to the file as they
+// are added, so an archive never has to fit in memory. Limited to 65,535 entries and 4 GB.
+export const ZIP_MAX_ENTRIES = 0xffff;
+
+interface ZipEntry {
+    name: Buffer;
+    crc: number;
+    compressedSize: number;
+    size: number;
+    offset: number;
+    time: number;
+    date: number;
+}
+
+const UTF8_NAMES = 0x0800;
+const DEFLATE = 8;
+const VERSION = 20;
+
+export class ZipWriter {
+    private entries: ZipEntry[] = [];
+    private offset = 0;
+
+    private constructor(private file: fs.FileHandle) {}
+
+    static async create(filePath: string): Promise<ZipWriter> {
+        return new ZipWriter(await fs.open(filePath, 'w'));
+    }
+
+    async addFile(name: string, data: Buffer, modified: Date = new Date()): Promise<void> {
+        if (this.entries.length >= ZIP_MAX_ENTRIES) {
+            throw new Error(`A ZIP archive holds at most ${ZIP_MAX_ENTRIES} files`);
+        }
+
+        const compressed = deflateRawSync(data);
+        const entry: ZipEntry = {
+            name: Buffer.from(name, 'utf8'),
+            crc: crc32(data),
+            compressedSize: compressed.length,
+            size: data.length,
+            offset: this.offset,
+            ...dosDateTime(modified),
+        };
+
+        const header = Buffer.alloc(30);
+        header.writeUInt32LE(0x04034b50, 0);
+        header.writeUInt16LE(VERSION, 4);
+        header.writeUInt16LE(UTF8_NAMES, 6);
+        header.writeUInt16LE(DEFLATE, 8);
+        header.writeUInt16LE(entry.time, 10);
+        header.writeUInt16LE(entry.date, 12);
+        header.writeUInt32LE(entry.crc, 14);
+        header.writeUInt32LE(entry.compressedSize, 18);
+        header.writeUInt32LE(entry.size, 22);
+        header.writeUInt16LE(entry.name.length, 26);
+        header.writeUInt16LE(0, 28);
+
+        await this.write(Buffer.concat([header, entry.name, compressed]));
+        this.entries.push(entry);
+    }
+
+    // Writes the central directory and closes the file; returns the archive size in bytes
+    async close(): Promise<number> {
+        const directoryOffset = this.offset;
+        for (const entry of this.entries) {
+            const header = Buffer.alloc(46);
+            header.writeUInt32LE(0x02014b50, 0);
+            header.writeUInt16LE(VERSION, 4);
+            header.writeUInt16LE(VERSION, 6);
+            header.writeUInt16LE(UTF8_NAMES, 8);
+            header.writeUInt16LE(DEFLATE, 10);
+            header.writeUInt16LE(entry.time, 12);
+            header.writeUInt16LE(entry.date, 14);
+            header.writeUInt32LE(entry.crc, 16);
+            header.writeUInt32LE(entry.compressedSize, 20);
+            header.writeUInt32LE(entry.size, 24);
+            header.writeUInt16LE(entry.name.length, 28);
+            header.writeUInt32LE(entry.offset, 42);
+            await this.write(Buffer.concat([header, entry.name]));
+        }
+
+        const end = Buffer.alloc(22);
+        end.writeUInt32LE(0x06054b50, 0);
+        end.writeUInt16LE(this.entries.length, 8);
+        end.writeUInt16LE(this.entries.length, 10);
+        end.writeUInt32LE(this.offset - directoryOffset, 12);
+        end.writeUInt32LE(directoryOffset, 16);
+        await this.write(end);
+
+        await this.file.close();
+        return this.offset;
+    }
+
+    // Closes the file without finishing the archive
+    async abort(): Promise<void> {
+        await this.file.close();
+    }
+
+    private async write(buffer: Buffer): Promise<void> {
+        await this.file.write(buffer);
+        this.offset += buffer.length;
+    }
+}
+
+// MS-DOS time and date fields, in local time with two-second resolution
+function dosDateTime(value: Date): { time: number; date: number } {
+    return {
+        time: (value.getHours() << 11) | (value.getMinutes() << 5) | (value.getSeconds() >> 1),
+        date: ((Math.max(value.getFullYear(), 1980) - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+    };
+}